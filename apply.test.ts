@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from "vitest";
+import { createSessionApplier, runtimeHotApply, type SessionChange } from "./apply.js";
+
+const change: SessionChange = { sessionKey: "s1", agentId: "main", patch: { model: "provB/m1" } };
+
+/** Let the applier's promise chain settle. */
+async function settle() {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+}
+
+// ---------------------------------------------------------------------------
+// 1. Runtime
+// ---------------------------------------------------------------------------
+describe("runtimeHotApply", () => {
+  it("prefers the session store API", async () => {
+    const update = vi.fn(async () => true);
+    const reload = vi.fn();
+    const hotApply = runtimeHotApply({ runtime: { sessions: { update, reload } } })!;
+
+    await expect(hotApply(change)).resolves.toBe(true);
+    expect(update).toHaveBeenCalledWith("s1", { model: "provB/m1" }, { agentId: "main" });
+    expect(reload).not.toHaveBeenCalled();
+  });
+
+  it("falls back to a reload signal", async () => {
+    const reload = vi.fn(() => undefined);
+    const hotApply = runtimeHotApply({ runtime: { sessions: { reload } } })!;
+
+    await expect(hotApply(change)).resolves.toBe(true);
+    expect(reload).toHaveBeenCalledWith("s1", { agentId: "main" });
+  });
+
+  it("treats false as not applied and is absent without a session API", async () => {
+    const hotApply = runtimeHotApply({ runtime: { sessions: { update: () => false } } })!;
+    await expect(hotApply(change)).resolves.toBe(false);
+    expect(runtimeHotApply({ runtime: {} })).toBeUndefined();
+    expect(runtimeHotApply(undefined)).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Applier
+// ---------------------------------------------------------------------------
+describe("createSessionApplier", () => {
+  it("always restarts with the restart strategy", () => {
+    const restart = vi.fn();
+    const hotApply = vi.fn(async () => true);
+    const applier = createSessionApplier({ strategy: "restart", hotApply, restart });
+
+    applier.apply(change);
+    applier.apply(undefined);
+    expect(restart).toHaveBeenCalledTimes(2);
+    expect(hotApply).not.toHaveBeenCalled();
+  });
+
+  it("hot-applies without a restart", async () => {
+    const restart = vi.fn();
+    const onApplied = vi.fn();
+    const applier = createSessionApplier({ strategy: "hot", hotApply: async () => true, restart, onApplied });
+
+    applier.apply(change);
+    await settle();
+    expect(onApplied).toHaveBeenCalledWith(change);
+    expect(restart).not.toHaveBeenCalled();
+  });
+
+  it("restarts when the runtime declines, throws or is missing", async () => {
+    const restart = vi.fn();
+    const reasons: string[] = [];
+    const onFallback = (_: SessionChange, reason: string) => reasons.push(reason);
+
+    createSessionApplier({ strategy: "hot", hotApply: async () => false, restart, onFallback }).apply(change);
+    createSessionApplier({
+      strategy: "hot",
+      hotApply: async () => {
+        throw new Error("session store busy");
+      },
+      restart,
+      onFallback,
+    }).apply(change);
+    createSessionApplier({ strategy: "hot", restart, onFallback }).apply(change);
+    await settle();
+
+    expect(restart).toHaveBeenCalledTimes(3);
+    expect(reasons.sort()).toEqual(["runtime declined the change", "runtime has no session API", "session store busy"]);
+  });
+
+  it("has nothing to apply without a session", async () => {
+    const restart = vi.fn();
+    const hotApply = vi.fn(async () => true);
+    createSessionApplier({ strategy: "hot", hotApply, restart }).apply(undefined);
+    await settle();
+    expect(hotApply).not.toHaveBeenCalled();
+    expect(restart).not.toHaveBeenCalled();
+  });
+});
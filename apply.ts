@@ -0,0 +1,119 @@
+/**
+ * Applying session changes to the running gateway.
+ *
+ * After a failover the plugin patches the session's pin in `sessions.json`.
+ * The gateway only reads that file on start, so by default the change is
+ * applied with `openclaw gateway restart`, which also drops the in-flight
+ * turns of every other session. `applyStrategy` selects how changes are
+ * applied:
+ *
+ *   restart  restart the gateway (default)
+ *   hot      hand the change to the live session through the plugin runtime,
+ *            and restart only when the runtime cannot take it
+ *
+ * The runtime is used through the first of these it exposes:
+ *
+ *   api.runtime.sessions.update(sessionKey, patch, { agentId })   session store API
+ *   api.runtime.sessions.reload(sessionKey, { agentId })          re-read the patched sessions.json
+ *
+ * Either may return a promise; false or a rejection counts as not applied.
+ *
+ * Programmatic usage:
+ *   import { createSessionApplier, runtimeHotApply } from "./apply.js";
+ */
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+export type ApplyStrategy = "restart" | "hot";
+
+export const APPLY_STRATEGIES: readonly ApplyStrategy[] = ["restart", "hot"];
+
+/** The session fields a failover changes. */
+export interface SessionPatch {
+  model?: string;
+  authProfileOverride?: string;
+}
+
+export interface SessionChange {
+  sessionKey: string;
+  agentId?: string;
+  patch: SessionPatch;
+}
+
+/** Resolves true when the live session took the change. */
+export type HotApplyFn = (change: SessionChange) => Promise<boolean>;
+
+export interface SessionApplierOptions {
+  strategy: ApplyStrategy;
+  /** Undefined when the runtime has no way to update a live session. */
+  hotApply?: HotApplyFn;
+  /** Schedule a gateway restart. */
+  restart: () => void;
+  /** Called once the live session took the change. */
+  onApplied?: (change: SessionChange) => void;
+  /** Called when hot-applying failed and a restart was scheduled instead. */
+  onFallback?: (change: SessionChange, reason: string) => void;
+}
+
+export interface SessionApplier {
+  /** Apply a change to a session; without one (`undefined`) only a restart can apply anything. */
+  apply(change: SessionChange | undefined): void;
+}
+
+// -------------------------------------------------------------------------
+// Runtime
+// -------------------------------------------------------------------------
+
+/** Hot-apply through the plugin runtime's session API, or undefined when it has none. */
+export function runtimeHotApply(api: any): HotApplyFn | undefined {
+  const sessions = api?.runtime?.sessions;
+  if (typeof sessions?.update === "function") {
+    return async ({ sessionKey, agentId, patch }) =>
+      (await sessions.update(sessionKey, patch, { agentId })) !== false;
+  }
+  if (typeof sessions?.reload === "function") {
+    return async ({ sessionKey, agentId }) => (await sessions.reload(sessionKey, { agentId })) !== false;
+  }
+  return undefined;
+}
+
+// -------------------------------------------------------------------------
+// Applier
+// -------------------------------------------------------------------------
+
+export function createSessionApplier(opts: SessionApplierOptions): SessionApplier {
+  return {
+    apply(change) {
+      if (opts.strategy === "restart") {
+        opts.restart();
+        return;
+      }
+      // Nothing was patched for the live session, so there is nothing to apply.
+      if (!change) return;
+      if (!opts.hotApply) {
+        opts.onFallback?.(change, "runtime has no session API");
+        opts.restart();
+        return;
+      }
+      const hotApply = opts.hotApply;
+      Promise.resolve()
+        .then(() => hotApply(change))
+        .then(
+          (applied) => {
+            if (applied) {
+              opts.onApplied?.(change);
+              return;
+            }
+            opts.onFallback?.(change, "runtime declined the change");
+            opts.restart();
+          },
+          (e: any) => {
+            opts.onFallback?.(change, e?.message ?? String(e));
+            opts.restart();
+          },
+        );
+    },
+  };
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import {
+  addUsage,
+  budgetBreach,
+  budgetKeysFor,
+  budgetResetAt,
+  buildBudgets,
+  currentUsage,
+  usageFromEvent,
+  validateUsageCounters,
+} from "./budget.js";
+
+// 2026-03-14 12:00:30 UTC
+const NOW = Date.UTC(2026, 2, 14, 12, 0, 30) / 1000;
+
+// ---------------------------------------------------------------------------
+// 1. Config
+// ---------------------------------------------------------------------------
+describe("buildBudgets", () => {
+  it("keeps valid budgets and reports the rest", () => {
+    const problems: string[] = [];
+    const budgets = buildBudgets(
+      {
+        openai: { requestsPerMinute: 50 },
+        "openai/gpt-4o": { tokensPerDay: 1000, dollarsPerMonth: 5 },
+        anthropic: {},
+        google: { tokensPerDay: -1 },
+      },
+      { onInvalid: (m) => problems.push(m) },
+    );
+    expect(Object.keys(budgets)).toEqual(["openai", "openai/gpt-4o"]);
+    expect(problems).toEqual([
+      "anthropic: budget needs one of requestsPerMinute, tokensPerDay, dollarsPerMonth",
+      "google: tokensPerDay must be a positive number",
+    ]);
+  });
+
+  it("covers a model by its own and its provider's budget", () => {
+    const budgets = { openai: { requestsPerMinute: 1 }, "openai/gpt-4o": { tokensPerDay: 1 } };
+    expect(budgetKeysFor("openai/gpt-4o", budgets)).toEqual(["openai/gpt-4o", "openai"]);
+    expect(budgetKeysFor("openai/o3", budgets)).toEqual(["openai"]);
+    expect(budgetKeysFor("anthropic/claude", budgets)).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Counters
+// ---------------------------------------------------------------------------
+describe("addUsage", () => {
+  const turn = { inputTokens: 100, outputTokens: 50, totalTokens: 150, costUsd: 0.25 };
+
+  it("adds a request, its tokens and its cost", () => {
+    const once = addUsage(undefined, turn, NOW);
+    const twice = addUsage(once, turn, NOW + 10);
+    expect(currentUsage(twice, NOW + 10)).toEqual({ requestsPerMinute: 2, tokensPerDay: 300, dollarsPerMonth: 0.5 });
+    expect(validateUsageCounters(twice)).toBeUndefined();
+  });
+
+  it("starts each counter over when its window ends", () => {
+    const counters = addUsage(undefined, turn, NOW);
+    expect(currentUsage(counters, NOW + 60)).toEqual({ requestsPerMinute: 0, tokensPerDay: 150, dollarsPerMonth: 0.25 });
+    expect(currentUsage(counters, NOW + 86400)).toEqual({ requestsPerMinute: 0, tokensPerDay: 0, dollarsPerMonth: 0.25 });
+    expect(currentUsage(counters, NOW + 31 * 86400).dollarsPerMonth).toBe(0);
+    expect(addUsage(counters, undefined, NOW + 60).requests).toBe(1);
+  });
+
+  it("computes when windows end", () => {
+    expect(budgetResetAt("requestsPerMinute", NOW)).toBe(NOW + 30);
+    expect(budgetResetAt("tokensPerDay", NOW)).toBe(Date.UTC(2026, 2, 15) / 1000);
+    expect(budgetResetAt("dollarsPerMonth", NOW)).toBe(Date.UTC(2026, 3, 1) / 1000);
+  });
+
+  it("rejects malformed counters", () => {
+    expect(validateUsageCounters({ minuteStart: 0, requests: 1 })).toBe("dayStart must be a non-negative number");
+    expect(validateUsageCounters([])).toBe("usage must be an object");
+  });
+});
+
+describe("budgetBreach", () => {
+  it("reports the first used-up budget of the model or its provider", () => {
+    const budgets = { openai: { requestsPerMinute: 2 }, "openai/gpt-4o": { tokensPerDay: 1000 } };
+    let usage = { openai: addUsage(undefined, undefined, NOW) };
+    expect(budgetBreach(usage, budgets, "openai/gpt-4o", NOW)).toBeUndefined();
+
+    usage = { openai: addUsage(usage.openai, undefined, NOW) };
+    expect(budgetBreach(usage, budgets, "openai/o3", NOW)).toEqual({
+      key: "openai",
+      metric: "requestsPerMinute",
+      used: 2,
+      limit: 2,
+      resetsAt: NOW + 30,
+    });
+    expect(budgetBreach(usage, budgets, "openai/o3", NOW + 60)).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Event usage
+// ---------------------------------------------------------------------------
+describe("usageFromEvent", () => {
+  it("reads the runtime's usage with cost", () => {
+    expect(usageFromEvent({ usage: { input: 10, output: 5, totalTokens: 20, cost: { total: 0.01 } } })).toEqual({
+      inputTokens: 10,
+      outputTokens: 5,
+      totalTokens: 20,
+      costUsd: 0.01,
+    });
+  });
+
+  it("reads OpenAI and Anthropic shapes", () => {
+    expect(usageFromEvent({ usage: { prompt_tokens: 10, completion_tokens: 5 } })?.totalTokens).toBe(15);
+    expect(usageFromEvent({ usage: { input_tokens: 7, output_tokens: 3 } })?.totalTokens).toBe(10);
+  });
+
+  it("falls back to the last assistant message", () => {
+    const event = {
+      messages: [
+        { role: "assistant", usage: { input: 1, output: 1 } },
+        { role: "user", content: "hi" },
+        { role: "assistant", usage: { input: 30, output: 12 } },
+      ],
+    };
+    expect(usageFromEvent(event)?.totalTokens).toBe(42);
+    expect(usageFromEvent({ messages: [{ role: "user" }] })).toBeUndefined();
+    expect(usageFromEvent(undefined)).toBeUndefined();
+  });
+});
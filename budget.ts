@@ -0,0 +1,224 @@
+/**
+ * Usage budgets per model or provider.
+ *
+ * `budgets` in plugin config caps what a model id (`openai/gpt-4o`) or a whole
+ * provider (`openai`) may use:
+ *
+ *   requestsPerMinute  turns per minute
+ *   tokensPerDay       input + output tokens per UTC day
+ *   dollarsPerMonth    reported cost per UTC month
+ *
+ * Usage is taken from `agent_end` events and kept in the state under `usage`
+ * as counters per window (minute, UTC day, UTC month), so every gateway
+ * process sees the same numbers. A counter starts over when its window ends.
+ * A model whose own or provider budget is used up is skipped like a limited
+ * model until the window ends, so turns move away before the provider starts
+ * answering with 429s.
+ *
+ * Programmatic usage:
+ *   import { buildBudgets, addUsage, budgetBreach } from "./budget.js";
+ */
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+export interface Budget {
+  requestsPerMinute?: number;
+  tokensPerDay?: number;
+  dollarsPerMonth?: number;
+}
+
+export type BudgetMetric = keyof Budget;
+
+export const BUDGET_METRICS: readonly BudgetMetric[] = ["requestsPerMinute", "tokensPerDay", "dollarsPerMonth"];
+
+/** Budgets keyed by model id or provider. */
+export type Budgets = Record<string, Budget>;
+
+/** Usage of one model or provider; each count belongs to the window starting at its `*Start`. */
+export interface UsageCounters {
+  minuteStart: number;
+  requests: number;
+  dayStart: number;
+  tokens: number;
+  monthStart: number;
+  dollars: number;
+}
+
+/** Usage of a single turn. */
+export interface TurnUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Cost in dollars, when the runtime reports it. */
+  costUsd?: number;
+}
+
+/** A used-up budget. */
+export interface BudgetBreach {
+  /** The model id or provider the budget belongs to. */
+  key: string;
+  metric: BudgetMetric;
+  used: number;
+  limit: number;
+  /** When the window ends and the budget is available again. */
+  resetsAt: number;
+}
+
+// -------------------------------------------------------------------------
+// Config
+// -------------------------------------------------------------------------
+
+/**
+ * Check the shape of a single budget from config. Returns an error message, or
+ * undefined if the budget is usable.
+ */
+export function validateBudget(budget: any): string | undefined {
+  if (!budget || typeof budget !== "object" || Array.isArray(budget)) return "budget must be an object";
+  const limits = BUDGET_METRICS.filter((m) => budget[m] !== undefined);
+  if (limits.length === 0) return `budget needs one of ${BUDGET_METRICS.join(", ")}`;
+  for (const metric of limits) {
+    const value = budget[metric];
+    if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) return `${metric} must be a positive number`;
+  }
+  return undefined;
+}
+
+/**
+ * The config `budgets`, without invalid entries. Invalid entries are skipped
+ * and reported through `onInvalid`.
+ */
+export function buildBudgets(raw?: Record<string, Budget>, opts?: { onInvalid?: (message: string) => void }): Budgets {
+  const out: Budgets = {};
+  for (const [key, budget] of Object.entries(raw ?? {})) {
+    const problem = validateBudget(budget);
+    if (problem) {
+      opts?.onInvalid?.(`${key}: ${problem}`);
+      continue;
+    }
+    out[key] = budget;
+  }
+  return out;
+}
+
+/** The budget keys that cover a model: the model itself and its provider. */
+export function budgetKeysFor(model: string, budgets: Budgets): string[] {
+  return [model, model.split("/")[0]].filter((key) => budgets[key] !== undefined);
+}
+
+// -------------------------------------------------------------------------
+// Windows
+// -------------------------------------------------------------------------
+
+function minuteStart(now: number): number {
+  return Math.floor(now / 60) * 60;
+}
+
+function dayStart(now: number): number {
+  return Math.floor(now / 86400) * 86400;
+}
+
+function monthStart(now: number, monthsAhead = 0): number {
+  const d = new Date(now * 1000);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + monthsAhead, 1) / 1000;
+}
+
+/** When the current window of a metric ends. */
+export function budgetResetAt(metric: BudgetMetric, now: number): number {
+  if (metric === "requestsPerMinute") return minuteStart(now) + 60;
+  if (metric === "tokensPerDay") return dayStart(now) + 86400;
+  return monthStart(now, 1);
+}
+
+// -------------------------------------------------------------------------
+// Counters
+// -------------------------------------------------------------------------
+
+/** Check the shape of stored counters. Returns an error message, or undefined if usable. */
+export function validateUsageCounters(counters: any): string | undefined {
+  if (!counters || typeof counters !== "object" || Array.isArray(counters)) return "usage must be an object";
+  for (const field of ["minuteStart", "requests", "dayStart", "tokens", "monthStart", "dollars"] as const) {
+    const value = counters[field];
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) return `${field} must be a non-negative number`;
+  }
+  return undefined;
+}
+
+/** Counts of the current windows; windows that have ended count as zero. */
+export function currentUsage(counters: UsageCounters | undefined, now: number): Record<BudgetMetric, number> {
+  return {
+    requestsPerMinute: counters?.minuteStart === minuteStart(now) ? counters.requests : 0,
+    tokensPerDay: counters?.dayStart === dayStart(now) ? counters.tokens : 0,
+    dollarsPerMonth: counters?.monthStart === monthStart(now) ? counters.dollars : 0,
+  };
+}
+
+/** Counters after one more turn. */
+export function addUsage(counters: UsageCounters | undefined, turn: TurnUsage | undefined, now: number): UsageCounters {
+  const used = currentUsage(counters, now);
+  return {
+    minuteStart: minuteStart(now),
+    requests: used.requestsPerMinute + 1,
+    dayStart: dayStart(now),
+    tokens: used.tokensPerDay + (turn?.totalTokens ?? 0),
+    monthStart: monthStart(now),
+    dollars: used.dollarsPerMonth + (turn?.costUsd ?? 0),
+  };
+}
+
+/** The first used-up budget of the model or its provider, if any. */
+export function budgetBreach(
+  usage: Record<string, UsageCounters> | undefined,
+  budgets: Budgets,
+  model: string,
+  now: number,
+): BudgetBreach | undefined {
+  for (const key of budgetKeysFor(model, budgets)) {
+    const used = currentUsage(usage?.[key], now);
+    for (const metric of BUDGET_METRICS) {
+      const limit = budgets[key][metric];
+      if (limit !== undefined && used[metric] >= limit) {
+        return { key, metric, used: used[metric], limit, resetsAt: budgetResetAt(metric, now) };
+      }
+    }
+  }
+  return undefined;
+}
+
+// -------------------------------------------------------------------------
+// Event usage
+// -------------------------------------------------------------------------
+
+function count(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/** Normalize the usage shapes of the runtime, OpenAI and Anthropic. */
+function parseUsage(raw: any): TurnUsage | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const inputTokens = count(raw.input) ?? count(raw.inputTokens) ?? count(raw.input_tokens) ?? count(raw.prompt_tokens);
+  const outputTokens =
+    count(raw.output) ?? count(raw.outputTokens) ?? count(raw.output_tokens) ?? count(raw.completion_tokens);
+  const totalTokens = count(raw.totalTokens) ?? count(raw.total_tokens) ?? count(raw.total);
+  if (inputTokens === undefined && outputTokens === undefined && totalTokens === undefined) return undefined;
+  const costUsd = count(raw.cost?.total) ?? count(raw.cost) ?? count(raw.costUsd);
+  return {
+    inputTokens: inputTokens ?? 0,
+    outputTokens: outputTokens ?? 0,
+    totalTokens: totalTokens ?? (inputTokens ?? 0) + (outputTokens ?? 0),
+    ...(costUsd !== undefined ? { costUsd } : {}),
+  };
+}
+
+/**
+ * Usage of the turn an `agent_end` event reports: `event.usage`, else the
+ * usage of the last assistant message.
+ */
+export function usageFromEvent(event: any): TurnUsage | undefined {
+  const direct = parseUsage(event?.usage);
+  if (direct) return direct;
+  const messages: any[] = Array.isArray(event?.messages) ? event.messages : [];
+  const last = [...messages].reverse().find((m) => m?.role === "assistant" && m.usage);
+  return parseUsage(last?.usage);
+}
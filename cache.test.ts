@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { performance } from "node:perf_hooks";
+import { createFileCache, createTtlCache, createCachedStateStore } from "./cache.js";
+import { createFileStateStore, createMemoryStateStore } from "./store.js";
+import register, { saveState, nowSec } from "./index.js";
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fo-cache-"));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// 1. File cache
+// ---------------------------------------------------------------------------
+describe("createFileCache", () => {
+  let filePath: string;
+  let read: ReturnType<typeof vi.fn<() => string | undefined>>;
+
+  beforeEach(() => {
+    filePath = path.join(tmpDir, "data.json");
+    read = vi.fn(() => (fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : undefined));
+  });
+
+  it("reads once while the file is unchanged", () => {
+    fs.writeFileSync(filePath, "a");
+    const cache = createFileCache(filePath, read);
+    expect(cache.get()).toBe("a");
+    expect(cache.get()).toBe("a");
+    expect(read).toHaveBeenCalledTimes(1);
+    cache.close();
+  });
+
+  it("reloads when the file is replaced or rewritten", () => {
+    fs.writeFileSync(filePath, "a");
+    const cache = createFileCache(filePath, read, { watch: false });
+    cache.get();
+
+    fs.writeFileSync(filePath + ".tmp", "bb");
+    fs.renameSync(filePath + ".tmp", filePath);
+    expect(cache.get()).toBe("bb");
+
+    fs.writeFileSync(filePath, "ccc");
+    expect(cache.get()).toBe("ccc");
+    expect(read).toHaveBeenCalledTimes(3);
+  });
+
+  it("caches a missing file until it appears", () => {
+    const cache = createFileCache(filePath, read, { watch: false });
+    expect(cache.get()).toBeUndefined();
+    expect(cache.get()).toBeUndefined();
+    expect(read).toHaveBeenCalledTimes(1);
+
+    fs.writeFileSync(filePath, "a");
+    expect(cache.get()).toBe("a");
+  });
+
+  it("reloads after invalidate()", () => {
+    fs.writeFileSync(filePath, "a");
+    const cache = createFileCache(filePath, read, { watch: false });
+    cache.get();
+    cache.invalidate();
+    cache.get();
+    expect(read).toHaveBeenCalledTimes(2);
+  });
+
+  it("picks up watched changes that leave the stat unchanged", async () => {
+    fs.writeFileSync(filePath, "a");
+    const mtime = fs.statSync(filePath).mtime;
+    const cache = createFileCache(filePath, read);
+    expect(cache.get()).toBe("a");
+
+    // Same inode, size and mtime: only the watcher can tell.
+    fs.writeFileSync(filePath, "b");
+    fs.utimesSync(filePath, mtime, mtime);
+    await vi.waitFor(() => expect(cache.get()).toBe("b"));
+    cache.close();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. TTL cache
+// ---------------------------------------------------------------------------
+describe("createTtlCache", () => {
+  it("reuses the value until the TTL expires", () => {
+    let now = 0;
+    const read = vi.fn(() => now);
+    const cache = createTtlCache(read, 1000, () => now);
+    expect(cache.get()).toBe(0);
+    now = 999;
+    expect(cache.get()).toBe(0);
+    now = 1000;
+    expect(cache.get()).toBe(1000);
+    expect(read).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not cache with a TTL of 0", () => {
+    const read = vi.fn(() => 1);
+    const cache = createTtlCache(read, 0);
+    cache.get();
+    cache.get();
+    expect(read).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Cached state store
+// ---------------------------------------------------------------------------
+describe("createCachedStateStore", () => {
+  let statePath: string;
+
+  beforeEach(() => {
+    statePath = path.join(tmpDir, "state.json");
+  });
+
+  function openStore() {
+    const inner = createFileStateStore({ statePath, metricsPath: path.join(tmpDir, "metrics.jsonl") });
+    const load = vi.spyOn(inner, "load");
+    return { store: createCachedStateStore(inner, { watch: false }), load };
+  }
+
+  it("serves repeated loads from the cache", () => {
+    saveState(statePath, { limited: {} });
+    const { store, load } = openStore();
+    store.load();
+    store.load();
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("sees its own updates", () => {
+    const { store } = openStore();
+    store.load();
+    store.update((state) => {
+      state.limited["p/m"] = { lastHitAt: 1, nextAvailableAt: 2 };
+    });
+    expect(store.load().limited["p/m"]).toBeDefined();
+  });
+
+  it("sees writes from other processes", () => {
+    const { store } = openStore();
+    store.load();
+    saveState(statePath, { limited: { "p/m": { lastHitAt: 1, nextAvailableAt: 2 } } });
+    expect(store.load().limited["p/m"]).toBeDefined();
+  });
+
+  it("leaves non-file stores uncached", () => {
+    const memory = createMemoryStateStore();
+    expect(createCachedStateStore(memory)).toBe(memory);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 4. Per-turn cost benchmark
+// ---------------------------------------------------------------------------
+describe("before_model_resolve per-turn cost", () => {
+  const models = ["provA/m1", "provB/m2", "provC/m3"];
+  const sessionCount = 5000;
+  const turns = 200;
+
+  function setup(stateCache: boolean) {
+    const fakeHome = path.join(tmpDir, "home");
+    vi.spyOn(os, "homedir").mockReturnValue(fakeHome);
+
+    const sessionsDir = path.join(fakeHome, ".openclaw", "agents", "main", "sessions");
+    fs.mkdirSync(sessionsDir, { recursive: true });
+    const sessions: Record<string, any> = {};
+    for (let i = 0; i < sessionCount; i++) {
+      sessions[`s${i}`] = { model: models[i % models.length], updatedAt: Date.now(), label: `session ${i}` };
+    }
+    fs.writeFileSync(path.join(sessionsDir, "sessions.json"), JSON.stringify(sessions));
+
+    const statePath = path.join(tmpDir, "state.json");
+    const now = nowSec();
+    saveState(statePath, { limited: { "provA/m1": { lastHitAt: now, nextAvailableAt: now + 3600 } } });
+
+    const handlers: Record<string, (...args: any[]) => any> = {};
+    const gatewayConfig = { agents: { defaults: { models: Object.fromEntries(models.map((m) => [m, {}])) } } };
+    register({
+      pluginConfig: { stateFile: statePath, modelOrder: models, restartOnSwitch: false, metricsEnabled: false, stateCache },
+      logger: { info: () => {}, warn: () => {} },
+      on: (event: string, handler: (...args: any[]) => any) => {
+        handlers[event] = handler;
+      },
+      runtime: { config: { loadConfig: () => structuredClone(gatewayConfig) } },
+    });
+    return handlers["before_model_resolve"];
+  }
+
+  function msPerTurn(handler: (...args: any[]) => any): number {
+    const start = performance.now();
+    for (let i = 0; i < turns; i++) {
+      const result = handler({}, { sessionKey: `s${(i * 3) % sessionCount}` });
+      expect(result).toEqual({ modelOverride: "provB/m2" });
+    }
+    return (performance.now() - start) / turns;
+  }
+
+  it("is much cheaper with the state cache", () => {
+    const uncached = msPerTurn(setup(false));
+    const cached = msPerTurn(setup(true));
+    console.log(
+      `[bench] before_model_resolve with ${sessionCount} sessions: ` +
+        `uncached ${uncached.toFixed(3)} ms/turn, cached ${cached.toFixed(3)} ms/turn`,
+    );
+    expect(cached).toBeLessThan(uncached / 5);
+  }, 60_000);
+});
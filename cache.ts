@@ -0,0 +1,158 @@
+/**
+ * Read caches for the per-turn hot path.
+ *
+ * `before_model_resolve` runs on every turn and used to re-read the state
+ * file, the gateway config and all of sessions.json each time. These caches
+ * keep the parsed value until the underlying file changes:
+ *
+ *   - every read stats the file and reloads when inode, size or mtime differ
+ *     (so atomic replacements and other processes' writes are always seen)
+ *   - an fs.watch on the parent directory drops the value on any event for
+ *     the file, covering writes that leave the stat unchanged
+ *   - the plugin invalidates explicitly after its own writes
+ *
+ * Cached values are shared between callers and must not be mutated.
+ *
+ * Programmatic usage:
+ *   import { createFileCache } from "./cache.js";
+ *   const sessions = createFileCache(sessionsPath, () => JSON.parse(fs.readFileSync(sessionsPath, "utf-8")));
+ *   sessions.get();
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+
+import type { LimitState } from "./index.js";
+import type { StateStore } from "./store.js";
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+export interface Cache<T> {
+  /** The cached value, reloading it first if it is stale. */
+  get(): T;
+  /** Drop the cached value; the next get() reloads. */
+  invalidate(): void;
+  /** Stop watching. The cache keeps working on stat checks alone. */
+  close(): void;
+}
+
+export interface FileCacheOptions {
+  /** Also watch the parent directory for changes (default true). */
+  watch?: boolean;
+}
+
+// -------------------------------------------------------------------------
+// File cache
+// -------------------------------------------------------------------------
+
+/** Identity of the file's current contents, or undefined if it does not exist. */
+function fileStamp(filePath: string): string | undefined {
+  try {
+    const st = fs.statSync(filePath);
+    return `${st.ino}:${st.size}:${st.mtimeMs}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Cache the result of `read`, which should parse `filePath`. Missing files are
+ * cached too (until the file appears), so `read` must handle them.
+ */
+export function createFileCache<T>(filePath: string, read: () => T, opts?: FileCacheOptions): Cache<T> {
+  const name = path.basename(filePath);
+  let cached: { value: T; stamp: string | undefined } | undefined;
+  let watcher: fs.FSWatcher | undefined;
+  let closed = opts?.watch === false;
+
+  function watch() {
+    if (watcher || closed) return;
+    try {
+      watcher = fs.watch(path.dirname(filePath), { persistent: false }, (_event, changed) => {
+        if (!changed || changed.toString() === name) cached = undefined;
+      });
+      watcher.on("error", () => {
+        watcher?.close();
+        watcher = undefined;
+        cached = undefined;
+      });
+    } catch {
+      watcher = undefined;
+    }
+  }
+
+  return {
+    get() {
+      // Stamp before reading: a write in between makes the next get() reload.
+      const stamp = fileStamp(filePath);
+      if (stamp !== undefined) watch();
+      if (cached && cached.stamp === stamp) return cached.value;
+      const value = read();
+      cached = { value, stamp };
+      return value;
+    },
+    invalidate() {
+      cached = undefined;
+    },
+    close() {
+      closed = true;
+      watcher?.close();
+      watcher = undefined;
+    },
+  };
+}
+
+// -------------------------------------------------------------------------
+// Time-based cache
+// -------------------------------------------------------------------------
+
+/**
+ * Cache the result of `read` for `ttlMs`, for sources without a file to watch
+ * (like the gateway config behind the runtime API). A ttlMs of 0 disables caching.
+ */
+export function createTtlCache<T>(read: () => T, ttlMs: number, now: () => number = Date.now): Cache<T> {
+  let cached: { value: T; expiresAt: number } | undefined;
+  return {
+    get() {
+      if (cached && now() < cached.expiresAt) return cached.value;
+      const value = read();
+      if (ttlMs > 0) cached = { value, expiresAt: now() + ttlMs };
+      return value;
+    },
+    invalidate() {
+      cached = undefined;
+    },
+    close() {},
+  };
+}
+
+// -------------------------------------------------------------------------
+// State store
+// -------------------------------------------------------------------------
+
+/**
+ * Wrap a store so load() is served from a file cache. Only the file backend is
+ * cached; the memory store is already in-process and SQLite reads are indexed.
+ * Every update() invalidates the cache, whether or not it wrote.
+ */
+export function createCachedStateStore(store: StateStore, opts?: FileCacheOptions): StateStore {
+  if (store.kind !== "file") return store;
+  const cache = createFileCache<LimitState>(store.location, () => store.load(), opts);
+  return {
+    ...store,
+    load: () => cache.get(),
+    update: (mutate, updateOpts) => {
+      try {
+        return store.update(mutate, updateOpts);
+      } finally {
+        cache.invalidate();
+      }
+    },
+    close: () => {
+      cache.close();
+      store.close();
+    },
+  };
+}
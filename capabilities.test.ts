@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildCapabilityCatalog,
+  validateModelCapabilities,
+  inferRequirements,
+  canServe,
+  capableModels,
+  describeRequirements,
+} from "./capabilities.js";
+
+// ---------------------------------------------------------------------------
+// 1. Catalog
+// ---------------------------------------------------------------------------
+describe("buildCapabilityCatalog", () => {
+  it("keeps valid entries and reports invalid ones", () => {
+    const onInvalid = vi.fn();
+    const catalog = buildCapabilityCatalog(
+      {
+        "p/ok": { contextWindow: 200_000, tools: true, vision: false },
+        "p/bad-window": { contextWindow: -1 },
+        "p/bad-flag": { tools: "yes" as any },
+      },
+      { onInvalid },
+    );
+    expect(Object.keys(catalog)).toEqual(["p/ok"]);
+    expect(onInvalid).toHaveBeenCalledWith("p/bad-window: contextWindow must be a positive number");
+    expect(onInvalid).toHaveBeenCalledWith("p/bad-flag: tools must be a boolean");
+  });
+
+  it("rejects non-object entries", () => {
+    expect(validateModelCapabilities(null)).toMatch(/object/);
+    expect(validateModelCapabilities([])).toMatch(/object/);
+    expect(validateModelCapabilities({})).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Inference
+// ---------------------------------------------------------------------------
+describe("inferRequirements", () => {
+  it("returns no requirements for an empty event", () => {
+    expect(inferRequirements(undefined)).toEqual({});
+    expect(inferRequirements({})).toEqual({});
+  });
+
+  it("detects tools, images and thinking", () => {
+    const req = inferRequirements({
+      tools: [{ name: "exec" }],
+      messages: [{ role: "user", content: [{ type: "text", text: "what is this" }, { type: "image", data: "..." }] }],
+      thinking: "high",
+    });
+    expect(req).toMatchObject({ tools: true, vision: true, reasoning: true });
+  });
+
+  it("detects image attachments by mime type", () => {
+    expect(inferRequirements({ attachments: [{ mimeType: "image/png" }] }).vision).toBe(true);
+    expect(inferRequirements({ attachments: [{ mimeType: "application/pdf" }] }).vision).toBeUndefined();
+  });
+
+  it("does not require reasoning when thinking is off", () => {
+    expect(inferRequirements({ thinking: "off" }).reasoning).toBeUndefined();
+    expect(inferRequirements({ reasoning: true }).reasoning).toBe(true);
+  });
+
+  it("uses the reported context size, else estimates it from the text", () => {
+    expect(inferRequirements({ contextTokens: 150_000, prompt: "hi" }).contextTokens).toBe(150_000);
+    expect(inferRequirements({ prompt: "x".repeat(400), messages: [{ content: "y".repeat(400) }] }).contextTokens).toBe(200);
+  });
+
+  it("lets explicit requirements win", () => {
+    expect(inferRequirements({ tools: [{}], requirements: { tools: false, vision: true } })).toMatchObject({
+      tools: false,
+      vision: true,
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Selection
+// ---------------------------------------------------------------------------
+describe("canServe", () => {
+  it("treats unknown models and unlisted capabilities as supported", () => {
+    expect(canServe(undefined, { tools: true, vision: true })).toBe(true);
+    expect(canServe({ contextWindow: 8000 }, { tools: true })).toBe(true);
+  });
+
+  it("rejects models explicitly lacking a required feature or context", () => {
+    expect(canServe({ tools: false }, { tools: true })).toBe(false);
+    expect(canServe({ vision: false }, { vision: true })).toBe(false);
+    expect(canServe({ reasoning: false }, { reasoning: true })).toBe(false);
+    expect(canServe({ contextWindow: 128_000 }, { contextTokens: 150_000 })).toBe(false);
+    expect(canServe({ contextWindow: 200_000 }, { contextTokens: 150_000 })).toBe(true);
+  });
+});
+
+describe("capableModels", () => {
+  it("filters the order without reordering it", () => {
+    const catalog = { "p/small": { contextWindow: 32_000 }, "p/blind": { vision: false } };
+    expect(capableModels(["p/small", "p/blind", "p/big"], catalog, { vision: true, contextTokens: 50_000 })).toEqual([
+      "p/big",
+    ]);
+    expect(capableModels(["p/small", "p/blind"], catalog, undefined)).toEqual(["p/small", "p/blind"]);
+  });
+
+  it("describes requirements for logs", () => {
+    expect(describeRequirements({ tools: true, contextTokens: 1200 })).toBe("tools,ctx=1200");
+    expect(describeRequirements({})).toBe("none");
+  });
+});
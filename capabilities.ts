@@ -0,0 +1,155 @@
+/**
+ * Capability-aware fallback.
+ *
+ * `modelCapabilities` describes what each model can serve:
+ *
+ *   contextWindow  maximum context in tokens
+ *   tools          tool / function calling
+ *   vision         image input
+ *   reasoning      extended thinking
+ *
+ * The requirements of a turn are inferred from the `before_model_resolve`
+ * event (tool definitions, image parts, thinking level, context size) and
+ * remembered per session, so failovers from `agent_end` and `message_sent`
+ * skip models that could not serve the session either.
+ *
+ * Models missing from the catalog, and capabilities a catalog entry leaves
+ * out, are assumed to be supported: the catalog only ever removes candidates.
+ *
+ * Programmatic usage:
+ *   import { inferRequirements, canServe } from "./capabilities.js";
+ */
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+export interface ModelCapabilities {
+  contextWindow?: number;
+  tools?: boolean;
+  vision?: boolean;
+  reasoning?: boolean;
+}
+
+export interface SessionRequirements {
+  tools?: boolean;
+  vision?: boolean;
+  reasoning?: boolean;
+  /** Estimated tokens the model must accept. */
+  contextTokens?: number;
+}
+
+export type CapabilityCatalog = Record<string, ModelCapabilities>;
+
+// Rough characters per token, for estimating context size from message text.
+const CHARS_PER_TOKEN = 4;
+
+// -------------------------------------------------------------------------
+// Validation
+// -------------------------------------------------------------------------
+
+/**
+ * Check the shape of a catalog entry. Returns an error message, or undefined
+ * if the entry is usable.
+ */
+export function validateModelCapabilities(caps: any): string | undefined {
+  if (!caps || typeof caps !== "object" || Array.isArray(caps)) return "capabilities must be an object";
+  if (caps.contextWindow !== undefined && !(Number.isFinite(caps.contextWindow) && caps.contextWindow > 0)) {
+    return "contextWindow must be a positive number";
+  }
+  for (const flag of ["tools", "vision", "reasoning"] as const) {
+    if (caps[flag] !== undefined && typeof caps[flag] !== "boolean") return `${flag} must be a boolean`;
+  }
+  return undefined;
+}
+
+/**
+ * The config catalog with invalid entries skipped and reported through `onInvalid`.
+ */
+export function buildCapabilityCatalog(
+  raw?: Record<string, ModelCapabilities>,
+  opts?: { onInvalid?: (message: string) => void },
+): CapabilityCatalog {
+  const out: CapabilityCatalog = {};
+  for (const [model, caps] of Object.entries(raw ?? {})) {
+    const problem = validateModelCapabilities(caps);
+    if (problem) {
+      opts?.onInvalid?.(`${model}: ${problem}`);
+      continue;
+    }
+    out[model] = caps;
+  }
+  return out;
+}
+
+// -------------------------------------------------------------------------
+// Inference
+// -------------------------------------------------------------------------
+
+function isImagePart(part: any): boolean {
+  const type = typeof part?.type === "string" ? part.type : "";
+  const mime = typeof part?.mimeType === "string" ? part.mimeType : typeof part?.mediaType === "string" ? part.mediaType : "";
+  return type === "image" || type === "image_url" || type === "input_image" || mime.startsWith("image/");
+}
+
+function textLength(content: any): number {
+  if (typeof content === "string") return content.length;
+  if (Array.isArray(content)) return content.reduce((n: number, part: any) => n + textLength(part?.text ?? part?.content), 0);
+  return 0;
+}
+
+/**
+ * Best-effort requirements of the turn described by a `before_model_resolve`
+ * event. An explicit `event.requirements` object takes precedence.
+ */
+export function inferRequirements(event: any): SessionRequirements {
+  const req: SessionRequirements = {};
+  const messages: any[] = Array.isArray(event?.messages) ? event.messages : [];
+
+  if ((Array.isArray(event?.tools) && event.tools.length > 0) || event?.requiresTools === true) req.tools = true;
+
+  const parts = messages.flatMap((m) => (Array.isArray(m?.content) ? m.content : []));
+  const images: any[] = Array.isArray(event?.images) ? event.images : [];
+  const attachments: any[] = Array.isArray(event?.attachments) ? event.attachments : [];
+  if (images.length > 0 || parts.some(isImagePart) || attachments.some(isImagePart)) req.vision = true;
+
+  const thinking = event?.thinking ?? event?.reasoning ?? event?.thinkingLevel;
+  if (thinking === true || (typeof thinking === "string" && thinking !== "off" && thinking !== "none")) req.reasoning = true;
+
+  const explicitTokens = event?.contextTokens ?? event?.estimatedTokens;
+  if (typeof explicitTokens === "number" && explicitTokens > 0) {
+    req.contextTokens = explicitTokens;
+  } else {
+    const chars = textLength(event?.prompt) + messages.reduce((n, m) => n + textLength(m?.content), 0);
+    if (chars > 0) req.contextTokens = Math.ceil(chars / CHARS_PER_TOKEN);
+  }
+
+  const explicit = event?.requirements;
+  return explicit && typeof explicit === "object" ? { ...req, ...explicit } : req;
+}
+
+// -------------------------------------------------------------------------
+// Selection
+// -------------------------------------------------------------------------
+
+/** Whether a model with these capabilities can serve the requirements. */
+export function canServe(caps: ModelCapabilities | undefined, req: SessionRequirements | undefined): boolean {
+  if (!caps || !req) return true;
+  if (req.tools && caps.tools === false) return false;
+  if (req.vision && caps.vision === false) return false;
+  if (req.reasoning && caps.reasoning === false) return false;
+  if (req.contextTokens && caps.contextWindow !== undefined && caps.contextWindow < req.contextTokens) return false;
+  return true;
+}
+
+/** The models of `order` that can serve the requirements, in order. */
+export function capableModels(order: string[], catalog: CapabilityCatalog, req: SessionRequirements | undefined): string[] {
+  return order.filter((m) => canServe(catalog[m], req));
+}
+
+/** Short description of the requirements for logs, e.g. "tools,vision,ctx=120000". */
+export function describeRequirements(req: SessionRequirements): string {
+  const flags: string[] = (["tools", "vision", "reasoning"] as const).filter((f) => req[f]);
+  if (req.contextTokens) flags.push(`ctx=${req.contextTokens}`);
+  return flags.join(",") || "none";
+}
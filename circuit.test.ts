@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import {
+  circuitState,
+  sessionBucket,
+  admitsSession,
+  claimTrial,
+  releaseTrial,
+  markClosed,
+  DEFAULT_HALF_OPEN,
+} from "./circuit.js";
+import type { LimitEntry } from "./index.js";
+
+const NOW = 1_000_000;
+
+function expired(extra: Partial<LimitEntry> = {}): LimitEntry {
+  return { lastHitAt: NOW - 3600, nextAvailableAt: NOW - 10, ...extra };
+}
+
+// ---------------------------------------------------------------------------
+// 1. circuitState
+// ---------------------------------------------------------------------------
+describe("circuitState", () => {
+  it("is closed without an entry", () => {
+    expect(circuitState(undefined, NOW)).toBe("closed");
+  });
+
+  it("is open while the cooldown runs", () => {
+    expect(circuitState({ lastHitAt: NOW, nextAvailableAt: NOW + 60 }, NOW)).toBe("open");
+  });
+
+  it("is half-open once the cooldown has passed", () => {
+    expect(circuitState(expired(), NOW)).toBe("half-open");
+    expect(circuitState({ lastHitAt: NOW - 60, nextAvailableAt: NOW }, NOW)).toBe("half-open");
+  });
+
+  it("is closed once marked closed, keeping the strikes", () => {
+    const entry = expired({ strikes: 3, trialSession: "s1", trialStartedAt: NOW - 5 });
+    markClosed(entry, NOW);
+    expect(entry).toEqual({ lastHitAt: NOW - 3600, nextAvailableAt: NOW - 10, strikes: 3, closedAt: NOW });
+    expect(circuitState(entry, NOW)).toBe("closed");
+    expect(admitsSession(entry, "s2", DEFAULT_HALF_OPEN, NOW)).toBe(true);
+
+    const open = { lastHitAt: NOW, nextAvailableAt: NOW + 60 };
+    markClosed(open, NOW);
+    expect(open.nextAvailableAt).toBe(NOW);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Single trial turn
+// ---------------------------------------------------------------------------
+describe("single trial turn", () => {
+  const opts = DEFAULT_HALF_OPEN;
+
+  it("admits closed models and rejects open ones", () => {
+    expect(admitsSession(undefined, "s1", opts, NOW)).toBe(true);
+    expect(admitsSession({ lastHitAt: NOW, nextAvailableAt: NOW + 60 }, "s1", opts, NOW)).toBe(false);
+  });
+
+  it("admits only the session holding the trial", () => {
+    const entry = expired();
+    expect(admitsSession(entry, "s1", opts, NOW)).toBe(true);
+    expect(claimTrial(entry, "s1", opts, NOW)).toBe(true);
+    expect(admitsSession(entry, "s1", opts, NOW)).toBe(true);
+    expect(admitsSession(entry, "s2", opts, NOW)).toBe(false);
+    expect(claimTrial(entry, "s1", opts, NOW + 5)).toBe(false);
+  });
+
+  it("allows a new trial after the trial timeout", () => {
+    const entry = expired({ trialSession: "s1", trialStartedAt: NOW - opts.trialTimeoutSec });
+    expect(admitsSession(entry, "s2", opts, NOW)).toBe(true);
+    expect(claimTrial(entry, "s2", opts, NOW)).toBe(true);
+    expect(entry.trialSession).toBe("s2");
+  });
+
+  it("releases the trial only for its owner", () => {
+    const entry = expired({ trialSession: "s1", trialStartedAt: NOW });
+    expect(releaseTrial(entry, "s2")).toBe(false);
+    expect(releaseTrial(entry, "s1")).toBe(true);
+    expect(entry.trialSession).toBeUndefined();
+    expect(admitsSession(entry, "s2", opts, NOW)).toBe(true);
+  });
+
+  it("does not claim trials on open or closed circuits", () => {
+    expect(claimTrial(undefined, "s1", opts, NOW)).toBe(false);
+    expect(claimTrial({ lastHitAt: NOW, nextAvailableAt: NOW + 60 }, "s1", opts, NOW)).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Fraction of sessions
+// ---------------------------------------------------------------------------
+describe("fraction of sessions", () => {
+  it("hashes session keys into a stable bucket in [0, 1)", () => {
+    const b = sessionBucket("agent:main:whatsapp:group:123");
+    expect(b).toBeGreaterThanOrEqual(0);
+    expect(b).toBeLessThan(1);
+    expect(sessionBucket("agent:main:whatsapp:group:123")).toBe(b);
+  });
+
+  it("admits roughly the configured share of sessions", () => {
+    const opts = { ...DEFAULT_HALF_OPEN, fraction: 0.25 };
+    let admitted = 0;
+    for (let i = 0; i < 1000; i++) {
+      if (admitsSession(expired(), `session-${i}`, opts, NOW)) admitted++;
+    }
+    expect(admitted).toBeGreaterThan(180);
+    expect(admitted).toBeLessThan(320);
+  });
+
+  it("admits every session at fraction 1 and records no trial", () => {
+    const opts = { ...DEFAULT_HALF_OPEN, fraction: 1 };
+    const entry = expired();
+    expect(admitsSession(entry, "s1", opts, NOW)).toBe(true);
+    expect(admitsSession(entry, undefined, opts, NOW)).toBe(true);
+    expect(claimTrial(entry, "s1", opts, NOW)).toBe(false);
+  });
+
+  it("does not admit turns without a session key", () => {
+    expect(admitsSession(expired(), undefined, { ...DEFAULT_HALF_OPEN, fraction: 0.5 }, NOW)).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Circuit-breaker state for limited models.
+ *
+ *   closed     no state entry, or one marked `closedAt`; the model is used normally
+ *   open       cooldown running (`now < nextAvailableAt`); the model is skipped
+ *   half-open  cooldown over but not yet confirmed healthy; only trial turns are routed to it
+ *
+ * A half-open model admits either a single trial turn at a time (`fraction` 0)
+ * or a stable fraction of sessions, chosen by hashing the session key. The
+ * first successful turn closes the circuit; a new failure opens it again.
+ * Closing keeps the entry (marked `closedAt`) so its strike count survives and
+ * keeps driving backoff and decay on the next failure.
+ *
+ * Programmatic usage:
+ *   import { circuitState, admitsSession, claimTrial, markClosed } from "./circuit.js";
+ */
+
+import type { LimitEntry } from "./index.js";
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface HalfOpenOptions {
+  /** Fraction of sessions routed to a half-open model; 0 admits a single trial turn at a time, 1 admits everyone. */
+  fraction: number;
+  /** A trial turn that has not reported back within this many seconds no longer blocks a new trial. */
+  trialTimeoutSec: number;
+}
+
+export const DEFAULT_HALF_OPEN: HalfOpenOptions = {
+  fraction: 0,
+  trialTimeoutSec: 600,
+};
+
+// Trial owner recorded for turns without a session key.
+const ANONYMOUS_TRIAL = "*";
+
+// -------------------------------------------------------------------------
+// State
+// -------------------------------------------------------------------------
+
+export function circuitState(entry: LimitEntry | undefined, now: number): CircuitState {
+  if (!entry || entry.closedAt !== undefined) return "closed";
+  return now < entry.nextAvailableAt ? "open" : "half-open";
+}
+
+/** Stable position of a session in [0, 1), used to pick the admitted fraction. */
+export function sessionBucket(sessionKey: string): number {
+  // FNV-1a, then a murmur3 finalizer so similar keys spread over the whole range.
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < sessionKey.length; i++) {
+    hash ^= sessionKey.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 0x100000000;
+}
+
+function trialRunning(entry: LimitEntry, now: number, opts: HalfOpenOptions): boolean {
+  return entry.trialSession !== undefined && now - (entry.trialStartedAt ?? 0) < opts.trialTimeoutSec;
+}
+
+/**
+ * Whether a turn of `sessionKey` may use the model right now. Read-only; call
+ * `claimTrial` once the model is actually routed to the session.
+ */
+export function admitsSession(
+  entry: LimitEntry | undefined,
+  sessionKey: string | undefined,
+  opts: HalfOpenOptions,
+  now: number,
+): boolean {
+  const state = circuitState(entry, now);
+  if (state !== "half-open") return state === "closed";
+  if (opts.fraction >= 1) return true;
+  if (opts.fraction > 0) return !!sessionKey && sessionBucket(sessionKey) < opts.fraction;
+  const owner = sessionKey ?? ANONYMOUS_TRIAL;
+  return !trialRunning(entry!, now, opts) || entry!.trialSession === owner;
+}
+
+/**
+ * Record the trial turn of `sessionKey` on a half-open entry in single-trial
+ * mode. Returns true when the entry changed and needs saving.
+ */
+export function claimTrial(
+  entry: LimitEntry | undefined,
+  sessionKey: string | undefined,
+  opts: HalfOpenOptions,
+  now: number,
+): boolean {
+  if (!entry || circuitState(entry, now) !== "half-open" || opts.fraction > 0) return false;
+  const owner = sessionKey ?? ANONYMOUS_TRIAL;
+  if (entry.trialSession === owner && trialRunning(entry, now, opts)) return false;
+  entry.trialSession = owner;
+  entry.trialStartedAt = now;
+  return true;
+}
+
+/**
+ * Give up the trial of `sessionKey` after a turn that neither confirmed nor
+ * re-tripped the limit. Returns true when the entry changed.
+ */
+export function releaseTrial(entry: LimitEntry | undefined, sessionKey: string | undefined): boolean {
+  if (!entry || entry.trialSession === undefined || entry.trialSession !== (sessionKey ?? ANONYMOUS_TRIAL)) {
+    return false;
+  }
+  delete entry.trialSession;
+  delete entry.trialStartedAt;
+  return true;
+}
+
+/**
+ * Mark an entry healthy again: the model is available from `now` on and the
+ * circuit is closed, but the strike count stays for the next failure.
+ */
+export function markClosed(entry: LimitEntry, now: number): void {
+  entry.nextAvailableAt = Math.min(entry.nextAvailableAt, now);
+  entry.closedAt = now;
+  delete entry.trialSession;
+  delete entry.trialStartedAt;
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildClassifierRules,
+  classifyError,
+  primaryCategory,
+  validateClassifierRule,
+  DEFAULT_CLASSIFIER_REGISTRY,
+  DEFAULT_CLASSIFIER_RULES,
+  type ErrorClassifierRule,
+} from "./classifier.js";
+
+// ---------------------------------------------------------------------------
+// 1. Built-in rules
+// ---------------------------------------------------------------------------
+describe("classifyError - built-in rules", () => {
+  it("classifies generic rate-limit text", () => {
+    const result = classifyError(DEFAULT_CLASSIFIER_REGISTRY, { text: "API rate limit reached" });
+    expect(result.rate_limit?.id).toBe("rate-limit-text");
+    expect(result.auth_error).toBeUndefined();
+  });
+
+  it("matches an HTTP status rule", () => {
+    const result = classifyError(DEFAULT_CLASSIFIER_REGISTRY, { text: "boom", status: 429 });
+    expect(result.rate_limit?.id).toBe("http-429");
+  });
+
+  it("matches provider-specific JSON error codes only for that provider", () => {
+    const text = '{"error":{"type":"overloaded_error","message":"Overloaded"}}';
+    const anthropic = classifyError(DEFAULT_CLASSIFIER_REGISTRY, { text, provider: "anthropic" });
+    expect(anthropic.unavailable?.id).toBe("anthropic-overloaded");
+
+    const other = classifyError(DEFAULT_CLASSIFIER_REGISTRY, { text, provider: "openai-codex" });
+    expect(other.unavailable).toBeUndefined();
+  });
+
+  it("matches a provider prefix (google covers google-gemini-cli)", () => {
+    const result = classifyError(DEFAULT_CLASSIFIER_REGISTRY, {
+      text: "boom",
+      code: "RESOURCE_EXHAUSTED",
+      provider: "google-gemini-cli",
+    });
+    expect(result.rate_limit?.id).toBe("google-resource-exhausted");
+  });
+
+  it("returns every category that matched", () => {
+    const result = classifyError(DEFAULT_CLASSIFIER_REGISTRY, {
+      text: "429 rate limit, service temporarily unavailable",
+    });
+    expect(result.rate_limit).toBeDefined();
+    expect(result.unavailable).toBeDefined();
+  });
+
+  it("returns an empty classification for unrelated or missing errors", () => {
+    expect(classifyError(DEFAULT_CLASSIFIER_REGISTRY, { text: "Connection refused" })).toEqual({});
+    expect(classifyError(DEFAULT_CLASSIFIER_REGISTRY, {})).toEqual({});
+  });
+
+  it("ships only valid default rules", () => {
+    for (const rule of DEFAULT_CLASSIFIER_RULES) {
+      expect(validateClassifierRule(rule)).toBeUndefined();
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Registry from config
+// ---------------------------------------------------------------------------
+describe("buildClassifierRules", () => {
+  it("evaluates custom rules before the built-in ones", () => {
+    const custom: ErrorClassifierRule[] = [
+      { id: "perplexity-credits", category: "rate_limit", provider: "perplexity", pattern: "out of credits|quota" },
+    ];
+    const registry = buildClassifierRules(custom);
+    const result = classifyError(registry, { text: "Quota exceeded", provider: "perplexity" });
+    expect(result.rate_limit?.id).toBe("perplexity-credits");
+  });
+
+  it("can drop the built-in rules", () => {
+    const registry = buildClassifierRules(
+      [{ id: "only", category: "unavailable", pattern: "maintenance" }],
+      { includeDefaults: false },
+    );
+    expect(classifyError(registry, { text: "429 Too Many Requests" })).toEqual({});
+    expect(classifyError(registry, { text: "Scheduled maintenance" }).unavailable?.id).toBe("only");
+  });
+
+  it("requires all conditions of a rule to match", () => {
+    const registry = buildClassifierRules(
+      [{ id: "mistral-tpm", category: "rate_limit", status: 429, pattern: "tokens per minute" }],
+      { includeDefaults: false },
+    );
+    expect(classifyError(registry, { text: "tokens per minute exceeded" })).toEqual({});
+    expect(classifyError(registry, { text: "tokens per minute exceeded", status: 429 }).rate_limit?.id)
+      .toBe("mistral-tpm");
+  });
+
+  it("skips invalid rules and reports them", () => {
+    const problems: string[] = [];
+    const registry = buildClassifierRules(
+      [
+        { id: "bad-regex", category: "rate_limit", pattern: "(" },
+        { id: "bad-category", category: "nope" as any, pattern: "x" },
+        { id: "no-condition", category: "rate_limit" },
+        { id: "bad-scope", category: "rate_limit", pattern: "x", scope: "region" as any },
+      ],
+      { includeDefaults: false, onInvalid: (m) => problems.push(m) },
+    );
+    expect(registry.rules).toHaveLength(0);
+    expect(problems).toHaveLength(4);
+    expect(problems[0]).toContain("bad-regex");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Helpers
+// ---------------------------------------------------------------------------
+describe("primaryCategory", () => {
+  it("prefers auth over unavailable over rate limits", () => {
+    const rule: ErrorClassifierRule = { id: "r", category: "rate_limit", pattern: "x" };
+    expect(primaryCategory({ rate_limit: rule, auth_error: rule })).toBe("auth_error");
+    expect(primaryCategory({ rate_limit: rule, unavailable: rule })).toBe("unavailable");
+    expect(primaryCategory({ rate_limit: rule })).toBe("rate_limit");
+    expect(primaryCategory({})).toBeUndefined();
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Error classifier registry.
+ *
+ * Maps provider error messages to a failover category using an ordered list of
+ * rules. Each rule can match on a regular expression, an HTTP status code, a
+ * provider prefix and/or a provider JSON error code. Built-in rules cover the
+ * providers shipped in the default model order; additional rules can be loaded
+ * from plugin config (`errorClassifiers`) without a code release.
+ *
+ * A rule may also set the `scope` of the errors it matches (model, provider
+ * or account), which decides how many models get blocked (see scope.ts).
+ *
+ * Programmatic usage:
+ *   import { buildClassifierRules, classifyError } from "./classifier.js";
+ */
+
+import { BLOCK_SCOPES, type BlockScope } from "./scope.js";
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+export type ErrorCategory = "rate_limit" | "auth_error" | "unavailable";
+
+export const ERROR_CATEGORIES: readonly ErrorCategory[] = ["rate_limit", "auth_error", "unavailable"];
+
+export interface ErrorClassifierRule {
+  /** Stable identifier, recorded in metrics when the rule matches. */
+  id: string;
+  category: ErrorCategory;
+  /** Case-insensitive regular expression tested against the error text. */
+  pattern?: string;
+  /** HTTP status code(s) the rule applies to. */
+  status?: number | number[];
+  /** Provider prefix (e.g. "google"); the rule only applies to matching providers. */
+  provider?: string;
+  /** Provider error code(s) from a JSON error body (e.g. "insufficient_quota"). */
+  code?: string | string[];
+  /** Which models an error matching this rule blocks; detected when unset (see scope.ts). */
+  scope?: BlockScope;
+}
+
+/** The facts about a single error that rules are matched against. */
+export interface ErrorSignal {
+  text?: string;
+  status?: number;
+  code?: string;
+  type?: string;
+  provider?: string;
+}
+
+/** First matching rule per category. */
+export type ErrorClassification = Partial<Record<ErrorCategory, ErrorClassifierRule>>;
+
+interface CompiledRule {
+  rule: ErrorClassifierRule;
+  regex?: RegExp;
+  statuses?: number[];
+  codes?: string[];
+  codeRegex?: RegExp;
+}
+
+export interface ClassifierRegistry {
+  rules: CompiledRule[];
+}
+
+// -------------------------------------------------------------------------
+// Built-in rules
+// -------------------------------------------------------------------------
+
+export const DEFAULT_CLASSIFIER_RULES: ErrorClassifierRule[] = [
+  // Provider-specific JSON error codes
+  { id: "google-resource-exhausted", category: "rate_limit", provider: "google", code: "RESOURCE_EXHAUSTED" },
+  { id: "google-unavailable", category: "unavailable", provider: "google", code: "UNAVAILABLE" },
+  { id: "anthropic-rate-limit", category: "rate_limit", provider: "anthropic", code: "rate_limit_error" },
+  { id: "anthropic-overloaded", category: "unavailable", provider: "anthropic", code: "overloaded_error" },
+  { id: "anthropic-auth", category: "auth_error", provider: "anthropic", code: ["authentication_error", "permission_error"] },
+  { id: "openai-rate-limit", category: "rate_limit", provider: "openai", code: ["rate_limit_exceeded", "insufficient_quota"] },
+  { id: "openai-invalid-key", category: "auth_error", provider: "openai", code: "invalid_api_key" },
+
+  // Generic rate limits
+  { id: "rate-limit-text", category: "rate_limit", pattern: "rate limit" },
+  { id: "quota-text", category: "rate_limit", pattern: "quota" },
+  { id: "resource-exhausted-text", category: "rate_limit", pattern: "resource_exhausted" },
+  { id: "too-many-requests-text", category: "rate_limit", pattern: "too many requests" },
+  { id: "http-429", category: "rate_limit", status: 429 },
+  { id: "http-429-text", category: "rate_limit", pattern: "429" },
+
+  // Generic auth/scope errors (OpenAI: "Missing scopes: api.responses.write" etc.)
+  { id: "http-401", category: "auth_error", status: 401 },
+  { id: "http-401-text", category: "auth_error", pattern: "http 401" },
+  { id: "insufficient-permissions-text", category: "auth_error", pattern: "insufficient permissions" },
+  { id: "missing-scopes-text", category: "auth_error", pattern: "missing scopes|api\\.responses\\.write" },
+  { id: "invalid-api-key-text", category: "auth_error", pattern: "invalid api key" },
+  { id: "unauthorized-text", category: "auth_error", pattern: "unauthorized" },
+
+  // Generic temporary unavailability
+  { id: "http-503", category: "unavailable", status: [503, 529] },
+  { id: "cooldown-text", category: "unavailable", pattern: "in cooldown" },
+  { id: "temporarily-unavailable-text", category: "unavailable", pattern: "temporarily unavailable" },
+  { id: "service-unavailable-text", category: "unavailable", pattern: "service unavailable" },
+  { id: "copilot-proxy-text", category: "unavailable", pattern: "copilot-proxy" },
+];
+
+// -------------------------------------------------------------------------
+// Registry construction
+// -------------------------------------------------------------------------
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function toList<T>(v: T | T[] | undefined): T[] | undefined {
+  if (v === undefined) return undefined;
+  return Array.isArray(v) ? v : [v];
+}
+
+/**
+ * Check the shape of a single rule from config. Returns an error message, or
+ * undefined if the rule is usable.
+ */
+export function validateClassifierRule(rule: any): string | undefined {
+  if (!rule || typeof rule !== "object") return "rule must be an object";
+  if (typeof rule.id !== "string" || rule.id.length === 0) return "rule.id must be a non-empty string";
+  if (!ERROR_CATEGORIES.includes(rule.category)) {
+    return `rule ${rule.id}: category must be one of ${ERROR_CATEGORIES.join(", ")}`;
+  }
+  if (rule.scope !== undefined && !BLOCK_SCOPES.includes(rule.scope)) {
+    return `rule ${rule.id}: scope must be one of ${BLOCK_SCOPES.join(", ")}`;
+  }
+  if (rule.pattern === undefined && rule.status === undefined && rule.code === undefined) {
+    return `rule ${rule.id}: needs at least one of pattern, status or code`;
+  }
+  if (rule.pattern !== undefined) {
+    try {
+      new RegExp(rule.pattern, "i");
+    } catch (e: any) {
+      return `rule ${rule.id}: invalid pattern (${e?.message ?? String(e)})`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build a registry from config rules followed by the built-in defaults.
+ * Config rules are evaluated first so they take precedence. Invalid rules are
+ * skipped and reported through `onInvalid`.
+ */
+export function buildClassifierRules(
+  customRules?: ErrorClassifierRule[],
+  opts?: { includeDefaults?: boolean; onInvalid?: (message: string) => void },
+): ClassifierRegistry {
+  const includeDefaults = opts?.includeDefaults !== false;
+  const source = [...(customRules ?? []), ...(includeDefaults ? DEFAULT_CLASSIFIER_RULES : [])];
+
+  const rules: CompiledRule[] = [];
+  for (const rule of source) {
+    const problem = validateClassifierRule(rule);
+    if (problem) {
+      opts?.onInvalid?.(problem);
+      continue;
+    }
+    rules.push({
+      rule,
+      regex: rule.pattern !== undefined ? new RegExp(rule.pattern, "i") : undefined,
+      statuses: toList(rule.status),
+      codes: toList(rule.code)?.map((c) => c.toLowerCase()),
+      codeRegex: rule.code !== undefined
+        ? new RegExp(`\\b(?:${toList(rule.code)!.map(escapeRegExp).join("|")})\\b`)
+        : undefined,
+    });
+  }
+  return { rules };
+}
+
+export const DEFAULT_CLASSIFIER_REGISTRY = buildClassifierRules();
+
+// -------------------------------------------------------------------------
+// Matching
+// -------------------------------------------------------------------------
+
+function ruleMatches(compiled: CompiledRule, signal: ErrorSignal): boolean {
+  const { rule } = compiled;
+  if (rule.provider !== undefined) {
+    if (!signal.provider || !signal.provider.startsWith(rule.provider)) return false;
+  }
+  if (compiled.regex && !compiled.regex.test(signal.text ?? "")) return false;
+  if (compiled.statuses && (signal.status === undefined || !compiled.statuses.includes(signal.status))) {
+    return false;
+  }
+  if (compiled.codes) {
+    const code = signal.code?.toLowerCase();
+    const type = signal.type?.toLowerCase();
+    // Codes often arrive inside the error text when the payload was stringified upstream,
+    // so fall back to a case-sensitive whole-word search of the text.
+    if (
+      !(code && compiled.codes.includes(code)) &&
+      !(type && compiled.codes.includes(type)) &&
+      !compiled.codeRegex!.test(signal.text ?? "")
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Run every rule against the signal and return the first matching rule for
+ * each category. An empty object means the error is not failover-relevant.
+ */
+export function classifyError(registry: ClassifierRegistry, signal: ErrorSignal): ErrorClassification {
+  const result: ErrorClassification = {};
+  if (!signal.text && signal.status === undefined && !signal.code) return result;
+  for (const compiled of registry.rules) {
+    const category = compiled.rule.category;
+    if (result[category]) continue;
+    if (ruleMatches(compiled, signal)) result[category] = compiled.rule;
+  }
+  return result;
+}
+
+/**
+ * Pick the category that drives the failover decision when an error matched
+ * several categories: auth beats unavailability beats rate limits.
+ */
+export function primaryCategory(classification: ErrorClassification): ErrorCategory | undefined {
+  if (classification.auth_error) return "auth_error";
+  if (classification.unavailable) return "unavailable";
+  if (classification.rate_limit) return "rate_limit";
+  return undefined;
+}
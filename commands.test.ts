@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from "vitest";
+import { createFailoverCommands, type CommandContext, type FailoverCommandDeps } from "./commands.js";
+
+function setup(overrides: Partial<FailoverCommandDeps> = {}) {
+  const deps: FailoverCommandDeps = {
+    status: vi.fn(() => "STATUS"),
+    metrics: vi.fn(() => "METRICS"),
+    clear: vi.fn((model: string) => model === "a/1"),
+    clearAll: vi.fn(() => 2),
+    allowedModels: vi.fn(() => ["a/1", "b/1"]),
+    pinnedModel: vi.fn(() => "a/1"),
+    blockedFor: vi.fn(() => undefined),
+    pin: vi.fn(() => true),
+    ...overrides,
+  };
+  const commands = Object.fromEntries(createFailoverCommands(deps).map((c) => [c.name, c]));
+  const run = (name: string, ctx: CommandContext = {}) =>
+    commands[name].handler({ isAuthorizedSender: true, senderId: "u1", sessionKey: "s1", ...ctx }).text;
+  return { deps, commands, run };
+}
+
+// ---------------------------------------------------------------------------
+// 1. /failover-status
+// ---------------------------------------------------------------------------
+describe("/failover-status", () => {
+  it("renders the status or the metrics", () => {
+    const { commands, run } = setup();
+    expect(Object.values(commands).every((c) => c.requireAuth && c.acceptsArgs)).toBe(true);
+    expect(run("failover-status")).toBe("STATUS");
+    expect(run("failover-status", { args: " metrics " })).toBe("METRICS");
+    expect(run("failover-status", { args: "other" })).toBe("Usage: /failover-status [metrics]");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. /failover-clear
+// ---------------------------------------------------------------------------
+describe("/failover-clear", () => {
+  it("clears one model or all of them", () => {
+    const { run } = setup();
+    expect(run("failover-clear", { args: "a/1" })).toBe("Cleared rate limit for a/1.");
+    expect(run("failover-clear", { args: "b/1" })).toBe("No rate-limit entry found for b/1.");
+    expect(run("failover-clear", { args: "--all" })).toBe("Cleared 2 rate-limit entries.");
+    expect(run("failover-clear")).toContain("Usage:");
+  });
+
+  it("refuses unauthorized senders and senders outside commandAdmins", () => {
+    const { deps, run } = setup({ admins: ["root"] });
+    expect(run("failover-clear", { args: "--all" })).toContain("Not allowed");
+    expect(run("failover-clear", { args: "--all", senderId: "root", isAuthorizedSender: false })).toContain("Not allowed");
+    expect(deps.clearAll).not.toHaveBeenCalled();
+    expect(run("failover-clear", { args: "--all", senderId: "root" })).toBe("Cleared 2 rate-limit entries.");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. /failover-pin
+// ---------------------------------------------------------------------------
+describe("/failover-pin", () => {
+  it("pins the session to an available model of its order", () => {
+    const { deps, run } = setup();
+    expect(run("failover-pin", { args: "b/1" })).toBe("Pinned this session to b/1.");
+    expect(deps.pin).toHaveBeenCalledWith(expect.objectContaining({ sessionKey: "s1" }), "b/1");
+    expect(run("failover-pin", { args: "a/1" })).toBe("Already pinned to a/1.");
+    expect(run("failover-pin")).toBe("Pinned model: a/1\nAllowed: a/1, b/1");
+  });
+
+  it("refuses models outside the order, blocked models and missing sessions", () => {
+    const { deps, run } = setup({ blockedFor: (model) => (model === "b/1" ? 5400 : undefined) });
+    expect(run("failover-pin", { args: "c/1" })).toBe("c/1 is not in this session's model order. Allowed: a/1, b/1");
+    expect(run("failover-pin", { args: "b/1" })).toBe("b/1 is blocked for another 2h; not pinned.");
+    expect(run("failover-pin", { args: "b/1", sessionKey: undefined })).toBe("/failover-pin only works from within a session.");
+    expect(run("failover-pin", { args: "a/1", isAuthorizedSender: false })).toBe("Not allowed.");
+    expect(deps.pin).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Chat commands.
+ *
+ * Registered through `api.registerCommand` when the runtime supports it:
+ *
+ *   /failover-status [metrics]        failover status (status.ts), or the metrics summary (metrics.ts)
+ *   /failover-clear <model>|--all     release a model's (or a key's) cooldown, or all of them
+ *   /failover-pin [<model>]           pin the sender's own session to a model of its order;
+ *                                     without a model, show the current pin and the choices
+ *
+ * Every command needs an authorized sender (`requireAuth`). /failover-clear
+ * changes routing for everyone, so when `commandAdmins` is set it is further
+ * limited to those sender ids. /failover-pin only ever touches the session the
+ * command was sent from.
+ *
+ * The plugin supplies the data and the actions (`FailoverCommandDeps`); this
+ * module parses arguments, checks authorization and words the replies.
+ *
+ * Programmatic usage:
+ *   import { createFailoverCommands } from "./commands.js";
+ *   for (const command of createFailoverCommands(deps)) api.registerCommand(command);
+ */
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+/** What the runtime passes to a command handler. */
+export interface CommandContext {
+  senderId?: string;
+  channel?: string;
+  sessionKey?: string;
+  agentId?: string;
+  /** Whether the gateway's allowlist lets the sender run commands. */
+  isAuthorizedSender?: boolean;
+  /** Text after the command name. */
+  args?: string;
+}
+
+export interface CommandReply {
+  text: string;
+}
+
+export interface PluginCommand {
+  name: string;
+  description: string;
+  acceptsArgs: boolean;
+  requireAuth: boolean;
+  handler: (ctx: CommandContext) => CommandReply;
+}
+
+export interface FailoverCommandDeps {
+  /** Sender ids allowed to run /failover-clear; any authorized sender when unset. */
+  admins?: string[];
+  /** Rendered failover status for the turn scope of the command. */
+  status: (ctx: CommandContext) => string;
+  /** Rendered metrics summary. */
+  metrics: () => string;
+  /** Release one model's or key's cooldown; true when there was one. */
+  clear: (model: string) => boolean;
+  /** Release every cooldown; returns how many there were. */
+  clearAll: () => number;
+  /** Models the session may be pinned to (its effective order). */
+  allowedModels: (ctx: CommandContext) => string[];
+  pinnedModel: (ctx: CommandContext) => string | undefined;
+  /** Seconds until the model is available again, or undefined when it is. */
+  blockedFor: (model: string) => number | undefined;
+  /** Pin the session; false when it could not be patched. */
+  pin: (ctx: CommandContext, model: string) => boolean;
+}
+
+// -------------------------------------------------------------------------
+// Authorization
+// -------------------------------------------------------------------------
+
+function isAdmin(ctx: CommandContext, admins: string[] | undefined): boolean {
+  if (ctx.isAuthorizedSender === false) return false;
+  if (!admins || admins.length === 0) return true;
+  return typeof ctx.senderId === "string" && admins.includes(ctx.senderId);
+}
+
+function parseArgs(ctx: CommandContext): string[] {
+  return (ctx.args ?? "").trim().split(/\s+/).filter(Boolean);
+}
+
+function formatWait(seconds: number): string {
+  return seconds >= 3600 ? `${Math.ceil(seconds / 3600)}h` : `${Math.max(1, Math.ceil(seconds / 60))}m`;
+}
+
+// -------------------------------------------------------------------------
+// Commands
+// -------------------------------------------------------------------------
+
+export function createFailoverCommands(deps: FailoverCommandDeps): PluginCommand[] {
+  const status: PluginCommand = {
+    name: "failover-status",
+    description: "Show model failover status, or `metrics` for the failover metrics summary.",
+    acceptsArgs: true,
+    requireAuth: true,
+    handler(ctx) {
+      const [what] = parseArgs(ctx);
+      if (what === "metrics") return { text: deps.metrics() };
+      if (what) return { text: "Usage: /failover-status [metrics]" };
+      return { text: deps.status(ctx) };
+    },
+  };
+
+  const clear: PluginCommand = {
+    name: "failover-clear",
+    description: "Release a model's cooldown (`<model>`, `<provider>@<profile>` or `--all`).",
+    acceptsArgs: true,
+    requireAuth: true,
+    handler(ctx) {
+      if (!isAdmin(ctx, deps.admins)) return { text: "Not allowed: /failover-clear is limited to failover admins." };
+      const [target] = parseArgs(ctx);
+      if (!target) return { text: "Usage: /failover-clear <model> | <provider>@<profile> | --all" };
+      if (target === "--all") {
+        const count = deps.clearAll();
+        return { text: `Cleared ${count} rate-limit ${count === 1 ? "entry" : "entries"}.` };
+      }
+      return { text: deps.clear(target) ? `Cleared rate limit for ${target}.` : `No rate-limit entry found for ${target}.` };
+    },
+  };
+
+  const pin: PluginCommand = {
+    name: "failover-pin",
+    description: "Pin this session to a model of its failover order.",
+    acceptsArgs: true,
+    requireAuth: true,
+    handler(ctx) {
+      if (ctx.isAuthorizedSender === false) return { text: "Not allowed." };
+      if (!ctx.sessionKey) return { text: "/failover-pin only works from within a session." };
+      const allowed = deps.allowedModels(ctx);
+      const [model] = parseArgs(ctx);
+      if (!model) {
+        return {
+          text: [`Pinned model: ${deps.pinnedModel(ctx) ?? "(none)"}`, `Allowed: ${allowed.join(", ") || "(none)"}`].join("\n"),
+        };
+      }
+      if (!allowed.includes(model)) return { text: `${model} is not in this session's model order. Allowed: ${allowed.join(", ")}` };
+      const wait = deps.blockedFor(model);
+      if (wait !== undefined) return { text: `${model} is blocked for another ${formatWait(wait)}; not pinned.` };
+      if (deps.pinnedModel(ctx) === model) return { text: `Already pinned to ${model}.` };
+      return { text: deps.pin(ctx, model) ? `Pinned this session to ${model}.` : `Could not pin this session to ${model}.` };
+    },
+  };
+
+  return [status, clear, pin];
+}
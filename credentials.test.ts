@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  credentialProfile,
+  parseProfileId,
+  profileForAuthId,
+  profilesFromGatewayConfig,
+  buildCredentialProfiles,
+  firstAvailableProfile,
+  isProfileLimited,
+} from "./credentials.js";
+import type { LimitState } from "./index.js";
+
+// ---------------------------------------------------------------------------
+// 1. Ids
+// ---------------------------------------------------------------------------
+describe("profile ids", () => {
+  it("maps <provider>@<name> to the gateway id <provider>:<name>", () => {
+    expect(credentialProfile("anthropic", "team-a")).toEqual({
+      id: "anthropic@team-a",
+      provider: "anthropic",
+      name: "team-a",
+      authProfileId: "anthropic:team-a",
+    });
+    expect(parseProfileId("anthropic@team-a")?.authProfileId).toBe("anthropic:team-a");
+  });
+
+  it("does not mistake model ids for profiles", () => {
+    expect(parseProfileId("anthropic/claude-opus-4-6")).toBeUndefined();
+    expect(parseProfileId("@team-a")).toBeUndefined();
+    expect(parseProfileId("anthropic@")).toBeUndefined();
+  });
+
+  it("finds a profile by its gateway id", () => {
+    const profiles = [credentialProfile("anthropic", "a"), credentialProfile("anthropic", "b")];
+    expect(profileForAuthId(profiles, "anthropic:b")?.id).toBe("anthropic@b");
+    expect(profileForAuthId(profiles, "anthropic:c")).toBeUndefined();
+    expect(profileForAuthId(profiles, undefined)).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Config
+// ---------------------------------------------------------------------------
+describe("profilesFromGatewayConfig", () => {
+  it("groups auth profiles by provider in auth.order", () => {
+    const gatewayCfg = {
+      auth: {
+        profiles: {
+          "anthropic:default": { provider: "anthropic", mode: "api_key" },
+          "anthropic:work": { provider: "anthropic", mode: "api_key" },
+          "openai:default": { mode: "api_key" },
+        },
+        order: { anthropic: ["anthropic:work", "anthropic:default"] },
+      },
+    };
+    const profiles = profilesFromGatewayConfig(gatewayCfg);
+    expect(profiles.anthropic.map((p) => p.id)).toEqual(["anthropic@work", "anthropic@default"]);
+    expect(profiles.openai.map((p) => p.authProfileId)).toEqual(["openai:default"]);
+  });
+
+  it("returns nothing without auth profiles", () => {
+    expect(profilesFromGatewayConfig(undefined)).toEqual({});
+    expect(profilesFromGatewayConfig({ auth: {} })).toEqual({});
+  });
+});
+
+describe("buildCredentialProfiles", () => {
+  it("prefers plugin config over the gateway's profiles", () => {
+    const gatewayCfg = { auth: { profiles: { "anthropic:default": {}, "openai:default": {} } } };
+    const profiles = buildCredentialProfiles({ anthropic: ["team-a", "team-b", "team-a"] }, gatewayCfg);
+    expect(profiles.anthropic.map((p) => p.id)).toEqual(["anthropic@team-a", "anthropic@team-b"]);
+    expect(profiles.openai.map((p) => p.id)).toEqual(["openai@default"]);
+  });
+
+  it("skips invalid entries and reports them", () => {
+    const problems: string[] = [];
+    const profiles = buildCredentialProfiles({ anthropic: [], openai: ["ok", ""] }, undefined, {
+      onInvalid: (m) => problems.push(m),
+    });
+    expect(profiles).toEqual({});
+    expect(problems).toHaveLength(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Selection
+// ---------------------------------------------------------------------------
+describe("firstAvailableProfile", () => {
+  const profiles = [credentialProfile("anthropic", "a"), credentialProfile("anthropic", "b")];
+
+  it("skips profiles whose cooldown is running", () => {
+    const state: LimitState = { limited: {}, credentials: { "anthropic@a": { lastHitAt: 100, nextAvailableAt: 200 } } };
+    expect(isProfileLimited(state, profiles[0], 150)).toBe(true);
+    expect(firstAvailableProfile(profiles, state, 150)?.id).toBe("anthropic@b");
+    expect(firstAvailableProfile(profiles, state, 200)?.id).toBe("anthropic@a");
+  });
+
+  it("returns undefined when every profile is limited", () => {
+    const state: LimitState = {
+      limited: {},
+      credentials: {
+        "anthropic@a": { lastHitAt: 100, nextAvailableAt: 200 },
+        "anthropic@b": { lastHitAt: 100, nextAvailableAt: 300 },
+      },
+    };
+    expect(firstAvailableProfile(profiles, state, 150)).toBeUndefined();
+  });
+});
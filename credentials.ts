@@ -0,0 +1,123 @@
+/**
+ * Credential profiles: several API keys or accounts per provider.
+ *
+ * A profile is written `<provider>@<name>` (e.g. `anthropic@team-a`) and maps
+ * to the gateway auth profile `<provider>:<name>`. Profiles are listed per
+ * provider in preference order, from `credentialProfiles` in plugin config:
+ *
+ *   { "anthropic": ["team-a", "team-b"] }
+ *
+ * or, for providers missing there, from the gateway's `auth.profiles` (keys
+ * `<provider>:<name>`) ordered by `auth.order[<provider>]`.
+ *
+ * Rate limits and auth errors of a profile are tracked in the state under
+ * `credentials`, separately from model entries. A session whose key is
+ * limited is moved to the next available key of the same provider first; only
+ * when every key is limited does the regular model failover kick in.
+ *
+ * Programmatic usage:
+ *   import { buildCredentialProfiles, firstAvailableProfile } from "./credentials.js";
+ */
+
+import type { LimitState } from "./index.js";
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+export interface CredentialProfile {
+  /** Plugin id, `<provider>@<name>`; the key in `state.credentials`. */
+  id: string;
+  provider: string;
+  name: string;
+  /** Gateway auth profile id, `<provider>:<name>`. */
+  authProfileId: string;
+}
+
+/** Profiles per provider, in preference order. */
+export type CredentialProfiles = Record<string, CredentialProfile[]>;
+
+// -------------------------------------------------------------------------
+// Ids
+// -------------------------------------------------------------------------
+
+export function credentialProfile(provider: string, name: string): CredentialProfile {
+  return { id: `${provider}@${name}`, provider, name, authProfileId: `${provider}:${name}` };
+}
+
+/** Parse `<provider>@<name>`. Returns undefined for anything else. */
+export function parseProfileId(id: string): CredentialProfile | undefined {
+  const at = id.indexOf("@");
+  if (at <= 0 || at === id.length - 1 || id.includes("/")) return undefined;
+  return credentialProfile(id.slice(0, at), id.slice(at + 1));
+}
+
+/** The profile of a gateway auth profile id (`<provider>:<name>`), if it is one of `profiles`. */
+export function profileForAuthId(profiles: CredentialProfile[], authProfileId: unknown): CredentialProfile | undefined {
+  return typeof authProfileId === "string" ? profiles.find((p) => p.authProfileId === authProfileId) : undefined;
+}
+
+// -------------------------------------------------------------------------
+// Config
+// -------------------------------------------------------------------------
+
+/** Profiles declared in the gateway's `auth` config. */
+export function profilesFromGatewayConfig(gatewayCfg: any): CredentialProfiles {
+  const declared = gatewayCfg?.auth?.profiles;
+  if (!declared || typeof declared !== "object") return {};
+  const order = gatewayCfg?.auth?.order ?? {};
+
+  const byProvider: Record<string, string[]> = {};
+  for (const [authId, profile] of Object.entries<any>(declared)) {
+    const sep = authId.indexOf(":");
+    const provider = typeof profile?.provider === "string" && profile.provider ? profile.provider : authId.slice(0, sep);
+    if (!provider || sep <= 0) continue;
+    (byProvider[provider] ??= []).push(authId);
+  }
+
+  const out: CredentialProfiles = {};
+  for (const [provider, authIds] of Object.entries(byProvider)) {
+    const preferred: string[] = Array.isArray(order[provider]) ? order[provider].filter((id: unknown) => authIds.includes(id as string)) : [];
+    const ids = [...preferred, ...authIds.filter((id) => !preferred.includes(id))];
+    out[provider] = ids.map((authId) => ({ ...credentialProfile(provider, authId.slice(authId.indexOf(":") + 1)), authProfileId: authId }));
+  }
+  return out;
+}
+
+/**
+ * Profiles from `credentialProfiles`, with the gateway's auth profiles for
+ * providers the config leaves out. Invalid entries are skipped and reported
+ * through `onInvalid`.
+ */
+export function buildCredentialProfiles(
+  raw?: Record<string, string[]>,
+  gatewayCfg?: any,
+  opts?: { onInvalid?: (message: string) => void },
+): CredentialProfiles {
+  const out = profilesFromGatewayConfig(gatewayCfg);
+  for (const [provider, names] of Object.entries(raw ?? {})) {
+    if (!Array.isArray(names) || names.length === 0 || names.some((n) => typeof n !== "string" || !n)) {
+      opts?.onInvalid?.(`${provider}: profiles must be a non-empty array of names`);
+      continue;
+    }
+    out[provider] = [...new Set(names)].map((name) => credentialProfile(provider, name));
+  }
+  return out;
+}
+
+// -------------------------------------------------------------------------
+// Selection
+// -------------------------------------------------------------------------
+
+export function isProfileLimited(state: LimitState, profile: CredentialProfile, now: number): boolean {
+  return (state.credentials?.[profile.id]?.nextAvailableAt ?? 0) > now;
+}
+
+/** The first profile, in preference order, whose cooldown is not running. */
+export function firstAvailableProfile(
+  profiles: CredentialProfile[],
+  state: LimitState,
+  now: number,
+): CredentialProfile | undefined {
+  return profiles.find((p) => !isProfileLimited(state, p, now));
+}
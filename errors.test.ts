@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import { normalizeError, retryHint } from "./errors.js";
+
+// ---------------------------------------------------------------------------
+// 1. Flat strings
+// ---------------------------------------------------------------------------
+describe("normalizeError - strings", () => {
+  it("keeps the raw string as text", () => {
+    const n = normalizeError("Connection refused");
+    expect(n.text).toBe("Connection refused");
+    expect(n.status).toBeUndefined();
+    expect(n.code).toBeUndefined();
+  });
+
+  it("extracts an HTTP status from the text", () => {
+    expect(normalizeError("HTTP 401 Unauthorized").status).toBe(401);
+    expect(normalizeError("429 Too Many Requests").status).toBe(429);
+    expect(normalizeError("used 500 tokens").status).toBeUndefined();
+  });
+
+  it("parses a JSON body embedded in the string", () => {
+    const n = normalizeError('429 {"error":{"message":"Rate limit reached","type":"requests","code":"rate_limit_exceeded"}}');
+    expect(n.status).toBe(429);
+    expect(n.code).toBe("rate_limit_exceeded");
+    expect(n.type).toBe("requests");
+  });
+
+  it("returns an empty record for undefined", () => {
+    expect(normalizeError(undefined)).toEqual({ text: "", resetHeaders: {} });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Provider bodies
+// ---------------------------------------------------------------------------
+describe("normalizeError - provider bodies", () => {
+  it("reads an OpenAI error body", () => {
+    const n = normalizeError({
+      error: { message: "You exceeded your current quota", type: "insufficient_quota", code: "insufficient_quota" },
+    });
+    expect(n.code).toBe("insufficient_quota");
+    expect(n.type).toBeUndefined();
+    expect(n.text).toBe("You exceeded your current quota");
+  });
+
+  it("reads an Anthropic error body", () => {
+    const n = normalizeError({
+      type: "error",
+      error: { type: "rate_limit_error", message: "Number of request tokens has exceeded your per-minute rate limit" },
+    });
+    expect(n.code).toBe("rate_limit_error");
+    expect(n.text).toContain("per-minute rate limit");
+  });
+
+  it("reads a Google error body with RetryInfo", () => {
+    const n = normalizeError({
+      error: {
+        code: 429,
+        message: "Quota exceeded for quota metric",
+        status: "RESOURCE_EXHAUSTED",
+        details: [
+          { "@type": "type.googleapis.com/google.rpc.QuotaFailure" },
+          { "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "37s" },
+        ],
+      },
+    });
+    expect(n.status).toBe(429);
+    expect(n.code).toBe("RESOURCE_EXHAUSTED");
+    expect(n.retryDelay).toBe("37s");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. SDK error objects
+// ---------------------------------------------------------------------------
+describe("normalizeError - error objects", () => {
+  it("reads status, headers and body from an SDK error", () => {
+    const err = Object.assign(new Error("429 Rate limit"), {
+      status: 429,
+      headers: {
+        "Retry-After": "20",
+        "x-ratelimit-reset-requests": "1s",
+        "x-ratelimit-reset-tokens": "6m0s",
+        "content-type": "application/json",
+      },
+      error: { type: "requests", code: "rate_limit_exceeded", message: "Rate limit" },
+    });
+    const n = normalizeError(err);
+    expect(n.text).toBe("429 Rate limit");
+    expect(n.status).toBe(429);
+    expect(n.code).toBe("rate_limit_exceeded");
+    expect(n.retryAfter).toBe("20");
+    expect(n.resetHeaders).toEqual({
+      "x-ratelimit-reset-requests": "1s",
+      "x-ratelimit-reset-tokens": "6m0s",
+    });
+  });
+
+  it("reads a fetch-style response with a Headers instance", () => {
+    const n = normalizeError({
+      message: "Request failed",
+      response: {
+        status: 503,
+        headers: new Headers({ "retry-after": "120" }),
+        data: { error: { status: "UNAVAILABLE", message: "The model is overloaded" } },
+      },
+    });
+    expect(n.status).toBe(503);
+    expect(n.code).toBe("UNAVAILABLE");
+    expect(n.retryAfter).toBe("120");
+  });
+
+  it("falls back to JSON text for objects without a message", () => {
+    const n = normalizeError({ foo: "bar" });
+    expect(n.text).toBe('{"foo":"bar"}');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 4. retryHint
+// ---------------------------------------------------------------------------
+describe("retryHint", () => {
+  it("prefers Retry-After delta seconds", () => {
+    const n = normalizeError({ message: "x", headers: { "retry-after": "30" }, error: { details: [{ retryDelay: "5s" }] } });
+    expect(retryHint(n)?.seconds).toBe(30);
+  });
+
+  it("converts a Retry-After HTTP-date", () => {
+    const now = Date.parse("2026-03-01T12:00:00Z");
+    const n = normalizeError({ message: "x", headers: { "retry-after": "Sun, 01 Mar 2026 12:01:30 GMT" } });
+    expect(retryHint(n, now)?.seconds).toBe(90);
+  });
+
+  it("uses Google retryDelay", () => {
+    const n = normalizeError({ error: { status: "RESOURCE_EXHAUSTED", details: [{ retryDelay: "37s" }] } });
+    expect(retryHint(n)?.seconds).toBe(37);
+  });
+
+  it("marks structured hints with full confidence", () => {
+    const n = normalizeError({ message: "x", headers: { "retry-after": "30" } });
+    expect(retryHint(n)).toEqual({ seconds: 30, confidence: 1, source: "retry-after" });
+  });
+
+  it("parses OpenAI compound reset durations", () => {
+    const n = normalizeError({ message: "x", headers: { "x-ratelimit-reset-requests": "1m2.5s" } });
+    expect(retryHint(n)?.seconds).toBe(63);
+  });
+
+  it("treats large reset header values as Unix timestamps", () => {
+    const now = Date.parse("2026-03-01T12:00:00Z");
+    const n = normalizeError({ message: "x", headers: { "x-ratelimit-reset": String(now / 1000 + 120) } });
+    expect(retryHint(n, now)?.seconds).toBe(120);
+  });
+
+  it("falls back to the error text", () => {
+    const hint = retryHint(normalizeError("Rate limited. Try again in 4m30s."));
+    expect(hint).toEqual({ seconds: 270, confidence: 0.9, source: "duration" });
+  });
+
+  it("uses the longest simple reset header", () => {
+    const n = normalizeError({
+      message: "x",
+      headers: { "x-ratelimit-reset-requests": "2s", "x-ratelimit-reset-tokens": "45s" },
+    });
+    expect(retryHint(n)?.seconds).toBe(45);
+  });
+
+  it("returns undefined without hints", () => {
+    expect(retryHint(normalizeError("429 Too Many Requests"))).toBeUndefined();
+  });
+});
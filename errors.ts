@@ -0,0 +1,210 @@
+/**
+ * Structured error normalization.
+ *
+ * Providers report failures in different shapes: flat strings, stringified
+ * JSON bodies, SDK error objects carrying `status` and `headers`, or raw
+ * response bodies. `normalizeError` turns any of these into one flat record
+ * (status code, provider error code, retry hints, reset headers) that the
+ * classifier and cooldown calculation can consume.
+ *
+ * Recognized bodies:
+ *   OpenAI    {"error": {"message", "type", "code"}}
+ *   Anthropic {"type": "error", "error": {"type": "rate_limit_error", "message"}}
+ *   Google    {"error": {"code": 429, "status": "RESOURCE_EXHAUSTED", "details": [{"retryDelay": "37s"}]}}
+ *
+ * Programmatic usage:
+ *   import { normalizeError, retryHint } from "./errors.js";
+ */
+
+import type { ErrorSignal } from "./classifier.js";
+import {
+  parseDuration,
+  parseHttpDate,
+  parseWaitHint,
+  WAIT_HINT_CONFIDENCE,
+  type WaitHint,
+} from "./waittime.js";
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+export interface NormalizedError extends ErrorSignal {
+  /** Human-readable error text (message, or the raw input string). */
+  text: string;
+  /** HTTP status code, if known. */
+  status?: number;
+  /** Provider error code (OpenAI `error.code`, Anthropic `error.type`, Google `error.status`). */
+  code?: string;
+  /** Secondary provider error type (OpenAI `error.type`). */
+  type?: string;
+  /** Raw `Retry-After` header value (delta-seconds or HTTP-date). */
+  retryAfter?: string;
+  /** Google `RetryInfo.retryDelay` (e.g. "37s"). */
+  retryDelay?: string;
+  /** Lowercased `x-ratelimit-reset-*` headers. */
+  resetHeaders: Record<string, string>;
+}
+
+// -------------------------------------------------------------------------
+// Helpers
+// -------------------------------------------------------------------------
+
+function str(v: unknown): string | undefined {
+  return typeof v === "string" && v.length > 0 ? v : undefined;
+}
+
+function httpStatus(v: unknown): number | undefined {
+  const n = typeof v === "string" ? parseInt(v, 10) : v;
+  return typeof n === "number" && Number.isInteger(n) && n >= 100 && n <= 599 ? n : undefined;
+}
+
+/** Lowercase header names from a plain object, a Map or a fetch `Headers` instance. */
+function headerRecord(h: any): Record<string, string> {
+  const out: Record<string, string> = {};
+  if (!h || typeof h !== "object") return out;
+  const entries: Iterable<[string, unknown]> =
+    typeof h.entries === "function" ? h.entries() : Object.entries(h);
+  for (const [k, v] of entries) {
+    if (v === undefined || v === null) continue;
+    out[String(k).toLowerCase()] = Array.isArray(v) ? String(v[0]) : String(v);
+  }
+  return out;
+}
+
+/** Parse the first JSON object embedded in a string (e.g. `429 {"error":...}`). */
+function embeddedJson(s: string): any {
+  const start = s.indexOf("{");
+  if (start < 0) return undefined;
+  try {
+    return JSON.parse(s.slice(start));
+  } catch {
+    return undefined;
+  }
+}
+
+/** Pull code/type/status/retryDelay out of a provider error body. */
+function readBody(body: any, into: NormalizedError): void {
+  if (!body || typeof body !== "object") return;
+  const e = body.error && typeof body.error === "object" ? body.error : body;
+
+  into.status ??= httpStatus(e.code) ?? httpStatus(body.status);
+  // Google puts the canonical code in `status`, Anthropic in `type`, OpenAI in `code`.
+  into.code ??= str(e.status) ?? (typeof e.code === "string" ? e.code : undefined) ?? str(e.type);
+  const type = str(e.type);
+  if (type && type !== into.code && type !== "error") into.type ??= type;
+  if (!into.text) into.text = str(e.message) ?? "";
+
+  if (Array.isArray(e.details)) {
+    for (const d of e.details) {
+      const delay = str(d?.retryDelay);
+      if (delay) {
+        into.retryDelay ??= delay;
+        break;
+      }
+    }
+  }
+}
+
+function applyHeaders(headers: Record<string, string>, into: NormalizedError): void {
+  for (const [k, v] of Object.entries(headers)) {
+    if (k === "retry-after") into.retryAfter ??= v;
+    else if (k.startsWith("x-ratelimit-reset")) into.resetHeaders[k] = v;
+  }
+}
+
+// -------------------------------------------------------------------------
+// Normalization
+// -------------------------------------------------------------------------
+
+/**
+ * Normalize a string, an Error / SDK error object or a raw response body.
+ * Never throws; unknown shapes produce a record with only `text` set.
+ */
+export function normalizeError(input: unknown): NormalizedError {
+  const out: NormalizedError = { text: "", resetHeaders: {} };
+  if (input === undefined || input === null) return out;
+
+  if (typeof input === "string") {
+    out.text = input;
+    readBody(embeddedJson(input), out);
+    const m = input.match(/\b(?:http|status)\s*:?\s*([1-5]\d\d)\b/i) ?? input.match(/^\s*([1-5]\d\d)\b/);
+    if (m) out.status ??= parseInt(m[1], 10);
+    return out;
+  }
+
+  if (typeof input !== "object") {
+    out.text = String(input);
+    return out;
+  }
+
+  const e = input as any;
+  const response = e.response && typeof e.response === "object" ? e.response : undefined;
+
+  out.text = str(e.message) ?? "";
+  out.status = httpStatus(e.status) ?? httpStatus(e.statusCode) ?? httpStatus(response?.status);
+  applyHeaders({ ...headerRecord(response?.headers), ...headerRecord(e.headers) }, out);
+
+  // SDKs expose the parsed body under different names.
+  readBody(e.error ?? e.body ?? e.data ?? response?.data ?? response?.body, out);
+  if (typeof e.code === "string" && !out.code) out.code = e.code;
+  // A bare body passed directly (no wrapper object).
+  if (!out.code && e.error === undefined && (e.type || e.status)) readBody(e, out);
+  if (!out.code && !out.text && typeof e.message === "string") readBody(embeddedJson(e.message), out);
+
+  if (!out.text) {
+    try {
+      out.text = JSON.stringify(input);
+    } catch {
+      out.text = String(input);
+    }
+  }
+  return out;
+}
+
+// -------------------------------------------------------------------------
+// Retry hints
+// -------------------------------------------------------------------------
+
+/** Reset headers carry either a duration ("1m2.5s") or a Unix timestamp in seconds. */
+function resetHeaderSeconds(value: string, now: number): number | undefined {
+  const secs = parseDuration(value);
+  if (secs !== undefined && secs > 1_000_000_000) return Math.ceil(secs - now / 1000);
+  return secs;
+}
+
+/**
+ * The most trustworthy wait hint for an error. Structured hints come first:
+ * Retry-After wins over retryDelay, which wins over the longest
+ * x-ratelimit-reset-* header. Without structured hints the error text is parsed.
+ */
+export function retryHint(err: NormalizedError, now = Date.now()): WaitHint | undefined {
+  const structured = (seconds: number | undefined, source: string): WaitHint | undefined =>
+    seconds !== undefined && seconds > 0
+      ? { seconds, confidence: WAIT_HINT_CONFIDENCE.structured, source }
+      : undefined;
+
+  if (err.retryAfter) {
+    const at = parseHttpDate(err.retryAfter);
+    const hint = structured(
+      at !== undefined ? Math.ceil((at - now) / 1000) : parseDuration(err.retryAfter),
+      "retry-after",
+    );
+    if (hint) return hint;
+  }
+
+  if (err.retryDelay) {
+    const hint = structured(parseDuration(err.retryDelay), "retry-delay");
+    if (hint) return hint;
+  }
+
+  let longest: number | undefined;
+  for (const v of Object.values(err.resetHeaders)) {
+    const secs = resetHeaderSeconds(v, now);
+    if (secs !== undefined && (longest === undefined || secs > longest)) longest = secs;
+  }
+  const reset = structured(longest, "x-ratelimit-reset");
+  if (reset) return reset;
+
+  return parseWaitHint(err.text, now);
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  validateSessionFailover,
+  failbackTarget,
+  tierRank,
+  isConversationBoundary,
+  failbackDue,
+  createTurnTracker,
+  DEFAULT_FAILBACK,
+} from "./failback.js";
+
+// ---------------------------------------------------------------------------
+// 1. Validation
+// ---------------------------------------------------------------------------
+describe("validateSessionFailover", () => {
+  it("accepts a complete record", () => {
+    expect(validateSessionFailover({ from: "a/1", to: "b/1", at: 1000 })).toBeUndefined();
+  });
+
+  it("rejects missing models and bad timestamps", () => {
+    expect(validateSessionFailover(null)).toMatch(/object/);
+    expect(validateSessionFailover({ to: "b/1", at: 1 })).toMatch(/from/);
+    expect(validateSessionFailover({ from: "a/1", to: "", at: 1 })).toMatch(/to/);
+    expect(validateSessionFailover({ from: "a/1", to: "b/1", at: -1 })).toMatch(/at/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Target selection
+// ---------------------------------------------------------------------------
+describe("failbackTarget", () => {
+  const tiers = [["a/1"], ["b/1", "b/2"], ["c/1"]];
+
+  it("returns the best model when its tier ranks above the current one", () => {
+    expect(failbackTarget(tiers, "c/1", "a/1")).toBe("a/1");
+    expect(failbackTarget(tiers, "c/1", "b/2")).toBe("b/2");
+  });
+
+  it("never moves within a tier or down the order", () => {
+    expect(failbackTarget(tiers, "b/1", "b/2")).toBeUndefined();
+    expect(failbackTarget(tiers, "b/1", "c/1")).toBeUndefined();
+    expect(failbackTarget(tiers, "b/1", undefined)).toBeUndefined();
+  });
+
+  it("ignores models missing from the order", () => {
+    expect(failbackTarget(tiers, "x/1", "a/1")).toBeUndefined();
+    expect(failbackTarget(tiers, "c/1", "x/1")).toBeUndefined();
+    expect(tierRank(tiers, "b/2")).toBe(1);
+    expect(tierRank(tiers, "x/1")).toBe(-1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Timing
+// ---------------------------------------------------------------------------
+describe("failbackDue", () => {
+  const boundary = { ...DEFAULT_FAILBACK, atBoundary: true };
+
+  it("fails back right away by default", () => {
+    expect(failbackDue({}, { turns: 0 }, DEFAULT_FAILBACK)).toBe(true);
+  });
+
+  it("waits for the configured number of turns", () => {
+    const opts = { ...DEFAULT_FAILBACK, afterTurns: 2 };
+    expect(failbackDue({}, { turns: 1 }, opts)).toBe(false);
+    expect(failbackDue({}, { turns: 2 }, opts)).toBe(true);
+  });
+
+  it("recognizes conversation boundaries", () => {
+    expect(isConversationBoundary({ newConversation: true }, { turns: 3 }, boundary)).toBe(true);
+    expect(isConversationBoundary({ messages: [{ role: "user", content: "hi" }] }, { turns: 3 }, boundary)).toBe(true);
+    expect(isConversationBoundary({}, { turns: 3, idleSec: boundary.idleSec }, boundary)).toBe(true);
+    expect(isConversationBoundary({ messages: [{}, {}, {}] }, { turns: 3, idleSec: 60 }, boundary)).toBe(false);
+    expect(isConversationBoundary({}, { turns: 0 }, boundary)).toBe(false);
+  });
+
+  it("only fails back at a boundary when atBoundary is set", () => {
+    expect(failbackDue({ messages: [{}, {}] }, { turns: 5, idleSec: 10 }, boundary)).toBe(false);
+    expect(failbackDue({ messages: [{}] }, { turns: 5, idleSec: 10 }, boundary)).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 4. Turn tracking
+// ---------------------------------------------------------------------------
+describe("createTurnTracker", () => {
+  it("counts earlier turns and the idle time since the last one", () => {
+    const tracker = createTurnTracker();
+    expect(tracker.next("s1", 100)).toEqual({ turns: 0 });
+    expect(tracker.next("s1", 160)).toEqual({ turns: 1, idleSec: 60 });
+    expect(tracker.next("s2", 170)).toEqual({ turns: 0 });
+    expect(tracker.next("s1", 200)).toEqual({ turns: 2, idleSec: 40 });
+  });
+
+  it("starts over after reset", () => {
+    const tracker = createTurnTracker();
+    tracker.next("s1", 100);
+    tracker.reset("s1");
+    expect(tracker.next("s1", 200)).toEqual({ turns: 0 });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Automatic fail-back to the preferred model.
+ *
+ * When a session fails over, the switch is remembered in the state as
+ * `failovers[<sessionKey>] = { from, to, at }`. On each later turn of the
+ * session, if a model ranked above the fallback is usable again, the session
+ * is moved back to it once the turn qualifies:
+ *
+ *   failbackAfterTurns   the fallback has served at least this many turns
+ *   failbackAtBoundary   the turn starts a new conversation: the event says so,
+ *                        it carries at most one message, or the session was
+ *                        idle for failbackIdleMinutes
+ *
+ * The record is kept in the state (not in memory) because the gateway usually
+ * restarts right after a failover.
+ *
+ * Programmatic usage:
+ *   import { failbackTarget, failbackDue, createTurnTracker } from "./failback.js";
+ */
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+export interface SessionFailover {
+  /** The model the session was on before its first failover. */
+  from: string;
+  /** The fallback the session is pinned to now. */
+  to: string;
+  /** When the session last failed over (unix seconds). */
+  at: number;
+}
+
+export interface FailbackOptions {
+  afterTurns: number;
+  atBoundary: boolean;
+  idleSec: number;
+}
+
+export const DEFAULT_FAILBACK: FailbackOptions = {
+  afterTurns: 0,
+  atBoundary: false,
+  idleSec: 30 * 60,
+};
+
+/** Failover records older than this are dropped when a new one is written. */
+export const FAILOVER_RECORD_TTL_SEC = 7 * 24 * 3600;
+
+/** What the tracker knows about a session's turns on its fallback. */
+export interface TurnProgress {
+  /** Turns seen before the current one. */
+  turns: number;
+  /** Seconds since the previous turn, when this process saw one. */
+  idleSec?: number;
+}
+
+// -------------------------------------------------------------------------
+// Validation
+// -------------------------------------------------------------------------
+
+/**
+ * Check the shape of a stored failover record. Returns an error message, or
+ * undefined if the record is usable.
+ */
+export function validateSessionFailover(record: any): string | undefined {
+  if (!record || typeof record !== "object" || Array.isArray(record)) return "failover must be an object";
+  if (typeof record.from !== "string" || !record.from) return "from must be a model id";
+  if (typeof record.to !== "string" || !record.to) return "to must be a model id";
+  if (typeof record.at !== "number" || !Number.isFinite(record.at) || record.at < 0) return "at must be a timestamp";
+  return undefined;
+}
+
+// -------------------------------------------------------------------------
+// Decisions
+// -------------------------------------------------------------------------
+
+/**
+ * The model to fail back to: `best` when its tier ranks above the tier of
+ * `current`, else undefined. Models of the same tier are equivalent, and
+ * models missing from the order never qualify.
+ */
+export function failbackTarget(tiers: string[][], current: string, best: string | undefined): string | undefined {
+  if (!best) return undefined;
+  const bestRank = tierRank(tiers, best);
+  const currentRank = tierRank(tiers, current);
+  if (bestRank < 0 || currentRank < 0) return undefined;
+  return bestRank < currentRank ? best : undefined;
+}
+
+/** Index of the tier holding the model, or -1. */
+export function tierRank(tiers: string[][], model: string): number {
+  return tiers.findIndex((tier) => tier.includes(model));
+}
+
+/** Whether the turn described by a `before_model_resolve` event starts a new conversation. */
+export function isConversationBoundary(event: any, progress: TurnProgress, opts: FailbackOptions): boolean {
+  if (event?.newConversation === true || event?.isNewSession === true) return true;
+  if (Array.isArray(event?.messages) && event.messages.length <= 1) return true;
+  return progress.idleSec !== undefined && progress.idleSec >= opts.idleSec;
+}
+
+/** Whether the session may fail back on this turn. */
+export function failbackDue(event: any, progress: TurnProgress, opts: FailbackOptions): boolean {
+  if (progress.turns < opts.afterTurns) return false;
+  return !opts.atBoundary || isConversationBoundary(event, progress, opts);
+}
+
+// -------------------------------------------------------------------------
+// Turn tracking
+// -------------------------------------------------------------------------
+
+export interface TurnTracker {
+  /** Count a turn of the session and return what was known before it. */
+  next(sessionKey: string, now: number): TurnProgress;
+  /** Forget the session, e.g. after it failed over or back. */
+  reset(sessionKey: string): void;
+}
+
+/** Process-local turn counts; they start over when the gateway restarts. */
+export function createTurnTracker(): TurnTracker {
+  const sessions = new Map<string, { turns: number; lastTurnAt: number }>();
+  return {
+    next(sessionKey, now) {
+      const seen = sessions.get(sessionKey);
+      sessions.set(sessionKey, { turns: (seen?.turns ?? 0) + 1, lastTurnAt: now });
+      return seen ? { turns: seen.turns, idleSec: now - seen.lastTurnAt } : { turns: 0 };
+    },
+    reset(sessionKey) {
+      sessions.delete(sessionKey);
+    },
+  };
+}
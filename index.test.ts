@@ -14,18 +14,29 @@ import register, {
   isTemporarilyUnavailableLike,
   loadState,
   saveState,
+  updateState,
   atomicWriteFile,
   firstAvailableModel,
   expandHome,
+  nextStrikeCount,
+  backoffCooldown,
+  DEFAULT_BACKOFF,
   type LimitState,
 } from "./index.js";
+import { recordEvent } from "./metrics.js";
+import { loadPinChanges } from "./journal.js";
+import { normalizeError } from "./errors.js";
+import { sqliteAvailable } from "./store.js";
+import { STATE_VERSION } from "./schema.js";
 
 vi.mock("node:child_process", () => ({
-  spawn: vi.fn(() => ({ unref: vi.fn() })),
+  spawn: vi.fn(() => ({ unref: vi.fn(), once: vi.fn() })),
 }));
 
 vi.mock("./metrics.js", () => ({
   recordEvent: vi.fn(),
+  getMetricsSummary: vi.fn(() => ({ totalEvents: 3 })),
+  formatMetrics: vi.fn((summary: any) => `Total events: ${summary.totalEvents}`),
   DEFAULT_METRICS_FILE: "~/.openclaw/workspace/memory/model-failover-metrics.jsonl",
 }));
 
@@ -112,7 +123,11 @@ describe("isTemporarilyUnavailableLike", () => {
 // ---------------------------------------------------------------------------
 describe("parseWaitTime", () => {
   it("parses 'in Xm' format", () => {
-    expect(parseWaitTime("Try again in 4m30s")).toBe(240); // 4 minutes
+    expect(parseWaitTime("Try again in 4m")).toBe(240);
+  });
+
+  it("parses compound durations", () => {
+    expect(parseWaitTime("Try again in 4m30s")).toBe(270);
   });
 
   it("parses 'in Xs' format", () => {
@@ -166,6 +181,79 @@ describe("calculateCooldown", () => {
   it("uses custom default minutes", () => {
     expect(calculateCooldown("unknown-provider", "some error", 120)).toBe(7200);
   });
+
+  it("prefers an exact wait hint over the google quota heuristic", () => {
+    expect(calculateCooldown("google-gemini-cli", 'Quota exceeded. "retryDelay": "37s"', 60)).toBe(37);
+  });
+
+  it("consults custom provider policies before the built-in ones", () => {
+    const policies = [{ provider: "perplexity", reset: "rolling" as const, cooldownMinutes: 30 }];
+    expect(calculateCooldown("perplexity", "rate limit", 300, policies)).toBe(1800);
+    // Providers without a policy keep the caller's default.
+    expect(calculateCooldown("mistral", "rate limit", 300, policies)).toBe(18000);
+  });
+
+  it("uses a vague hint only when no provider heuristic applies", () => {
+    expect(calculateCooldown("openai", "rate limit, retry after 30", 60)).toBe(3600);
+    expect(calculateCooldown("mistral", "rate limit, retry after 30", 60)).toBe(30);
+  });
+
+  it("prefers structured retry hints over provider heuristics", () => {
+    const err = normalizeError({
+      error: { code: 429, status: "RESOURCE_EXHAUSTED", message: "Quota exceeded", details: [{ retryDelay: "37s" }] },
+    });
+    expect(calculateCooldown("google-gemini-cli", err, 60)).toBe(37);
+  });
+});
+
+describe("exponential backoff", () => {
+  const opts = { multiplier: 2, maxSec: 86400, jitter: 0, decaySec: 3600 };
+
+  it("starts at one strike", () => {
+    expect(nextStrikeCount(undefined, 1000, 3600)).toBe(1);
+  });
+
+  it("keeps the count for hits during the running cooldown", () => {
+    expect(nextStrikeCount({ lastHitAt: 0, nextAvailableAt: 2000, strikes: 2 }, 1000, 3600)).toBe(2);
+  });
+
+  it("adds a strike for a hit soon after the cooldown ended", () => {
+    expect(nextStrikeCount({ lastHitAt: 0, nextAvailableAt: 2000, strikes: 2 }, 2100, 3600)).toBe(3);
+    // Entries from older versions have no strike count.
+    expect(nextStrikeCount({ lastHitAt: 0, nextAvailableAt: 2000 }, 2100, 3600)).toBe(2);
+  });
+
+  it("forgives one strike per decay period of healthy use", () => {
+    const prev = { lastHitAt: 0, nextAvailableAt: 2000, strikes: 3 };
+    expect(nextStrikeCount(prev, 2000 + 3600, 3600)).toBe(3);
+    expect(nextStrikeCount(prev, 2000 + 3 * 3600, 3600)).toBe(1);
+    expect(nextStrikeCount(prev, 2000 + 10 * 3600, 3600)).toBe(1);
+  });
+
+  it("uses the base cooldown for the first strike", () => {
+    expect(backoffCooldown(37, 1, DEFAULT_BACKOFF)).toBe(37);
+  });
+
+  it("doubles the cooldown per strike", () => {
+    expect(backoffCooldown(600, 2, opts)).toBe(1200);
+    expect(backoffCooldown(600, 4, opts)).toBe(4800);
+  });
+
+  it("caps the cooldown but never below the base", () => {
+    expect(backoffCooldown(3600, 10, { ...opts, maxSec: 7200 })).toBe(7200);
+    expect(backoffCooldown(3600, 3, { ...opts, maxSec: 600 })).toBe(3600);
+  });
+
+  it("applies jitter within the configured spread", () => {
+    const jittered = { ...opts, jitter: 0.2 };
+    expect(backoffCooldown(1000, 2, jittered, () => 0)).toBe(1600);
+    expect(backoffCooldown(1000, 2, jittered, () => 1)).toBe(2400);
+    expect(backoffCooldown(1000, 2, jittered, () => 0.5)).toBe(2000);
+  });
+
+  it("is disabled by a multiplier of 1", () => {
+    expect(backoffCooldown(600, 5, { ...opts, multiplier: 1 })).toBe(600);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -460,18 +548,33 @@ describe("atomicWriteFile", () => {
     const target = path.join(tmpDir, "clean.json");
     atomicWriteFile(target, "data");
     expect(fs.existsSync(target)).toBe(true);
-    expect(fs.existsSync(target + ".tmp")).toBe(false);
+    expect(fs.readdirSync(tmpDir)).toEqual(["clean.json"]);
   });
 
   it("preserves existing file when temp write fails", () => {
     const target = path.join(tmpDir, "keep.json");
     atomicWriteFile(target, "original");
 
-    // Place a directory at the .tmp path to force writeFileSync to fail
-    fs.mkdirSync(target + ".tmp", { recursive: true });
+    // Force the temp file write to fail
+    const writeSpy = vi.spyOn(fs, "writeFileSync").mockImplementationOnce(() => {
+      throw new Error("disk full");
+    });
 
     expect(() => atomicWriteFile(target, "replacement")).toThrow();
+    writeSpy.mockRestore();
     expect(fs.readFileSync(target, "utf-8")).toBe("original");
+    expect(fs.readdirSync(tmpDir)).toEqual(["keep.json"]);
+  });
+
+  it("uses a unique temp file per write", () => {
+    const target = path.join(tmpDir, "unique.json");
+    const renameSpy = vi.spyOn(fs, "renameSync");
+    atomicWriteFile(target, "a");
+    atomicWriteFile(target, "b");
+    const [first, second] = renameSpy.mock.calls.map((c) => String(c[0]));
+    renameSpy.mockRestore();
+    expect(first).not.toBe(second);
+    expect(path.basename(first)).toMatch(new RegExp(`^unique\\.json\\.${process.pid}\\.[0-9a-f]+\\.tmp$`));
   });
 
   it("overwrites existing file atomically", () => {
@@ -500,7 +603,7 @@ describe("loadState / saveState", () => {
 
   it("returns empty state when file does not exist", () => {
     const state = loadState(path.join(tmpDir, "nonexistent.json"));
-    expect(state).toEqual({ limited: {} });
+    expect(state).toEqual({ version: STATE_VERSION, limited: {} });
   });
 
   it("round-trips state through save and load", () => {
@@ -515,13 +618,60 @@ describe("loadState / saveState", () => {
     };
     saveState(tmpFile, original);
     const loaded = loadState(tmpFile);
-    expect(loaded).toEqual(original);
+    expect(loaded).toEqual({ ...original, version: STATE_VERSION });
   });
 
   it("handles corrupted JSON gracefully", () => {
     fs.writeFileSync(tmpFile, "not valid json {{{");
-    const state = loadState(tmpFile);
-    expect(state).toEqual({ limited: {} });
+    const warnings: string[] = [];
+    const state = loadState(tmpFile, (m) => warnings.push(m));
+    expect(state).toEqual({ version: STATE_VERSION, limited: {} });
+
+    // The corrupt file is kept aside for inspection.
+    const quarantined = fs.readdirSync(tmpDir).filter((f) => f.startsWith("state.json.corrupt-"));
+    expect(quarantined).toHaveLength(1);
+    expect(fs.readFileSync(path.join(tmpDir, quarantined[0]), "utf-8")).toBe("not valid json {{{");
+    expect(fs.existsSync(tmpFile)).toBe(false);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain(quarantined[0]);
+  });
+
+  it("stays silent without an onWarn callback", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    fs.writeFileSync(tmpFile, "not valid json {{{");
+    expect(loadState(tmpFile)).toEqual({ version: STATE_VERSION, limited: {} });
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("migrates unversioned state files", () => {
+    fs.writeFileSync(tmpFile, JSON.stringify({ limited: { "p/m": { lastHitAt: 1, nextAvailableAt: 2 } } }));
+    expect(loadState(tmpFile)).toEqual({ version: STATE_VERSION, limited: { "p/m": { lastHitAt: 1, nextAvailableAt: 2 } } });
+  });
+
+  it("drops invalid entries with a warning and keeps the rest", () => {
+    fs.writeFileSync(
+      tmpFile,
+      JSON.stringify({
+        version: 2,
+        limited: { "p/good": { lastHitAt: 1, nextAvailableAt: 2 }, "p/bad": { lastHitAt: "soon" } },
+      })
+    );
+    const warnings: string[] = [];
+    const state = loadState(tmpFile, (m) => warnings.push(m));
+    expect(Object.keys(state.limited)).toEqual(["p/good"]);
+    expect(warnings[0]).toContain("p/bad");
+  });
+
+  it("does not rewrite a state file from a newer plugin", () => {
+    const future = { version: STATE_VERSION + 1, limited: { "p/m": { lastHitAt: 1, nextAvailableAt: 2, extra: 1 } }, other: true };
+    fs.writeFileSync(tmpFile, JSON.stringify(future));
+    const loaded = loadState(tmpFile);
+    expect(loaded.version).toBe(STATE_VERSION + 1);
+
+    expect(() => saveState(tmpFile, loaded)).toThrow(/newer than this plugin/);
+    expect(() => updateState(tmpFile, (state) => { delete state.limited["p/m"]; })).toThrow(/not rewriting/);
+    expect(JSON.parse(fs.readFileSync(tmpFile, "utf-8"))).toEqual(future);
   });
 
   it("creates parent directories when saving", () => {
@@ -558,16 +708,19 @@ describe("loadState / saveState", () => {
     fs.mkdirSync(subDir, { recursive: true });
     fs.writeFileSync(subFile, JSON.stringify(original, null, 2));
 
-    // Make the .tmp target unwritable by placing a directory at .tmp path
-    fs.mkdirSync(subFile + ".tmp", { recursive: true });
+    // Make the temp file write fail
+    const writeSpy = vi.spyOn(fs, "writeFileSync").mockImplementationOnce(() => {
+      throw new Error("disk full");
+    });
 
     expect(() =>
       saveState(subFile, { limited: { "broken/m": { lastHitAt: 1, nextAvailableAt: 2 } } })
     ).toThrow();
+    writeSpy.mockRestore();
 
     // Original file should remain intact
     const preserved = loadState(subFile);
-    expect(preserved).toEqual(original);
+    expect(preserved).toEqual({ ...original, version: STATE_VERSION });
   });
 
   it("overwrites existing state file atomically", () => {
@@ -580,7 +733,7 @@ describe("loadState / saveState", () => {
     saveState(tmpFile, state1);
     saveState(tmpFile, state2);
     const loaded = loadState(tmpFile);
-    expect(loaded).toEqual(state2);
+    expect(loaded).toEqual({ ...state2, version: STATE_VERSION });
     expect(loaded.limited["m/a"]).toBeUndefined();
   });
 });
@@ -698,8 +851,8 @@ function createMockApi(opts: {
   return { api, handlers, logs };
 }
 
-function writeSessionsJson(homeDir: string, data: Record<string, any>) {
-  const dir = path.join(homeDir, ".openclaw", "agents", "main", "sessions");
+function writeSessionsJson(homeDir: string, data: Record<string, any>, agentId = "main") {
+  const dir = path.join(homeDir, ".openclaw", "agents", agentId, "sessions");
   fs.mkdirSync(dir, { recursive: true });
   fs.writeFileSync(path.join(dir, "sessions.json"), JSON.stringify(data));
 }
@@ -742,6 +895,66 @@ describe("register()", () => {
     expect(events).toContain("agent_end");
     expect(events).toContain("message_sent");
   });
+
+  it("releases blocked models when the runtime probe succeeds", async () => {
+    vi.useFakeTimers();
+    try {
+      const now = nowSec();
+      saveState(statePath, {
+        limited: { "provA/m1": { lastHitAt: now, nextAvailableAt: now + 3600, reason: "429" } },
+      });
+      vi.mocked(recordEvent).mockClear();
+      const { api } = createMockApi({
+        pluginConfig: { stateFile: statePath, restartOnSwitch: false, probeEnabled: true, probeIntervalMinutes: 1 },
+      });
+      const complete = vi.fn(async () => ({ text: "pong" }));
+      api.runtime.llm = { complete };
+      register(api);
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(complete).toHaveBeenCalledWith(expect.objectContaining({ model: "provA/m1" }));
+      expect(loadState(statePath).limited["provA/m1"]!.nextAvailableAt).toBeLessThanOrEqual(nowSec());
+      expect(recordEvent).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ type: "recovered", model: "provA/m1", provider: "provA" })
+      );
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("warns when probing is enabled without a probe", () => {
+    const { api, logs } = createMockApi({
+      pluginConfig: { stateFile: statePath, restartOnSwitch: false, probeEnabled: true },
+    });
+    register(api);
+    expect(logs.some((l) => l.includes("probeEnabled is set"))).toBe(true);
+  });
+
+  it("keeps state off disk with stateStore=memory", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/m1" } });
+    const { api, handlers } = createMockApi({
+      pluginConfig: {
+        stateFile: statePath,
+        stateStore: "memory",
+        modelOrder: ["provA/m1", "provB/m2"],
+        restartOnSwitch: false,
+      },
+    });
+    register(api);
+
+    handlers["agent_end"]({ success: false, error: "429 rate limit" }, { model: "provA/m1", sessionKey: "s1" });
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toEqual({ modelOverride: "provB/m2" });
+    expect(fs.existsSync(statePath)).toBe(false);
+  });
+
+  it.skipIf(sqliteAvailable())("falls back to the state file when SQLite is unavailable", () => {
+    const { api, logs } = createMockApi({
+      pluginConfig: { stateFile: statePath, stateStore: "sqlite", restartOnSwitch: false },
+    });
+    register(api);
+    expect(logs.some((l) => l.includes("Cannot open sqlite state store"))).toBe(true);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -815,6 +1028,98 @@ describe("before_model_resolve handler", () => {
     expect(result).toEqual({ modelOverride: "modelB/two" });
   });
 
+  it("reads the pin from the sessions.json of the turn's agent", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "modelB/two" } });
+    writeSessionsJson(fakeHome, { s1: { model: "modelA/one" } }, "ops");
+    saveState(statePath, {
+      limited: { "modelA/one": { lastHitAt: nowSec(), nextAvailableAt: nowSec() + 3600 } },
+    });
+    const { handlers } = setup();
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1", agentId: "ops" })).toEqual({
+      modelOverride: "modelB/two",
+    });
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toBeUndefined();
+  });
+
+  it("takes the agent from an agent:<id>: session key", () => {
+    writeSessionsJson(fakeHome, { "agent:ops:main": { model: "modelA/one" } }, "ops");
+    saveState(statePath, {
+      limited: { "modelA/one": { lastHitAt: nowSec(), nextAvailableAt: nowSec() + 3600 } },
+    });
+    const { handlers } = setup();
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "agent:ops:main" })).toEqual({
+      modelOverride: "modelB/two",
+    });
+  });
+
+  it("uses the most specific model order override for the turn", () => {
+    const { handlers } = setup({
+      forceOverride: true,
+      modelOrderOverrides: {
+        "agent:research": ["modelC/three"],
+        "channel:telegram": ["modelB/two"],
+      },
+    });
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1", agentId: "research" })).toEqual({
+      modelOverride: "modelC/three",
+    });
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "agent:research:telegram:dm:1" })).toEqual({
+      modelOverride: "modelB/two",
+    });
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toEqual({ modelOverride: "modelA/one" });
+  });
+
+  it("skips fallbacks that cannot serve the turn's requirements", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "modelA/one" } });
+    saveState(statePath, {
+      limited: { "modelA/one": { lastHitAt: nowSec(), nextAvailableAt: nowSec() + 3600 } },
+    });
+    const { handlers } = setup({
+      modelCapabilities: { "modelB/two": { vision: false }, "modelC/three": { vision: true } },
+    });
+    const imageTurn = { messages: [{ role: "user", content: [{ type: "image", data: "..." }] }] };
+    expect(handlers["before_model_resolve"](imageTurn, { sessionKey: "s1" })).toEqual({ modelOverride: "modelC/three" });
+    expect(handlers["before_model_resolve"]({ prompt: "hi" }, { sessionKey: "s1" })).toEqual({ modelOverride: "modelB/two" });
+  });
+
+  it("falls back to the full order when no model is capable", () => {
+    const { handlers } = setup({
+      forceOverride: true,
+      modelCapabilities: Object.fromEntries(models.map((m) => [m, { tools: false }])),
+    });
+    expect(handlers["before_model_resolve"]({ tools: [{ name: "exec" }] }, { sessionKey: "s1" })).toEqual({
+      modelOverride: "modelA/one",
+    });
+  });
+
+  it("balances across the available models of the first usable tier", () => {
+    saveState(statePath, {
+      limited: { "modelA/one": { lastHitAt: nowSec(), nextAvailableAt: nowSec() + 3600 } },
+    });
+    const { handlers } = setup({
+      forceOverride: true,
+      modelOrder: ["modelA/one", ["modelB/two", "modelC/three"], "modelD/four"],
+    });
+    const picks = [1, 2, 3, 4].map((i) => handlers["before_model_resolve"]({}, { sessionKey: `s${i}` })?.modelOverride);
+    expect(picks).toEqual(["modelB/two", "modelC/three", "modelB/two", "modelC/three"]);
+  });
+
+  it("does not advance the tier rotation while the pinned model is available", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "modelB/two" }, s2: { model: "modelA/one" } });
+    saveState(statePath, {
+      limited: { "modelA/one": { lastHitAt: nowSec(), nextAvailableAt: nowSec() + 3600 } },
+    });
+    const { handlers } = setup({ modelOrder: ["modelA/one", ["modelB/two", "modelC/three"]] });
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toBeUndefined();
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toBeUndefined();
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s2" })).toEqual({ modelOverride: "modelB/two" });
+  });
+
+  it("warns about invalid model order overrides", () => {
+    const { logs } = setup({ modelOrderOverrides: { coder: ["modelA/one"] } });
+    expect(logs.some((l) => l.includes("Ignoring model order override: coder"))).toBe(true);
+  });
+
   it("skips multiple limited models to find fallback", () => {
     writeSessionsJson(fakeHome, { s1: { model: "modelA/one" } });
     const state: LimitState = {
@@ -841,6 +1146,99 @@ describe("before_model_resolve handler", () => {
     const result = handlers["before_model_resolve"]({}, { sessionKey: "s1" });
     expect(result).toEqual({ modelOverride: "modelA/one" });
   });
+
+  it("routes a single trial turn to a half-open model", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "modelA/one" }, s2: { model: "modelA/one" } });
+    saveState(statePath, {
+      limited: { "modelA/one": { lastHitAt: nowSec() - 3600, nextAvailableAt: nowSec() - 1 } },
+    });
+    const { handlers } = setup();
+
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toBeUndefined();
+    expect(loadState(statePath).limited["modelA/one"]!.trialSession).toBe("s1");
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s2" })).toEqual({ modelOverride: "modelB/two" });
+    // The trial session keeps its model on the next turn.
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toBeUndefined();
+  });
+
+  it("closes the circuit after a successful trial turn", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "modelA/one" }, s2: { model: "modelA/one" } });
+    saveState(statePath, {
+      limited: { "modelA/one": { lastHitAt: nowSec() - 3600, nextAvailableAt: nowSec() - 1 } },
+    });
+    const { handlers } = setup();
+
+    handlers["before_model_resolve"]({}, { sessionKey: "s1" });
+    handlers["agent_end"]({ success: true }, { model: "modelA/one", sessionKey: "s1" });
+    const entry = loadState(statePath).limited["modelA/one"]!;
+    expect(entry.closedAt).toBeGreaterThan(0);
+    expect(entry.trialSession).toBeUndefined();
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s2" })).toBeUndefined();
+  });
+
+  it("keeps the strikes of a closed circuit for the next failure", () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date("2025-06-01T12:00:00Z"));
+      writeSessionsJson(fakeHome, { s1: { model: "modelA/one" } });
+      const { handlers } = setup({ cooldownMinutes: 60, backoffJitter: 0 });
+      const fail = () =>
+        handlers["agent_end"]({ success: false, error: "429 Too Many Requests" }, { model: "modelA/one", sessionKey: "s1" });
+
+      fail();
+      expect(loadState(statePath).limited["modelA/one"]!.strikes).toBe(1);
+      vi.setSystemTime(new Date("2025-06-01T13:01:00Z"));
+      handlers["before_model_resolve"]({}, { sessionKey: "s1" });
+      handlers["agent_end"]({ success: true }, { model: "modelA/one", sessionKey: "s1" });
+      expect(loadState(statePath).limited["modelA/one"]!.closedAt).toBe(nowSec());
+      fail();
+      expect(loadState(statePath).limited["modelA/one"]!.strikes).toBe(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("reopens the circuit when the trial turn fails again", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "modelA/one" } });
+    saveState(statePath, {
+      limited: { "modelA/one": { lastHitAt: nowSec() - 3600, nextAvailableAt: nowSec() - 1, strikes: 1 } },
+    });
+    const { handlers } = setup({ backoffJitter: 0 });
+
+    handlers["before_model_resolve"]({}, { sessionKey: "s1" });
+    handlers["agent_end"](
+      { success: false, error: "429 Too Many Requests" },
+      { model: "modelA/one", sessionKey: "s1" }
+    );
+    const entry = loadState(statePath).limited["modelA/one"]!;
+    expect(entry.nextAvailableAt).toBeGreaterThan(nowSec());
+    expect(entry.strikes).toBe(2);
+    expect(entry.trialSession).toBeUndefined();
+  });
+
+  it("frees the trial after an unrelated failure", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "modelA/one" }, s2: { model: "modelA/one" } });
+    saveState(statePath, {
+      limited: { "modelA/one": { lastHitAt: nowSec() - 3600, nextAvailableAt: nowSec() - 1 } },
+    });
+    const { handlers } = setup();
+
+    handlers["before_model_resolve"]({}, { sessionKey: "s1" });
+    handlers["agent_end"]({ success: false, error: "Connection timeout" }, { model: "modelA/one", sessionKey: "s1" });
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s2" })).toBeUndefined();
+    expect(loadState(statePath).limited["modelA/one"]!.trialSession).toBe("s2");
+  });
+
+  it("restores every session at once with halfOpenFraction 1", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "modelA/one" }, s2: { model: "modelA/one" } });
+    saveState(statePath, {
+      limited: { "modelA/one": { lastHitAt: nowSec() - 3600, nextAvailableAt: nowSec() - 1 } },
+    });
+    const { handlers } = setup({ halfOpenFraction: 1 });
+
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toBeUndefined();
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s2" })).toBeUndefined();
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -913,6 +1311,20 @@ describe("agent_end handler", () => {
     expect(state.limited["provC/model4"]).toBeUndefined();
   });
 
+  it("skips the state update with a warning while another process holds the lock", () => {
+    fs.writeFileSync(`${statePath}.lock`, JSON.stringify({ pid: process.pid, host: os.hostname(), acquiredAt: Date.now() }));
+    const { handlers, logs } = setup();
+
+    const started = Date.now();
+    expect(() =>
+      handlers["agent_end"]({ success: false, error: "429 Too Many Requests" }, { model: "provA/model1", sessionKey: "s1" })
+    ).not.toThrow();
+    expect(Date.now() - started).toBeLessThan(3000);
+    expect(logs.some((l) => l.includes("Skipped state update: Timed out after 1000ms"))).toBe(true);
+    fs.unlinkSync(`${statePath}.lock`);
+    expect(loadState(statePath).limited).toEqual({});
+  });
+
   it("blocks only the specific model on auth error (not provider-wide)", () => {
     const { handlers } = setup();
     handlers["agent_end"](
@@ -924,6 +1336,59 @@ describe("agent_end handler", () => {
     expect(state.limited["provA/model2"]).toBeUndefined();
   });
 
+  it("blocks only the model when the error is a per-model limit", () => {
+    vi.mocked(recordEvent).mockClear();
+    const { handlers } = setup();
+    handlers["agent_end"](
+      { success: false, error: "429 Rate limit reached for model1 on tokens per min (TPM)" },
+      { model: "provA/model1", sessionKey: "s1" }
+    );
+    const state = loadState(statePath);
+    expect(state.limited["provA/model1"]).toMatchObject({ scope: "model" });
+    expect(state.limited["provA/model2"]).toBeUndefined();
+    expect(recordEvent).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ type: "rate_limit", scope: "model" })
+    );
+  });
+
+  it("records the scope of provider-wide blocks", () => {
+    const { handlers } = setup();
+    handlers["agent_end"](
+      { success: false, error: "429 Too Many Requests" },
+      { model: "provA/model1", sessionKey: "s1" }
+    );
+    const state = loadState(statePath);
+    expect(state.limited["provA/model1"]?.scope).toBe("provider");
+    expect(state.limited["provA/model2"]?.scope).toBe("provider");
+  });
+
+  it("blocks every provider of the account on billing errors", () => {
+    const { handlers, logs } = setup({ providerAccounts: { provA: "acme", provB: "acme" } });
+    handlers["agent_end"](
+      { success: false, error: { message: "You exceeded your current quota", code: "insufficient_quota", status: 429 } },
+      { model: "provA/model1", sessionKey: "s1" }
+    );
+    const state = loadState(statePath);
+    expect(Object.keys(state.limited).sort()).toEqual(["provA/model1", "provA/model2", "provB/model3"]);
+    expect(state.limited["provB/model3"]).toMatchObject({ scope: "account", reason: expect.stringContaining("Account acme") });
+    expect(logs.some((l) => l.includes("Account 'acme' exhausted. Blocked 3 models."))).toBe(true);
+  });
+
+  it("honors the scope of a config classifier rule and blockScopes", () => {
+    const { handlers } = setup({
+      errorClassifiers: [{ id: "provb-overload", category: "rate_limit", pattern: "busy", scope: "provider" }],
+      blockScopes: { rate_limit: "model" },
+    });
+    handlers["agent_end"]({ success: false, error: "429 Too Many Requests" }, { model: "provA/model1", sessionKey: "s1" });
+    let state = loadState(statePath);
+    expect(state.limited["provA/model2"]).toBeUndefined();
+
+    handlers["agent_end"]({ success: false, error: "servers busy" }, { model: "provC/model4", sessionKey: "s2" });
+    state = loadState(statePath);
+    expect(state.limited["provC/model4"]?.scope).toBe("provider");
+  });
+
   it("uses shorter cooldown for unavailable errors", () => {
     const { handlers } = setup({ unavailableCooldownMinutes: 10, cooldownMinutes: 300 });
     handlers["agent_end"](
@@ -951,6 +1416,144 @@ describe("agent_end handler", () => {
     expect(sessions.s1.model).toBe("provB/model3");
   });
 
+  it("patches the sessions.json of the turn's agent", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/model1" } });
+    writeSessionsJson(fakeHome, { s1: { model: "provA/model1" } }, "ops");
+    const { handlers } = setup({ patchSessionPins: true });
+    handlers["agent_end"](
+      { success: false, error: "429 Too Many Requests" },
+      { model: "provA/model1", sessionKey: "s1", agentId: "ops" }
+    );
+    const read = (agent: string) =>
+      JSON.parse(fs.readFileSync(path.join(fakeHome, ".openclaw", "agents", agent, "sessions", "sessions.json"), "utf-8"));
+    expect(read("ops").s1.model).toBe("provB/model3");
+    expect(read("main").s1.model).toBe("provA/model1");
+  });
+
+  it("journals each pin change", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/model1" } });
+    const journalPath = path.join(tmpDir, "pins.jsonl");
+    const { handlers } = setup({ patchSessionPins: true, pinJournalFile: journalPath });
+    handlers["agent_end"](
+      { success: false, error: "429 Too Many Requests" },
+      { model: "provA/model1", sessionKey: "s1" }
+    );
+    expect(loadPinChanges(journalPath)).toEqual([
+      {
+        ts: expect.any(Number),
+        session: "s1",
+        sessionsPath: path.join(fakeHome, ".openclaw", "agents", "main", "sessions", "sessions.json"),
+        from: "provA/model1",
+        to: "provB/model3",
+        reason: "rate_limit",
+        trigger: "agent_end",
+      },
+    ]);
+  });
+
+  it("re-pins every session on a blocked provider with repinOnProviderBlock", () => {
+    writeSessionsJson(fakeHome, {
+      s1: { model: "provA/model1" },
+      s2: { model: "provA/model2" },
+      s3: { model: "provB/model3" },
+      s4: {},
+    });
+    writeSessionsJson(fakeHome, { o1: { model: "provA/model1" } }, "ops");
+    const journalPath = path.join(tmpDir, "pins.jsonl");
+    const { handlers } = setup({
+      patchSessionPins: true,
+      repinOnProviderBlock: true,
+      pinJournalFile: journalPath,
+      failbackEnabled: true,
+    });
+    const writes = vi.spyOn(fs, "renameSync");
+    handlers["agent_end"](
+      { success: false, error: "429 Too Many Requests" },
+      { model: "provA/model1", sessionKey: "s1" }
+    );
+
+    // The failing session's pin goes into the same single write as the re-pins of its file.
+    const mainSessions = path.join(fakeHome, ".openclaw", "agents", "main", "sessions", "sessions.json");
+    expect(writes.mock.calls.filter(([, to]) => to === mainSessions)).toHaveLength(1);
+    const read = (agent: string) =>
+      JSON.parse(fs.readFileSync(path.join(fakeHome, ".openclaw", "agents", agent, "sessions", "sessions.json"), "utf-8"));
+    expect(read("main")).toEqual({
+      s1: { model: "provB/model3" },
+      s2: { model: "provB/model3" },
+      s3: { model: "provB/model3" },
+      s4: {},
+    });
+    expect(read("ops")).toEqual({ o1: { model: "provB/model3" } });
+    expect(loadPinChanges(journalPath).map((c) => [c.session, c.from, c.to])).toEqual([
+      ["s1", "provA/model1", "provB/model3"],
+      ["s2", "provA/model2", "provB/model3"],
+      ["o1", "provA/model1", "provB/model3"],
+    ]);
+    expect(loadState(statePath).failovers?.["s2"]).toMatchObject({ from: "provA/model2", to: "provB/model3" });
+  });
+
+  it("leaves other sessions alone without repinOnProviderBlock or on a model-only block", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/model1" }, s2: { model: "provA/model2" } });
+    const { handlers } = setup({ patchSessionPins: true });
+    handlers["agent_end"](
+      { success: false, error: "429 Too Many Requests" },
+      { model: "provA/model1", sessionKey: "s1" }
+    );
+    const sessionsPath = path.join(fakeHome, ".openclaw", "agents", "main", "sessions", "sessions.json");
+    expect(JSON.parse(fs.readFileSync(sessionsPath, "utf-8")).s2.model).toBe("provA/model2");
+
+    writeSessionsJson(fakeHome, { s1: { model: "provB/model3" }, s2: { model: "provA/model2" } });
+    setup({ patchSessionPins: true, repinOnProviderBlock: true }).handlers["agent_end"](
+      { success: false, error: "invalid api key" },
+      { model: "provB/model3", sessionKey: "s1" }
+    );
+    expect(JSON.parse(fs.readFileSync(sessionsPath, "utf-8")).s2.model).toBe("provA/model2");
+  });
+
+  it("fails over within the agent's order override", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/model1" } }, "coder");
+    const { handlers } = setup({
+      patchSessionPins: true,
+      modelOrderOverrides: { "agent:coder": ["provA/model1", "provC/model4"] },
+    });
+    handlers["agent_end"](
+      { success: false, error: "429 Too Many Requests" },
+      { model: "provA/model1", sessionKey: "s1", agentId: "coder" }
+    );
+    const sessionsPath = path.join(fakeHome, ".openclaw", "agents", "coder", "sessions", "sessions.json");
+    expect(JSON.parse(fs.readFileSync(sessionsPath, "utf-8")).s1.model).toBe("provC/model4");
+  });
+
+  it("fails over to a model that can serve the session's last turn", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/model1" } });
+    const { handlers } = setup({
+      patchSessionPins: true,
+      modelCapabilities: { "provB/model3": { contextWindow: 32_000 } },
+    });
+    handlers["before_model_resolve"]({ contextTokens: 100_000 }, { sessionKey: "s1" });
+    handlers["agent_end"](
+      { success: false, error: "429 Too Many Requests" },
+      { model: "provA/model1", sessionKey: "s1" }
+    );
+    const sessionsPath = path.join(fakeHome, ".openclaw", "agents", "main", "sessions", "sessions.json");
+    expect(JSON.parse(fs.readFileSync(sessionsPath, "utf-8")).s1.model).toBe("provC/model4");
+  });
+
+  it("resolves sessions.json through sessionsPathTemplate", () => {
+    const sessionsPath = path.join(tmpDir, "custom", "ops.json");
+    fs.mkdirSync(path.dirname(sessionsPath), { recursive: true });
+    fs.writeFileSync(sessionsPath, JSON.stringify({ s1: { model: "provA/model1" } }));
+    const { handlers } = setup({
+      patchSessionPins: true,
+      sessionsPathTemplate: path.join(tmpDir, "custom", "{agentId}.json"),
+    });
+    handlers["agent_end"](
+      { success: false, error: "429 Too Many Requests" },
+      { model: "provA/model1", sessionKey: "s1", agentId: "ops" }
+    );
+    expect(JSON.parse(fs.readFileSync(sessionsPath, "utf-8")).s1.model).toBe("provB/model3");
+  });
+
   it("patches sessions.json atomically (no .tmp left behind)", () => {
     writeSessionsJson(fakeHome, { s1: { model: "provA/model1" } });
     const { handlers } = setup({ patchSessionPins: true });
@@ -975,28 +1578,185 @@ describe("agent_end handler", () => {
     const state = loadState(statePath);
     expect(Object.keys(state.limited)).toHaveLength(0);
   });
-});
 
-// ---------------------------------------------------------------------------
-// 16. message_sent handler
-// ---------------------------------------------------------------------------
-describe("message_sent handler", () => {
-  const models = ["provA/m1", "provA/m2", "provB/m3"];
-  let tmpDir: string;
-  let statePath: string;
-  let fakeHome: string;
+  it("records the matched classifier rule in the metric event", () => {
+    vi.mocked(recordEvent).mockClear();
+    const { handlers } = setup();
+    handlers["agent_end"](
+      { success: false, error: "429 Too Many Requests" },
+      { model: "provA/model1", sessionKey: "s1" }
+    );
+    expect(recordEvent).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ type: "rate_limit", rule: "too-many-requests-text" })
+    );
+  });
 
-  beforeEach(() => {
-    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fo-ms-"));
-    statePath = path.join(tmpDir, "state.json");
-    fakeHome = path.join(tmpDir, "home");
-    fs.mkdirSync(fakeHome, { recursive: true });
-    vi.spyOn(os, "homedir").mockReturnValue(fakeHome);
-    vi.mocked(spawn).mockClear();
+  it("applies error classifier rules from plugin config", () => {
+    vi.mocked(recordEvent).mockClear();
+    const { handlers } = setup({
+      errorClassifiers: [
+        { id: "provb-credits", category: "rate_limit", provider: "provB", pattern: "out of credits" },
+      ],
+    });
+    handlers["agent_end"](
+      { success: false, error: "Account is out of credits" },
+      { model: "provB/model3", sessionKey: "s1" }
+    );
+    const state = loadState(statePath);
+    expect(state.limited["provB/model3"]).toBeDefined();
+    expect(recordEvent).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ rule: "provb-credits" })
+    );
   });
 
-  afterEach(() => {
-    vi.restoreAllMocks();
+  it("accepts a structured error object and honors its Retry-After header", () => {
+    const { handlers } = setup();
+    handlers["agent_end"](
+      {
+        success: false,
+        error: {
+          message: "Request failed",
+          status: 429,
+          headers: { "retry-after": "90" },
+          error: { type: "requests", code: "rate_limit_exceeded" },
+        },
+      },
+      { model: "provA/model1", sessionKey: "s1" }
+    );
+    const entry = loadState(statePath).limited["provA/model1"];
+    expect(entry).toBeDefined();
+    expect(entry!.nextAvailableAt - entry!.lastHitAt).toBe(90);
+    expect(entry!.reason).toContain("Request failed");
+  });
+
+  it("applies provider policies from plugin config", () => {
+    const { handlers } = setup({
+      providerPolicies: [{ provider: "provB", reset: "rolling", cooldownMinutes: 20 }],
+    });
+    handlers["agent_end"](
+      { success: false, error: "429 Too Many Requests" },
+      { model: "provB/model3", sessionKey: "s1" }
+    );
+    const entry = loadState(statePath).limited["provB/model3"];
+    expect(entry!.nextAvailableAt - entry!.lastHitAt).toBe(1200);
+  });
+
+  it("backs off repeated failures of the same model", () => {
+    const { handlers } = setup({
+      backoffJitter: 0,
+      providerPolicies: [{ provider: "provB", reset: "rolling", cooldownMinutes: 20 }],
+    });
+    const fail = () =>
+      handlers["agent_end"](
+        { success: false, error: "429 Too Many Requests" },
+        { model: "provB/model3", sessionKey: "s1" }
+      );
+    const expire = () => {
+      const state = loadState(statePath);
+      const entry = state.limited["provB/model3"]!;
+      entry.nextAvailableAt = nowSec() - 60;
+      saveState(statePath, state);
+    };
+
+    fail();
+    expect(loadState(statePath).limited["provB/model3"]!.strikes).toBe(1);
+    expire();
+    fail();
+    let entry = loadState(statePath).limited["provB/model3"]!;
+    expect(entry.strikes).toBe(2);
+    expect(entry.nextAvailableAt - entry.lastHitAt).toBe(2400);
+    expire();
+    fail();
+    entry = loadState(statePath).limited["provB/model3"]!;
+    expect(entry.strikes).toBe(3);
+    expect(entry.nextAvailableAt - entry.lastHitAt).toBe(4800);
+    expect(recordEvent).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ strikes: 3, cooldownSec: 4800 })
+    );
+  });
+
+  it("does not add strikes for repeated reports of the same incident", () => {
+    const { handlers } = setup({ backoffJitter: 0 });
+    for (let i = 0; i < 3; i++) {
+      handlers["agent_end"](
+        { success: false, error: "429 Too Many Requests" },
+        { model: "provA/model1", sessionKey: "s1" }
+      );
+    }
+    expect(loadState(statePath).limited["provA/model1"]!.strikes).toBe(1);
+  });
+
+  it("disables backoff with a multiplier of 1", () => {
+    const { handlers } = setup({
+      backoffMultiplier: 1,
+      providerPolicies: [{ provider: "provB", reset: "rolling", cooldownMinutes: 20 }],
+    });
+    const state: LimitState = {
+      limited: { "provB/model3": { lastHitAt: nowSec() - 2000, nextAvailableAt: nowSec() - 60, strikes: 4 } },
+    };
+    saveState(statePath, state);
+    handlers["agent_end"](
+      { success: false, error: "429 Too Many Requests" },
+      { model: "provB/model3", sessionKey: "s1" }
+    );
+    const entry = loadState(statePath).limited["provB/model3"]!;
+    expect(entry.strikes).toBe(5);
+    expect(entry.nextAvailableAt - entry.lastHitAt).toBe(1200);
+  });
+
+  it("warns about and ignores invalid provider policies", () => {
+    const { logs } = setup({
+      providerPolicies: [{ provider: "provB", reset: "daily", timezone: "Mars/Olympus" }],
+    });
+    expect(logs.some((l) => l.includes("Ignoring provider policy") && l.includes("Mars/Olympus"))).toBe(true);
+  });
+
+  it("quarantines a corrupt state file and warns through the plugin logger", () => {
+    fs.writeFileSync(statePath, "{ truncated");
+    const { handlers, logs } = setup();
+    handlers["agent_end"](
+      { success: false, error: "429 Too Many Requests" },
+      { model: "provA/model1", sessionKey: "s1" }
+    );
+    expect(logs.some((l) => l.includes("is corrupt") && l.includes(".corrupt-"))).toBe(true);
+    expect(fs.readdirSync(tmpDir).some((f) => f.startsWith("state.json.corrupt-"))).toBe(true);
+    expect(loadState(statePath).limited["provA/model1"]).toBeDefined();
+  });
+
+  it("ignores errors no rule matches when built-in classifiers are disabled", () => {
+    const { handlers } = setup({ builtinErrorClassifiers: false });
+    handlers["agent_end"](
+      { success: false, error: "429 Too Many Requests" },
+      { model: "provA/model1", sessionKey: "s1" }
+    );
+    const state = loadState(statePath);
+    expect(Object.keys(state.limited)).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 16. message_sent handler
+// ---------------------------------------------------------------------------
+describe("message_sent handler", () => {
+  const models = ["provA/m1", "provA/m2", "provB/m3"];
+  let tmpDir: string;
+  let statePath: string;
+  let fakeHome: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fo-ms-"));
+    statePath = path.join(tmpDir, "state.json");
+    fakeHome = path.join(tmpDir, "home");
+    fs.mkdirSync(fakeHome, { recursive: true });
+    vi.spyOn(os, "homedir").mockReturnValue(fakeHome);
+    vi.mocked(spawn).mockClear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
     fs.rmSync(tmpDir, { recursive: true, force: true });
   });
 
@@ -1218,6 +1978,155 @@ describe("gateway restart scheduling", () => {
     vi.advanceTimersByTime(10000);
     expect(spawn).not.toHaveBeenCalled();
   });
+
+  it("waits for turns in flight and restarts once for several switches", async () => {
+    const { api, handlers } = createMockApi({
+      pluginConfig: { stateFile: statePath, modelOrder: ["provA/m1", "provB/m2", "provC/m3"], restartDelayMs: 500 },
+    });
+    register(api);
+
+    handlers["before_model_resolve"]({}, { sessionKey: "s2" });
+    handlers["agent_end"]({ success: false, error: "429 Too Many Requests" }, { model: "provA/m1", sessionKey: "s1" });
+    handlers["agent_end"]({ success: false, error: "429 Too Many Requests" }, { model: "provB/m2", sessionKey: "s3" });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(spawn).not.toHaveBeenCalled();
+
+    handlers["agent_end"]({ success: true }, { model: "provC/m3", sessionKey: "s2" });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(spawn).toHaveBeenCalledTimes(1);
+  });
+
+  it("records the restart outcome", async () => {
+    vi.mocked(recordEvent).mockClear();
+    vi.mocked(spawn).mockImplementationOnce(
+      () =>
+        ({
+          unref: vi.fn(),
+          once: (event: string, cb: (...args: any[]) => void) => event === "exit" && cb(1, null),
+        }) as any,
+    );
+    const { api, handlers, logs } = createMockApi({
+      pluginConfig: { stateFile: statePath, modelOrder: ["provA/m1", "provB/m2"], restartDelayMs: 500 },
+    });
+    register(api);
+
+    handlers["agent_end"]({ success: false, error: "429 Too Many Requests" }, { model: "provA/m1", sessionKey: "s1" });
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(recordEvent).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ type: "restart_failed", reason: "exit code 1", requests: 1, waitedMs: 500, exitCode: 1 }),
+    );
+    expect(logs.some((l) => l.includes("Gateway restart failed: exit code 1"))).toBe(true);
+  });
+
+  it("restarts once for a bulk re-pin", async () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/m1" }, s2: { model: "provA/m1" }, s3: { model: "provA/m1" } });
+    const { api, handlers } = createMockApi({
+      pluginConfig: { stateFile: statePath, modelOrder: ["provA/m1", "provB/m2"], restartDelayMs: 500, repinOnProviderBlock: true },
+    });
+    register(api);
+
+    handlers["agent_end"]({ success: false, error: "429 Too Many Requests" }, { model: "provA/m1", sessionKey: "s1" });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(spawn).toHaveBeenCalledTimes(1);
+    const sessionsPath = path.join(fakeHome, ".openclaw", "agents", "main", "sessions", "sessions.json");
+    expect(Object.values(JSON.parse(fs.readFileSync(sessionsPath, "utf-8")))).toEqual([
+      { model: "provB/m2" },
+      { model: "provB/m2" },
+      { model: "provB/m2" },
+    ]);
+  });
+});
+
+describe("hot-applying session changes", () => {
+  let tmpDir: string;
+  let statePath: string;
+  let fakeHome: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fo-apply-"));
+    statePath = path.join(tmpDir, "state.json");
+    fakeHome = path.join(tmpDir, "home");
+    fs.mkdirSync(fakeHome, { recursive: true });
+    vi.spyOn(os, "homedir").mockReturnValue(fakeHome);
+    vi.mocked(spawn).mockClear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function setup(sessions: Record<string, any> | undefined, pluginConfig: Record<string, any> = {}) {
+    const mock = createMockApi({
+      pluginConfig: {
+        stateFile: statePath,
+        modelOrder: ["provA/m1", "provB/m2"],
+        restartDelayMs: 500,
+        applyStrategy: "hot",
+        ...pluginConfig,
+      },
+    });
+    if (sessions) mock.api.runtime.sessions = sessions;
+    register(mock.api);
+    return mock;
+  }
+
+  it("updates the live session instead of restarting the gateway", async () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/m1" } });
+    const update = vi.fn(async () => true);
+    const { handlers } = setup({ update });
+
+    handlers["agent_end"]({ success: false, error: "429 Too Many Requests" }, { model: "provA/m1", sessionKey: "s1" });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(update).toHaveBeenCalledWith("s1", { model: "provB/m2" }, { agentId: "main" });
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it("leaves the live session alone with patchSessionPins=false", async () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/m1" } });
+    const update = vi.fn(async () => true);
+    const { handlers } = setup({ update }, { patchSessionPins: false });
+
+    handlers["agent_end"]({ success: false, error: "429 Too Many Requests" }, { model: "provA/m1", sessionKey: "s1" });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(update).not.toHaveBeenCalled();
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it("restarts when the runtime cannot take the change", async () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/m1" } });
+    const { handlers, logs } = setup({ update: vi.fn(async () => false) });
+
+    handlers["agent_end"]({ success: false, error: "429 Too Many Requests" }, { model: "provA/m1", sessionKey: "s1" });
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(spawn).toHaveBeenCalledWith("openclaw", ["gateway", "restart"], expect.anything());
+    expect(logs.some((l) => l.includes("Could not apply the change to session s1 live (runtime declined the change)"))).toBe(true);
+  });
+
+  it("restarts when the runtime has no session API", async () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/m1" } });
+    const { handlers } = setup(undefined);
+
+    handlers["agent_end"]({ success: false, error: "429 Too Many Requests" }, { model: "provA/m1", sessionKey: "s1" });
+    await vi.advanceTimersByTimeAsync(500);
+    expect(spawn).toHaveBeenCalledTimes(1);
+  });
+
+  it("never restarts with restartOnSwitch=false", async () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/m1" } });
+    const { handlers } = setup(undefined, { restartOnSwitch: false });
+
+    handlers["agent_end"]({ success: false, error: "429 Too Many Requests" }, { model: "provA/m1", sessionKey: "s1" });
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(spawn).not.toHaveBeenCalled();
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -1317,3 +2226,523 @@ describe("end-to-end failover cascade", () => {
     expect(result).toBeUndefined();
   });
 });
+
+// ---------------------------------------------------------------------------
+// 20. Fail-back to the preferred model
+// ---------------------------------------------------------------------------
+describe("fail-back", () => {
+  const models = ["alpha/m1", "beta/m1", "gamma/m1"];
+  let tmpDir: string;
+  let statePath: string;
+  let fakeHome: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fo-failback-"));
+    statePath = path.join(tmpDir, "state.json");
+    fakeHome = path.join(tmpDir, "home");
+    fs.mkdirSync(fakeHome, { recursive: true });
+    vi.spyOn(os, "homedir").mockReturnValue(fakeHome);
+    vi.mocked(spawn).mockClear();
+    vi.mocked(recordEvent).mockClear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function setup(pluginConfig: Record<string, any> = {}) {
+    return createMockApi({
+      pluginConfig: { stateFile: statePath, modelOrder: models, restartOnSwitch: false, failbackEnabled: true, ...pluginConfig },
+    });
+  }
+
+  function pinnedModel(sessionKey: string): string {
+    const file = path.join(fakeHome, ".openclaw", "agents", "main", "sessions", "sessions.json");
+    return JSON.parse(fs.readFileSync(file, "utf-8"))[sessionKey].model;
+  }
+
+  function recover(model: string) {
+    const state = loadState(statePath);
+    delete state.limited[model];
+    saveState(statePath, state);
+  }
+
+  it("records failovers only when enabled", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "alpha/m1" } });
+    const { api, handlers } = setup({ failbackEnabled: false });
+    register(api);
+    handlers["agent_end"]({ success: false, error: "rate limit exceeded" }, { model: "alpha/m1", sessionKey: "s1" });
+    expect(loadState(statePath).failovers).toBeUndefined();
+  });
+
+  it("fails back once the primary recovers, then forgets the failover", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "alpha/m1" } });
+    const { api, handlers, logs } = setup();
+    register(api);
+
+    handlers["agent_end"]({ success: false, error: "rate limit exceeded" }, { model: "alpha/m1", sessionKey: "s1" });
+    expect(loadState(statePath).failovers?.s1).toMatchObject({ from: "alpha/m1", to: "beta/m1" });
+    expect(pinnedModel("s1")).toBe("beta/m1");
+
+    // Still limited: stay on the fallback.
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toEqual({ modelOverride: "beta/m1" });
+
+    recover("alpha/m1");
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toEqual({ modelOverride: "alpha/m1" });
+    expect(pinnedModel("s1")).toBe("alpha/m1");
+    expect(loadState(statePath).failovers?.s1).toBeUndefined();
+    expect(logs.some((l) => l.includes("alpha/m1 is available again. Switched back from beta/m1"))).toBe(true);
+    expect(recordEvent).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ type: "failback", model: "beta/m1", to: "alpha/m1", session: "s1" }),
+    );
+
+    // Later turns stay on the primary.
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toEqual({ modelOverride: "alpha/m1" });
+  });
+
+  it("fails back after a gateway restart from the persisted record", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "beta/m1" } });
+    saveState(statePath, { limited: {}, failovers: { s1: { from: "alpha/m1", to: "beta/m1", at: nowSec() - 60 } } });
+    const { api, handlers } = setup();
+    register(api);
+
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toEqual({ modelOverride: "alpha/m1" });
+    expect(pinnedModel("s1")).toBe("alpha/m1");
+  });
+
+  it("steps back one tier at a time", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "gamma/m1" } });
+    const future = nowSec() + 3600;
+    saveState(statePath, {
+      limited: { "alpha/m1": { lastHitAt: nowSec(), nextAvailableAt: future } },
+      failovers: { s1: { from: "alpha/m1", to: "gamma/m1", at: nowSec() - 60 } },
+    });
+    const { api, handlers } = setup();
+    register(api);
+
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toEqual({ modelOverride: "beta/m1" });
+    expect(loadState(statePath).failovers?.s1).toMatchObject({ from: "alpha/m1", to: "beta/m1" });
+  });
+
+  it("keeps the original model across a chain of failovers", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "alpha/m1" } });
+    const { api, handlers } = setup();
+    register(api);
+
+    handlers["agent_end"]({ success: false, error: "rate limit exceeded" }, { model: "alpha/m1", sessionKey: "s1" });
+    handlers["agent_end"]({ success: false, error: "rate limit exceeded" }, { model: "beta/m1", sessionKey: "s1" });
+    expect(loadState(statePath).failovers?.s1).toMatchObject({ from: "alpha/m1", to: "gamma/m1" });
+  });
+
+  it("waits for failbackAfterTurns turns on the fallback", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "beta/m1" } });
+    saveState(statePath, { limited: {}, failovers: { s1: { from: "alpha/m1", to: "beta/m1", at: nowSec() - 60 } } });
+    const { api, handlers } = setup({ failbackAfterTurns: 2 });
+    register(api);
+
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toBeUndefined();
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toBeUndefined();
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toEqual({ modelOverride: "alpha/m1" });
+  });
+
+  it("only fails back at a conversation boundary when failbackAtBoundary is set", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "beta/m1" } });
+    saveState(statePath, { limited: {}, failovers: { s1: { from: "alpha/m1", to: "beta/m1", at: nowSec() - 60 } } });
+    const { api, handlers } = setup({ failbackAtBoundary: true });
+    register(api);
+
+    const midConversation = { messages: [{ role: "user" }, { role: "assistant" }, { role: "user" }] };
+    expect(handlers["before_model_resolve"](midConversation, { sessionKey: "s1" })).toBeUndefined();
+    expect(handlers["before_model_resolve"]({ messages: [{ role: "user" }] }, { sessionKey: "s1" })).toEqual({
+      modelOverride: "alpha/m1",
+    });
+  });
+
+  it("leaves sessions alone that were moved elsewhere since the failover", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "gamma/m1" } });
+    saveState(statePath, { limited: {}, failovers: { s1: { from: "alpha/m1", to: "beta/m1", at: nowSec() - 60 } } });
+    const { api, handlers } = setup();
+    register(api);
+
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toBeUndefined();
+    expect(pinnedModel("s1")).toBe("gamma/m1");
+    expect(loadState(statePath).failovers?.s1).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 21. Credential rotation
+// ---------------------------------------------------------------------------
+describe("credential rotation", () => {
+  const models = ["provA/m1", "provA/m2", "provB/m1"];
+  let tmpDir: string;
+  let statePath: string;
+  let fakeHome: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fo-credentials-"));
+    statePath = path.join(tmpDir, "state.json");
+    fakeHome = path.join(tmpDir, "home");
+    fs.mkdirSync(fakeHome, { recursive: true });
+    vi.spyOn(os, "homedir").mockReturnValue(fakeHome);
+    vi.mocked(spawn).mockClear();
+    vi.mocked(recordEvent).mockClear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function setup(pluginConfig: Record<string, any> = {}, gatewayConfig?: any) {
+    return createMockApi({
+      pluginConfig: {
+        stateFile: statePath,
+        modelOrder: models,
+        restartOnSwitch: false,
+        credentialRotation: true,
+        credentialProfiles: { provA: ["k1", "k2"] },
+        ...pluginConfig,
+      },
+      gatewayConfig,
+    });
+  }
+
+  function sessionEntry(sessionKey: string): any {
+    const file = path.join(fakeHome, ".openclaw", "agents", "main", "sessions", "sessions.json");
+    return JSON.parse(fs.readFileSync(file, "utf-8"))[sessionKey];
+  }
+
+  it("switches to the next key instead of blocking the provider", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/m1" } });
+    const { api, handlers, logs } = setup();
+    register(api);
+
+    handlers["agent_end"]({ success: false, error: "rate limit exceeded" }, { model: "provA/m1", sessionKey: "s1" });
+
+    const state = loadState(statePath);
+    expect(state.credentials?.["provA@k1"]).toMatchObject({ scope: "account", strikes: 1 });
+    expect(state.limited["provA/m1"]).toBeUndefined();
+    expect(sessionEntry("s1")).toEqual({ model: "provA/m1", authProfileOverride: "provA:k2" });
+    expect(logs.some((l) => l.includes("Key provA@k1 limited. Switched future turns to key provA@k2"))).toBe(true);
+    expect(recordEvent).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ type: "key_rotation", profile: "provA@k1", toProfile: "provA@k2", session: "s1" }),
+    );
+  });
+
+  it("routes turns away from a limited key in before_model_resolve", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/m1", authProfileOverride: "provA:k1" } });
+    saveState(statePath, {
+      limited: {},
+      credentials: { "provA@k1": { lastHitAt: nowSec(), nextAvailableAt: nowSec() + 600 } },
+    });
+    const { api, handlers } = setup();
+    register(api);
+
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toEqual({ authProfileOverride: "provA:k2" });
+  });
+
+  it("fails over to another model once every key is limited", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/m1", authProfileOverride: "provA:k2" } });
+    saveState(statePath, {
+      limited: {},
+      credentials: { "provA@k1": { lastHitAt: nowSec(), nextAvailableAt: nowSec() + 600 } },
+    });
+    const { api, handlers } = setup();
+    register(api);
+
+    handlers["agent_end"]({ success: false, error: "rate limit exceeded" }, { model: "provA/m1", sessionKey: "s1" });
+
+    const state = loadState(statePath);
+    expect(state.credentials?.["provA@k2"]).toBeDefined();
+    expect(state.limited["provA/m1"]).toBeDefined();
+    expect(state.limited["provA/m2"]).toBeDefined();
+    expect(sessionEntry("s1").model).toBe("provB/m1");
+  });
+
+  it("reads the keys from the gateway's auth profiles", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/m1" } });
+    const gatewayConfig = { auth: { profiles: { "provA:main": {}, "provA:backup": {} } } };
+    const { api, handlers } = setup({ credentialProfiles: undefined }, gatewayConfig);
+    register(api);
+
+    handlers["agent_end"]({ success: false, error: "rate limit exceeded" }, { model: "provA/m1", sessionKey: "s1" });
+    expect(sessionEntry("s1").authProfileOverride).toBe("provA:backup");
+  });
+
+  it("builds the keys once and again only when the gateway config changes", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provB/m1" }, s2: { model: "provB/m1" } });
+    const { api, handlers, logs } = setup(
+      { credentialProfiles: { provA: ["k1", "k2"], provC: [] }, gatewayConfigCacheSeconds: 0 },
+      { auth: { profiles: { "provB:main": {}, "provB:backup": {} } } },
+    );
+    register(api);
+    const rateLimit = (sessionKey: string) =>
+      handlers["agent_end"]({ success: false, error: "rate limit exceeded" }, { model: "provB/m1", sessionKey });
+
+    rateLimit("s1");
+    expect(sessionEntry("s1").authProfileOverride).toBe("provB:backup");
+    api.runtime.config.loadConfig.mockReturnValue({ auth: { profiles: { "provB:one": {}, "provB:two": {} } } });
+    rateLimit("s2");
+    expect(sessionEntry("s2").authProfileOverride).toBe("provB:two");
+    expect(logs.filter((l) => l.includes("Ignoring credential profiles: provC"))).toHaveLength(1);
+  });
+
+  it("leaves keys alone when credentialRotation is off", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/m1" } });
+    const { api, handlers } = setup({ credentialRotation: false });
+    register(api);
+
+    handlers["agent_end"]({ success: false, error: "rate limit exceeded" }, { model: "provA/m1", sessionKey: "s1" });
+    expect(loadState(statePath).credentials).toBeUndefined();
+    expect(sessionEntry("s1")).toEqual({ model: "provB/m1" });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 22. Usage budgets
+// ---------------------------------------------------------------------------
+describe("usage budgets", () => {
+  const models = ["provA/m1", "provB/m1"];
+  let tmpDir: string;
+  let statePath: string;
+  let fakeHome: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fo-budgets-"));
+    statePath = path.join(tmpDir, "state.json");
+    fakeHome = path.join(tmpDir, "home");
+    fs.mkdirSync(fakeHome, { recursive: true });
+    vi.spyOn(os, "homedir").mockReturnValue(fakeHome);
+    vi.mocked(spawn).mockClear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function setup(budgets: Record<string, any>) {
+    return createMockApi({
+      pluginConfig: { stateFile: statePath, modelOrder: models, restartOnSwitch: false, budgets },
+    });
+  }
+
+  it("counts turns only for models with a budget", () => {
+    const { api, handlers } = setup({ provA: { tokensPerDay: 1000 } });
+    register(api);
+
+    handlers["agent_end"]({ success: true, usage: { input: 100, output: 20 } }, { model: "provA/m1" });
+    handlers["agent_end"]({ success: true, usage: { input: 100, output: 20 } }, { model: "provB/m1" });
+
+    const usage = loadState(statePath).usage;
+    expect(Object.keys(usage ?? {})).toEqual(["provA"]);
+    expect(usage?.provA).toMatchObject({ requests: 1, tokens: 120 });
+  });
+
+  it("routes away from a model once its budget is used up, without touching the pin", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/m1" } });
+    const { api, handlers, logs } = setup({ "provA/m1": { tokensPerDay: 1000 } });
+    register(api);
+
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toBeUndefined();
+    handlers["agent_end"]({ success: true, usage: { input: 900, output: 200 } }, { model: "provA/m1", sessionKey: "s1" });
+    expect(logs.some((l) => l.includes("provA/m1 used its tokensPerDay budget (1100/1000)"))).toBe(true);
+
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toEqual({ modelOverride: "provB/m1" });
+    const file = path.join(fakeHome, ".openclaw", "agents", "main", "sessions", "sessions.json");
+    expect(JSON.parse(fs.readFileSync(file, "utf-8")).s1.model).toBe("provA/m1");
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it("applies a provider budget to all of its models and counts failed turns as requests", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/m1" } });
+    const { api, handlers } = setup({ provA: { requestsPerMinute: 1 } });
+    register(api);
+
+    handlers["agent_end"]({ success: false, error: "connection reset" }, { model: "provA/m1", sessionKey: "s1" });
+    expect(loadState(statePath).limited["provA/m1"]).toBeUndefined();
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toEqual({ modelOverride: "provB/m1" });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 23. Cost-aware routing
+// ---------------------------------------------------------------------------
+describe("cost-aware routing", () => {
+  const models = ["cheap/m1", ["mid/m1", "pricey/m1"], "research/m1"];
+  const modelPrices = {
+    "cheap/m1": { input: 0.5, output: 1 },
+    "mid/m1": { input: 3, output: 15 },
+    "pricey/m1": { input: 15, output: 75 },
+    "research/m1": { input: 0.1, output: 0.2 },
+  };
+  let tmpDir: string;
+  let statePath: string;
+  let fakeHome: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fo-cost-"));
+    statePath = path.join(tmpDir, "state.json");
+    fakeHome = path.join(tmpDir, "home");
+    fs.mkdirSync(fakeHome, { recursive: true });
+    vi.spyOn(os, "homedir").mockReturnValue(fakeHome);
+    vi.mocked(spawn).mockClear();
+    vi.mocked(recordEvent).mockClear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function setup(pluginConfig: Record<string, any> = {}) {
+    return createMockApi({
+      pluginConfig: { stateFile: statePath, modelOrder: models, restartOnSwitch: false, modelPrices, ...pluginConfig },
+    });
+  }
+
+  function failCheap(handlers: Record<string, Function>) {
+    handlers["agent_end"]({ success: false, error: "rate limit exceeded" }, { model: "cheap/m1", sessionKey: "s1" });
+  }
+
+  it("fails over to the cheapest model within the minimum tier", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "cheap/m1" } });
+    const { api, handlers } = setup({ routingPolicy: "cheapest", costRoutingMinTier: 2 });
+    register(api);
+
+    failCheap(handlers);
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toEqual({ modelOverride: "mid/m1" });
+  });
+
+  it("considers every tier by default", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "cheap/m1" } });
+    const { api, handlers } = setup({ routingPolicy: "cheapest" });
+    register(api);
+
+    failCheap(handlers);
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toEqual({ modelOverride: "research/m1" });
+  });
+
+  it("keeps the plain order by default and records cost estimates", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "cheap/m1" } });
+    const { api, handlers } = setup({ modelOrder: ["cheap/m1", "pricey/m1", "mid/m1"] });
+    register(api);
+
+    handlers["agent_end"]({ success: true, usage: { input: 1_000_000, output: 0 } }, { model: "cheap/m1", sessionKey: "s1" });
+    failCheap(handlers);
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toEqual({ modelOverride: "pricey/m1" });
+    expect(recordEvent).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ type: "failover", to: "pricey/m1", estCostUsd: 15, estCostDeltaUsd: 14.5 }),
+    );
+  });
+
+  it("warns about an unknown routing policy", () => {
+    const { api, logs } = setup({ routingPolicy: "fastest" });
+    register(api);
+    expect(logs).toContain("[model-failover] Ignoring routingPolicy: must be one of order, cheapest");
+  });
+
+  it("prices turns without a reported cost for dollar budgets", () => {
+    const { api, handlers } = setup({ budgets: { "cheap/m1": { dollarsPerMonth: 100 } } });
+    register(api);
+
+    handlers["agent_end"]({ success: true, usage: { input: 2_000_000, output: 1_000_000 } }, { model: "cheap/m1" });
+    expect(loadState(statePath).usage?.["cheap/m1"]?.dollars).toBeCloseTo(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 24. Chat commands
+// ---------------------------------------------------------------------------
+describe("chat commands", () => {
+  const models = ["provA/m1", "provB/m1", "provC/m1"];
+  let tmpDir: string;
+  let statePath: string;
+  let fakeHome: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fo-cmd-"));
+    statePath = path.join(tmpDir, "state.json");
+    fakeHome = path.join(tmpDir, "home");
+    fs.mkdirSync(fakeHome, { recursive: true });
+    vi.spyOn(os, "homedir").mockReturnValue(fakeHome);
+    vi.mocked(spawn).mockClear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function setup(pluginConfig: Record<string, any> = {}) {
+    const { api, handlers } = createMockApi({
+      pluginConfig: { stateFile: statePath, modelOrder: models, restartOnSwitch: false, failbackEnabled: true, ...pluginConfig },
+    });
+    const commands: Record<string, any> = {};
+    api.registerCommand = vi.fn((command: any) => {
+      commands[command.name] = command;
+    });
+    register(api);
+    const run = (name: string, ctx: Record<string, any> = {}) =>
+      commands[name].handler({ isAuthorizedSender: true, senderId: "u1", ...ctx }).text as string;
+    return { handlers, commands, run };
+  }
+
+  it("registers the commands and renders status and metrics", () => {
+    const { handlers, commands, run } = setup();
+    expect(Object.keys(commands)).toEqual(["failover-status", "failover-clear", "failover-pin"]);
+    expect(commands["failover-clear"].requireAuth).toBe(true);
+
+    handlers["agent_end"]({ success: false, error: "429 Too Many Requests" }, { model: "provA/m1", sessionKey: "s1" });
+    const status = run("failover-status");
+    expect(status).toContain("Active model : provB/m1");
+    expect(status).toContain("[BLOCKED] provA/m1");
+    expect(run("failover-status", { args: "metrics" })).toBe("Total events: 3");
+  });
+
+  it("includes the order overrides in /failover-status", () => {
+    const { handlers, run } = setup({ modelOrderOverrides: { "agent:coder": ["provC/m1", "provA/m1"] } });
+    handlers["agent_end"]({ success: false, error: "429 Too Many Requests" }, { model: "provA/m1", sessionKey: "s1" });
+
+    const status = run("failover-status");
+    expect(status).toContain("Order overrides:");
+    expect(status).toContain("  agent:coder");
+    expect(status).toContain("Active model: provC/m1 (1 of 2 blocked)");
+  });
+
+  it("limits /failover-clear to commandAdmins", () => {
+    const { handlers, run } = setup({ commandAdmins: ["admin"] });
+    handlers["agent_end"]({ success: false, error: "429 Too Many Requests" }, { model: "provA/m1", sessionKey: "s1" });
+
+    expect(run("failover-clear", { args: "provA/m1" })).toContain("Not allowed");
+    expect(loadState(statePath).limited["provA/m1"]).toBeDefined();
+    expect(run("failover-clear", { args: "provA/m1", senderId: "admin" })).toBe("Cleared rate limit for provA/m1.");
+    expect(loadState(statePath).limited["provA/m1"]).toBeUndefined();
+  });
+
+  it("pins the sender's session to a model of its order", () => {
+    writeSessionsJson(fakeHome, { s1: { model: "provA/m1" }, s2: { model: "provA/m1" } });
+    const journalPath = path.join(tmpDir, "pins.jsonl");
+    const { handlers, run } = setup({ pinJournalFile: journalPath });
+    handlers["agent_end"]({ success: false, error: "429 Too Many Requests" }, { model: "provA/m1", sessionKey: "s1" });
+    expect(loadState(statePath).failovers?.s1).toBeDefined();
+
+    expect(run("failover-pin", { sessionKey: "s1" })).toBe("Pinned model: provB/m1\nAllowed: provA/m1, provB/m1, provC/m1");
+    expect(run("failover-pin", { sessionKey: "s1", args: "other/m1" })).toContain("is not in this session's model order");
+    expect(run("failover-pin", { sessionKey: "s1", args: "provA/m1" })).toMatch(/^provA\/m1 is blocked for another/);
+    expect(run("failover-pin", { sessionKey: "s1", args: "provC/m1" })).toBe("Pinned this session to provC/m1.");
+    expect(run("failover-pin", { args: "provC/m1" })).toBe("/failover-pin only works from within a session.");
+
+    const sessionsPath = path.join(fakeHome, ".openclaw", "agents", "main", "sessions", "sessions.json");
+    expect(JSON.parse(fs.readFileSync(sessionsPath, "utf-8"))).toEqual({ s1: { model: "provC/m1" }, s2: { model: "provA/m1" } });
+    expect(loadPinChanges(journalPath).at(-1)).toMatchObject({ session: "s1", from: "provB/m1", to: "provC/m1", reason: "manual" });
+    // Fail-back no longer owns the session, and the queued failover no longer overrides the pin.
+    expect(loadState(statePath).failovers?.s1).toBeUndefined();
+    expect(handlers["before_model_resolve"]({}, { sessionKey: "s1" })).toBeUndefined();
+  });
+});
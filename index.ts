@@ -1,8 +1,100 @@
 import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
-import { spawn } from "node:child_process";
-import { recordEvent, type MetricEvent, DEFAULT_METRICS_FILE } from "./metrics.js";
+import { randomBytes } from "node:crypto";
+import { type MetricEvent, DEFAULT_METRICS_FILE, formatMetrics, getMetricsSummary } from "./metrics.js";
+import { clearAllModels, clearModel, formatStatus, getFailoverStatus } from "./status.js";
+import { createFailoverCommands } from "./commands.js";
+import {
+  buildClassifierRules,
+  classifyError,
+  primaryCategory,
+  DEFAULT_CLASSIFIER_REGISTRY,
+  type ErrorClassifierRule,
+} from "./classifier.js";
+import { normalizeError, retryHint, type NormalizedError } from "./errors.js";
+import { parseWaitHint, MIN_WAIT_HINT_CONFIDENCE } from "./waittime.js";
+import { httpProbe, runtimeProbe, startProbeScheduler } from "./probe.js";
+import { createRestartCoordinator, spawnGatewayRestart, DEFAULT_RESTART, type RestartEvent } from "./restart.js";
+import { createSessionApplier, runtimeHotApply, APPLY_STRATEGIES, type ApplyStrategy, type SessionPatch } from "./apply.js";
+import { withFileLock, type LockOptions } from "./lock.js";
+import { recordPinChange, DEFAULT_PIN_JOURNAL_FILE } from "./journal.js";
+import { assertWritable, parseState, STATE_VERSION } from "./schema.js";
+import { createStateStore, type StateStore, type StateStoreKind } from "./store.js";
+import { createCachedStateStore, createFileCache, createTtlCache, type Cache } from "./cache.js";
+import {
+  listAgentIds,
+  patchSessionAuthProfile,
+  patchSessionModel,
+  readSessions,
+  repinSessions,
+  resolveAgentId,
+  sessionsPathFor,
+  DEFAULT_SESSIONS_PATH_TEMPLATE,
+} from "./sessions.js";
+import { admitsSession, circuitState, claimTrial, markClosed, releaseTrial, DEFAULT_HALF_OPEN, type HalfOpenOptions } from "./circuit.js";
+import {
+  buildProviderPolicies,
+  findProviderPolicy,
+  policyCooldownSeconds,
+  DEFAULT_PROVIDER_POLICIES,
+  type ProviderPolicy,
+} from "./policies.js";
+import { buildModelOrderOverrides, channelFromContext, findModelOrderOverride } from "./overrides.js";
+import {
+  buildCapabilityCatalog,
+  canServe,
+  capableModels,
+  describeRequirements,
+  inferRequirements,
+  type ModelCapabilities,
+  type SessionRequirements,
+} from "./capabilities.js";
+import {
+  createTierBalancer,
+  formatModelOrder,
+  normalizeTiers,
+  type ModelOrderEntry,
+  type TierBalancing,
+} from "./tiers.js";
+import {
+  createTurnTracker,
+  failbackDue,
+  failbackTarget,
+  tierRank,
+  DEFAULT_FAILBACK,
+  FAILOVER_RECORD_TTL_SEC,
+  type FailbackOptions,
+  type SessionFailover,
+} from "./failback.js";
+import { buildBlockScopes, detectScope, modelsInScope, accountOf, type BlockScope } from "./scope.js";
+import {
+  buildCredentialProfiles,
+  firstAvailableProfile,
+  isProfileLimited,
+  profileForAuthId,
+  type CredentialProfile,
+  type CredentialProfiles,
+} from "./credentials.js";
+import {
+  addUsage,
+  budgetBreach,
+  budgetKeysFor,
+  buildBudgets,
+  usageFromEvent,
+  type Budget,
+  type TurnUsage,
+  type UsageCounters,
+} from "./budget.js";
+import {
+  buildPriceTable,
+  cheapestModel,
+  estimateTurnCost,
+  failoverCostEstimate,
+  ROUTING_POLICIES,
+  type ModelPrice,
+  type RoutingPolicy,
+} from "./pricing.js";
 
 export function expandHome(p: string): string {
   if (!p) return p;
@@ -13,38 +105,142 @@ export function expandHome(p: string): string {
 
 type PluginCfg = {
   enabled?: boolean;
-  modelOrder?: string[];
+  // Model ids in preference order; an array entry is a tier of equivalent models (see tiers.ts).
+  modelOrder?: ModelOrderEntry[];
+  // How turns are spread across the available models of a tier.
+  tierBalancing?: TierBalancing;
+  // tierBalancing=weighted: relative share per model (default 1).
+  modelWeights?: Record<string, number>;
   cooldownMinutes?: number;
   unavailableCooldownMinutes?: number;
   debugLogging?: boolean;
   debugLogSampleRate?: number;
   stateFile?: string;
+  // State backend (see store.ts); stateDatabase is the SQLite path.
+  stateStore?: StateStoreKind;
+  stateDatabase?: string;
+  // If true (default), cache the state file and sessions.json between turns (see cache.ts).
+  stateCache?: boolean;
+  // Seconds to reuse the gateway config between turns (default: 5, 0 = reload every call).
+  gatewayConfigCacheSeconds?: number;
   patchSessionPins?: boolean;
+  // Per-agent sessions.json location; {agentId} is replaced (see sessions.ts).
+  sessionsPathTemplate?: string;
   notifyOnSwitch?: boolean;
   // If true, automatically skip github-copilot/* models unless copilot-proxy is enabled.
   requireCopilotProxyForCopilotModels?: boolean;
   // If true (default), run `openclaw gateway restart` after patching the session model so the
   // gateway picks up the change without waiting for a manual restart.
   restartOnSwitch?: boolean;
+  // How patched sessions reach the running gateway: "restart" (default) or "hot" through the runtime (see apply.ts).
+  applyStrategy?: ApplyStrategy;
   // Delay in milliseconds before issuing the gateway restart (default: 3000).
   // Gives the current turn time to finish before the gateway is restarted.
   restartDelayMs?: number;
+  // Minimum seconds between gateway restarts, across processes sharing the state file (default: 60).
+  restartMinIntervalSeconds?: number;
+  // Longest a restart waits for turns in flight before going ahead anyway (default: 300).
+  restartMaxWaitSeconds?: number;
   // If true (default), record failover events to a JSONL metrics log.
   metricsEnabled?: boolean;
   // Path to the JSONL metrics log file.
   metricsFile?: string;
+  // Path to the JSONL journal of session pin changes, used for rollbacks (see journal.ts).
+  pinJournalFile?: string;
+  // If true, a provider- or account-wide block also re-pins every other session pinned to a blocked model.
+  repinOnProviderBlock?: boolean;
+  // Extra error classifier rules, evaluated before the built-in ones.
+  errorClassifiers?: ErrorClassifierRule[];
+  // If false, only errorClassifiers are used and the built-in rules are dropped.
+  builtinErrorClassifiers?: boolean;
+  // Default block scope per error category, when the error itself does not tell (see scope.ts).
+  blockScopes?: Partial<Record<string, BlockScope>>;
+  // Providers billed to the same account, e.g. { "openai": "openai", "openai-codex": "openai" }.
+  providerAccounts?: Record<string, string>;
+  // Rotate to another API key of the same provider before failing over to another model (see credentials.ts).
+  credentialRotation?: boolean;
+  // Credential profile names per provider, in preference order; defaults to the gateway's auth profiles.
+  credentialProfiles?: Record<string, string[]>;
+  // Usage caps per model id or provider; models past a cap are skipped until its window ends (see budget.ts).
+  budgets?: Record<string, Budget>;
+  // Dollars per 1M input/output tokens per model id (see pricing.ts).
+  modelPrices?: Record<string, ModelPrice>;
+  // How a fallback is chosen: "order" (default) or "cheapest" available model.
+  routingPolicy?: RoutingPolicy;
+  // routingPolicy=cheapest: only the first N tiers of the order qualify (default: all).
+  costRoutingMinTier?: number;
+  // Per-provider reset policies, evaluated before the built-in ones.
+  providerPolicies?: ProviderPolicy[];
+  // Exponential backoff for models that fail repeatedly (see BackoffOptions).
+  backoffMultiplier?: number;
+  backoffMaxMinutes?: number;
+  backoffJitter?: number;
+  backoffDecayMinutes?: number;
+  // Active health probing of blocked models (see probe.ts).
+  probeEnabled?: boolean;
+  probeIntervalMinutes?: number;
+  probeUrl?: string;
+  probeTimeoutSeconds?: number;
+  // Half-open circuit breaker after a cooldown ends (see circuit.ts).
+  halfOpenFraction?: number;
+  halfOpenTrialTimeoutMinutes?: number;
+  // Model orders per agent:<id>, channel:<name> or session:<pattern> (see overrides.ts).
+  modelOrderOverrides?: Record<string, ModelOrderEntry[]>;
+  // What each model can serve; fallbacks skip models lacking what the session needs (see capabilities.ts).
+  modelCapabilities?: Record<string, ModelCapabilities>;
+  // Move failed-over sessions back once a higher-priority model recovers (see failback.ts).
+  failbackEnabled?: boolean;
+  failbackAfterTurns?: number;
+  failbackAtBoundary?: boolean;
+  failbackIdleMinutes?: number;
+  // Sender ids allowed to run /failover-clear; any authorized sender when unset (see commands.ts).
+  commandAdmins?: string[];
+};
+
+export type LimitEntry = {
+  lastHitAt: number;
+  nextAvailableAt: number;
+  reason?: string;
+  // Consecutive failures; drives exponential backoff. Missing on entries written by older versions.
+  strikes?: number;
+  // Half-open circuit: session holding the single trial turn and when it started (see circuit.ts).
+  trialSession?: string;
+  trialStartedAt?: number;
+  // Set once the model proved healthy again; the entry only carries its strikes from then on (see circuit.ts).
+  closedAt?: number;
+  // Which models the error that caused this entry blocked (see scope.ts). Missing on older entries.
+  scope?: BlockScope;
 };
 
 export type LimitState = {
+  // Schema version (see schema.ts); always written by saveState.
+  version?: number;
   // key: model id OR provider id (we keep it simple with model ids)
-  limited: Record<
-    string,
-    {
-      lastHitAt: number;
-      nextAvailableAt: number;
-      reason?: string;
-    }
-  >;
+  limited: Record<string, LimitEntry>;
+  // Sessions moved to a fallback, keyed by session key; only kept with failbackEnabled (see failback.ts).
+  failovers?: Record<string, SessionFailover>;
+  // Limited credential profiles, keyed <provider>@<name> (see credentials.ts).
+  credentials?: Record<string, LimitEntry>;
+  // Usage counters of models and providers with a budget (see budget.ts).
+  usage?: Record<string, UsageCounters>;
+};
+
+export type BackoffOptions = {
+  // Cooldown growth factor per consecutive strike (1 disables backoff).
+  multiplier: number;
+  // Upper bound for a backed-off cooldown; never shortens the base cooldown.
+  maxSec: number;
+  // Random spread applied to backed-off cooldowns, as a fraction (0.2 = +/-20%).
+  jitter: number;
+  // Each full period of healthy use after a cooldown forgives one strike.
+  decaySec: number;
+};
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  multiplier: 2,
+  maxSec: 24 * 3600,
+  jitter: 0.2,
+  decaySec: 3600,
 };
 
 export function nowSec() {
@@ -106,114 +302,123 @@ export function getNextMidnightUTC(): number {
 
 export function parseWaitTime(err: string): number | undefined {
   // Common patterns: "Try again in 4m30s", "after 12:00 UTC", "retry after 60 seconds"
-  const s = err.toLowerCase();
-  
-  // "Try again in Xm Ys"
-  const matchIn = s.match(/in\s+(\d+)(m|s|h)/);
-  if (matchIn) {
-    const val = parseInt(matchIn[1], 10);
-    const unit = matchIn[2];
-    if (unit === 's') return val;
-    if (unit === 'm') return val * 60;
-    if (unit === 'h') return val * 3600;
-  }
-  
-  // "Retry after X seconds"
-  const matchAfter = s.match(/after\s+(\d+)\s+sec/);
-  if (matchAfter) return parseInt(matchAfter[1], 10);
-
-  return undefined;
+  return parseWaitHint(err)?.seconds;
 }
 
-export function calculateCooldown(provider: string, err?: string, defaultMinutes = 60): number {
-  if (!err) return defaultMinutes * 60;
-  
-  // 1. Try to parse specific wait time from error
-  const parsed = parseWaitTime(err);
-  if (parsed) return parsed;
-
-  const text = err.toLowerCase();
-  
-  // 2. Google: "quota" usually means daily limit -> wait for reset
-  if (provider.startsWith("google") && text.includes("quota")) {
-      const reset = getNextMidnightPT();
-      const wait = reset - nowSec();
-      return wait > 0 ? wait : defaultMinutes * 60;
-  }
-
-  // 3. Anthropic: "daily" limit -> wait for UTC midnight
-  if (provider.startsWith("anthropic") && text.includes("daily")) {
-      const reset = getNextMidnightUTC();
-      const wait = reset - nowSec();
-      return wait > 0 ? wait : defaultMinutes * 60;
-  }
-
-  // 4. Default rolling window assumptions
-  // OpenAI often rolling -> 1 hour is a safe retry for short bursts
-  if (provider.startsWith("openai")) return 60 * 60; // 1h
-
+export function calculateCooldown(
+  provider: string,
+  err?: string | NormalizedError,
+  defaultMinutes = 60,
+  policies: ProviderPolicy[] = DEFAULT_PROVIDER_POLICIES,
+): number {
+  const normalized = typeof err === "string" ? normalizeError(err) : err;
+  if (!normalized || (!normalized.text && normalized.status === undefined)) return defaultMinutes * 60;
+
+  // 1. Exact hints (Retry-After, retryDelay, x-ratelimit-reset-*, "try again in 4m30s")
+  //    beat provider heuristics. Vague hints are only used when no policy applies.
+  const hint = retryHint(normalized);
+  if (hint && hint.confidence >= MIN_WAIT_HINT_CONFIDENCE) return hint.seconds;
+
+  // 2. Provider reset policy (e.g. Google quota -> midnight PT, Anthropic daily -> midnight UTC,
+  //    OpenAI rolling -> 1h).
+  const policy = findProviderPolicy(policies, provider, `${normalized.text} ${normalized.code ?? ""}`);
+  if (policy) return policyCooldownSeconds(policy, defaultMinutes);
+
+  if (hint) return hint.seconds;
   return defaultMinutes * 60;
 }
 
+/**
+ * Strike count for a new hit on a model. A hit while the previous cooldown is
+ * still running belongs to the same incident and keeps the count; otherwise it
+ * is one more than before, minus one strike per full decay period of healthy use.
+ */
+export function nextStrikeCount(prev: LimitEntry | undefined, hitAt: number, decaySec: number): number {
+  if (!prev) return 1;
+  const prevStrikes = prev.strikes ?? 1;
+  if (hitAt < prev.nextAvailableAt) return prevStrikes;
+  const healthySec = hitAt - prev.nextAvailableAt;
+  const forgiven = decaySec > 0 ? Math.floor(healthySec / decaySec) : prevStrikes;
+  return Math.max(0, prevStrikes - forgiven) + 1;
+}
+
+/**
+ * Grow the base cooldown exponentially with the strike count. The first strike
+ * uses the base cooldown unchanged (exact provider hints stay exact); later
+ * strikes are jittered and capped, but never drop below the base.
+ */
+export function backoffCooldown(
+  baseSec: number,
+  strikes: number,
+  opts: BackoffOptions = DEFAULT_BACKOFF,
+  random: () => number = Math.random,
+): number {
+  if (strikes <= 1 || opts.multiplier <= 1) return baseSec;
+  const grown = baseSec * Math.pow(opts.multiplier, strikes - 1);
+  const jittered = grown * (1 + opts.jitter * (2 * random() - 1));
+  return Math.round(Math.max(baseSec, Math.min(opts.maxSec, jittered)));
+}
 
 export function isRateLimitLike(err?: string): boolean {
-  if (!err) return false;
-  const s = err.toLowerCase();
-  return (
-    s.includes("rate limit") ||
-    s.includes("quota") ||
-    s.includes("resource_exhausted") ||
-    s.includes("too many requests") ||
-    s.includes("429")
-  );
+  return !!classifyError(DEFAULT_CLASSIFIER_REGISTRY, normalizeError(err)).rate_limit;
 }
 
 export function isAuthOrScopeLike(err?: string): boolean {
-  if (!err) return false;
-  const s = err.toLowerCase();
-  // OpenAI: "Missing scopes: api.responses.write" etc.
-  return (
-    s.includes("http 401") ||
-    s.includes("insufficient permissions") ||
-    s.includes("missing scopes") ||
-    s.includes("api.responses.write") ||
-    s.includes("invalid api key") ||
-    s.includes("unauthorized")
-  );
+  return !!classifyError(DEFAULT_CLASSIFIER_REGISTRY, normalizeError(err)).auth_error;
 }
 
 export function isTemporarilyUnavailableLike(err?: string): boolean {
-  if (!err) return false;
-  const s = err.toLowerCase();
-  return (
-    s.includes("plugin is in cooldown") ||
-    s.includes("in cooldown") ||
-    s.includes("temporarily unavailable") ||
-    s.includes("service unavailable") ||
-    s.includes("copilot-proxy")
-  );
+  return !!classifyError(DEFAULT_CLASSIFIER_REGISTRY, normalizeError(err)).unavailable;
 }
 
-export function loadState(statePath: string): LimitState {
+/**
+ * Move an unreadable state file aside as `<file>.corrupt-<ts>` so it can be
+ * inspected, instead of being overwritten by the next save.
+ */
+export function quarantineFile(filePath: string): string | undefined {
+  const target = `${filePath}.corrupt-${Date.now()}`;
   try {
-    const raw = fs.readFileSync(statePath, "utf-8");
-    const parsed = JSON.parse(raw);
-    if (!parsed || typeof parsed !== "object") throw new Error("bad");
-    if (!parsed.limited) parsed.limited = {};
-    return parsed as LimitState;
+    fs.renameSync(filePath, target);
+    return target;
   } catch {
-    return { limited: {} };
+    // Another process quarantined it first.
+    return undefined;
   }
 }
 
 /**
- * Write a file atomically: write to a .tmp sibling first, then rename
- * over the target. This prevents corruption if the process crashes mid-write.
+ * Read the state file, migrating older schema versions. A missing file is an
+ * empty state; entries that fail validation are dropped and a file that
+ * cannot be parsed is quarantined, both with a warning through `onWarn`
+ * (silent unless the caller passes one, e.g. the plugin logger).
+ */
+export function loadState(statePath: string, onWarn: (message: string) => void = () => {}): LimitState {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(statePath, "utf-8");
+  } catch {
+    return { version: STATE_VERSION, limited: {} };
+  }
+  try {
+    const { state, dropped } = parseState(JSON.parse(raw));
+    for (const problem of dropped) onWarn(`Dropped invalid state entry ${problem} (${statePath})`);
+    return state;
+  } catch (e: any) {
+    const moved = quarantineFile(statePath);
+    if (moved) onWarn(`State file ${statePath} is corrupt (${e?.message ?? String(e)}); moved to ${moved}`);
+    return { version: STATE_VERSION, limited: {} };
+  }
+}
+
+/**
+ * Write a file atomically: write to a uniquely named .tmp sibling first, then
+ * rename over the target. This prevents corruption if the process crashes
+ * mid-write, and concurrent writers never share a temp file.
  * Creates parent directories if they do not exist.
  */
 export function atomicWriteFile(filePath: string, data: string): void {
   fs.mkdirSync(path.dirname(filePath), { recursive: true });
-  const tmpPath = filePath + ".tmp";
+  const tmpPath = `${filePath}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
   try {
     fs.writeFileSync(tmpPath, data);
     fs.renameSync(tmpPath, filePath);
@@ -224,7 +429,29 @@ export function atomicWriteFile(filePath: string, data: string): void {
 }
 
 export function saveState(statePath: string, state: LimitState) {
-  atomicWriteFile(statePath, JSON.stringify(state, null, 2));
+  assertWritable(state.version, statePath);
+  atomicWriteFile(statePath, JSON.stringify({ ...state, version: STATE_VERSION }, null, 2));
+}
+
+/**
+ * Read-modify-write the state file under its cross-process lock. `mutate` may
+ * return false to skip the write. Returns the state as left by `mutate`.
+ */
+export function updateState(
+  statePath: string,
+  mutate: (state: LimitState) => boolean | void,
+  opts?: LockOptions & { onWarn?: (message: string) => void },
+): LimitState {
+  return withFileLock(
+    statePath,
+    () => {
+      const state = loadState(statePath, opts?.onWarn);
+      assertWritable(state.version, statePath);
+      if (mutate(state) !== false) saveState(statePath, state);
+      return state;
+    },
+    opts,
+  );
 }
 
 export function firstAvailableModel(order: string[], state: LimitState): string | undefined {
@@ -237,23 +464,6 @@ export function firstAvailableModel(order: string[], state: LimitState): string
   return order[order.length - 1];
 }
 
-function patchSessionModel(sessionKey: string, model: string, logger: any) {
-  try {
-    const sessionsPath = path.join(os.homedir(), ".openclaw/agents/main/sessions/sessions.json");
-    const raw = fs.readFileSync(sessionsPath, "utf-8");
-    const data = JSON.parse(raw);
-    if (!data[sessionKey]) return false;
-    const prev = data[sessionKey].model;
-    data[sessionKey].model = model;
-    atomicWriteFile(sessionsPath, JSON.stringify(data, null, 0));
-    logger?.info?.(`[model-failover] Patched session ${sessionKey} model: ${prev} -> ${model}`);
-    return true;
-  } catch (e: any) {
-    logger?.warn?.(`[model-failover] Failed to patch sessions.json: ${e?.message ?? String(e)}`);
-    return false;
-  }
-}
-
 function loadGatewayConfig(api: any): any {
   try {
     return api?.runtime?.config?.loadConfig?.() ?? null;
@@ -297,6 +507,11 @@ export const DEFAULT_MODEL_ORDER = [
 
 export const DEFAULT_STATE_FILE = "~/.openclaw/workspace/memory/model-ratelimits.json";
 
+// How long a hook waits for another process's state lock before it skips the write. The wait
+// blocks the gateway's event loop, so it stays short, and shortest for per-turn bookkeeping.
+const HOOK_LOCK_TIMEOUT_MS = 1000;
+const TURN_LOCK_TIMEOUT_MS = 100;
+
 export default function register(api: any) {
   const cfg = (api.pluginConfig ?? {}) as PluginCfg;
   if (cfg.enabled === false) {
@@ -304,9 +519,10 @@ export default function register(api: any) {
     return;
   }
 
-  const modelOrder = (cfg.modelOrder && cfg.modelOrder.length > 0)
+  const modelOrder: ModelOrderEntry[] = (cfg.modelOrder && cfg.modelOrder.length > 0)
     ? cfg.modelOrder
     : DEFAULT_MODEL_ORDER; 
+  const tierBalancer = createTierBalancer({ mode: cfg.tierBalancing, weights: cfg.modelWeights });
 
   const cooldownMinutes = cfg.cooldownMinutes ?? 300;
   const unavailableCooldownMinutes = cfg.unavailableCooldownMinutes ?? 15;
@@ -314,6 +530,7 @@ export default function register(api: any) {
   const debugLogSampleRate = Math.max(0, Math.min(1, Number(cfg.debugLogSampleRate ?? 1)));
   const statePath = expandHome(cfg.stateFile ?? DEFAULT_STATE_FILE);
   const patchPins = cfg.patchSessionPins !== false;
+  const repinOnProviderBlock = cfg.repinOnProviderBlock === true;
   const notifyOnSwitch = cfg.notifyOnSwitch !== false;
 
   const requireCopilotProxy = cfg.requireCopilotProxyForCopilotModels !== false;
@@ -321,52 +538,216 @@ export default function register(api: any) {
   const restartDelayMs = cfg.restartDelayMs ?? 3000;
   const metricsEnabled = cfg.metricsEnabled !== false;
   const metricsPath = expandHome(cfg.metricsFile ?? DEFAULT_METRICS_FILE);
+  const pinJournalPath = expandHome(cfg.pinJournalFile ?? DEFAULT_PIN_JOURNAL_FILE);
   const sessionForcedModel = new Map<string, string>();
+  // Requirements of each session's latest turn, for failovers outside before_model_resolve.
+  const sessionRequirements = new Map<string, SessionRequirements>();
+  const failbackEnabled = cfg.failbackEnabled === true;
+  const failback: FailbackOptions = {
+    afterTurns: Math.max(0, Math.floor(cfg.failbackAfterTurns ?? DEFAULT_FAILBACK.afterTurns)),
+    atBoundary: cfg.failbackAtBoundary ?? DEFAULT_FAILBACK.atBoundary,
+    idleSec: (cfg.failbackIdleMinutes ?? DEFAULT_FAILBACK.idleSec / 60) * 60,
+  };
+  // Turns each failed-over session has taken on its fallback.
+  const fallbackTurns = createTurnTracker();
+  const backoff: BackoffOptions = {
+    multiplier: Math.max(1, cfg.backoffMultiplier ?? DEFAULT_BACKOFF.multiplier),
+    maxSec: (cfg.backoffMaxMinutes ?? DEFAULT_BACKOFF.maxSec / 60) * 60,
+    jitter: Math.max(0, Math.min(1, cfg.backoffJitter ?? DEFAULT_BACKOFF.jitter)),
+    decaySec: (cfg.backoffDecayMinutes ?? DEFAULT_BACKOFF.decaySec / 60) * 60,
+  };
+  const halfOpen: HalfOpenOptions = {
+    fraction: Math.max(0, Math.min(1, cfg.halfOpenFraction ?? DEFAULT_HALF_OPEN.fraction)),
+    trialTimeoutSec: (cfg.halfOpenTrialTimeoutMinutes ?? DEFAULT_HALF_OPEN.trialTimeoutSec / 60) * 60,
+  };
+  const classifier = buildClassifierRules(cfg.errorClassifiers, {
+    includeDefaults: cfg.builtinErrorClassifiers !== false,
+    onInvalid: (message) => api.logger?.warn?.(`[model-failover] Ignoring error classifier: ${message}`),
+  });
+  const providerPolicies = buildProviderPolicies(cfg.providerPolicies, {
+    onInvalid: (message) => api.logger?.warn?.(`[model-failover] Ignoring provider policy: ${message}`),
+  });
+  const blockScopes = buildBlockScopes(cfg.blockScopes, {
+    onInvalid: (message) => api.logger?.warn?.(`[model-failover] Ignoring block scope: ${message}`),
+  });
+  const providerAccounts = cfg.providerAccounts ?? {};
+  const credentialRotation = cfg.credentialRotation === true;
+  // Credential profile each session was moved to, until the gateway reloads sessions.json.
+  const sessionProfiles = new Map<string, string>();
+  const budgets = buildBudgets(cfg.budgets, {
+    onInvalid: (message) => api.logger?.warn?.(`[model-failover] Ignoring budget: ${message}`),
+  });
+  const prices = buildPriceTable(cfg.modelPrices, {
+    onInvalid: (message) => api.logger?.warn?.(`[model-failover] Ignoring model price: ${message}`),
+  });
+  let routingPolicy: RoutingPolicy = "order";
+  if (cfg.routingPolicy !== undefined && !ROUTING_POLICIES.includes(cfg.routingPolicy)) {
+    api.logger?.warn?.(`[model-failover] Ignoring routingPolicy: must be one of ${ROUTING_POLICIES.join(", ")}`);
+  } else if (cfg.routingPolicy) {
+    routingPolicy = cfg.routingPolicy;
+  }
+  const costRoutingMinTier = Math.max(1, Math.floor(cfg.costRoutingMinTier ?? Infinity));
+  // Usage of each session's latest turn, to compare model costs by.
+  const sessionUsage = new Map<string, TurnUsage>();
+  const capabilities = buildCapabilityCatalog(cfg.modelCapabilities, {
+    onInvalid: (message) => api.logger?.warn?.(`[model-failover] Ignoring model capabilities: ${message}`),
+  });
+  const orderOverrides = buildModelOrderOverrides(cfg.modelOrderOverrides, {
+    onInvalid: (message) => api.logger?.warn?.(`[model-failover] Ignoring model order override: ${message}`),
+  });
+
+  function stateWarn(message: string) {
+    api.logger?.warn?.(`[model-failover] ${message}`);
+  }
+
+  const stateCache = cfg.stateCache !== false;
+  const store = stateCache ? createCachedStateStore(openStore()) : openStore();
+
+  function openStore(): StateStore {
+    const fileStore = { statePath, metricsPath, onWarn: stateWarn };
+    try {
+      return createStateStore({ ...fileStore, kind: cfg.stateStore ?? "file", databasePath: cfg.stateDatabase });
+    } catch (e: any) {
+      stateWarn(`Cannot open ${cfg.stateStore} state store (${e?.message ?? String(e)}); using the state file.`);
+      return createStateStore(fileStore);
+    }
+  }
+
+  function readState(): LimitState {
+    return store.load();
+  }
+
+  // A write that cannot get the lock in time is skipped with a warning; the caller goes on with the stored state.
+  function changeState(mutate: (state: LimitState) => boolean | void, lockTimeoutMs = HOOK_LOCK_TIMEOUT_MS): LimitState {
+    try {
+      return store.update(mutate, { lockTimeoutMs });
+    } catch (e: any) {
+      api.logger?.warn?.(`[model-failover] Skipped state update: ${e?.message ?? String(e)}`);
+      return readState();
+    }
+  }
 
   function emitMetric(event: MetricEvent) {
     if (!metricsEnabled) return;
     try {
-      recordEvent(metricsPath, event);
+      store.appendEvent(event);
     } catch (e: any) {
       api.logger?.warn?.(`[model-failover] Failed to write metrics: ${e?.message ?? String(e)}`);
     }
   }
 
-  let restartPending = false;
+  const restarts = createRestartCoordinator({
+    delayMs: restartDelayMs,
+    minIntervalMs: (cfg.restartMinIntervalSeconds ?? DEFAULT_RESTART.minIntervalMs / 1000) * 1000,
+    maxWaitMs: (cfg.restartMaxWaitSeconds ?? DEFAULT_RESTART.maxWaitMs / 1000) * 1000,
+    pollMs: DEFAULT_RESTART.pollMs,
+    turnTimeoutMs: DEFAULT_RESTART.turnTimeoutMs,
+    markerPath: `${statePath}.restart`,
+    run: () => {
+      api.logger?.info?.("[model-failover] Gateway restart issued to apply session model patch.");
+      return spawnGatewayRestart();
+    },
+    onEvent: onRestartEvent,
+  });
+
+  function onRestartEvent(e: RestartEvent) {
+    switch (e.type) {
+      case "deferred":
+        debugLog(`restart deferred reason=${e.reason} in-flight=${e.inFlight ?? 0} requests=${e.requests}`);
+        return;
+      case "coalesced":
+        debugLog(`restart coalesced requests=${e.requests}: another process restarted the gateway`);
+        return;
+      case "failed":
+        api.logger?.warn?.(`[model-failover] Gateway restart failed: ${e.error ?? "unknown error"}`);
+        break;
+    }
+    emitMetric({
+      ts: nowSec(),
+      type: e.type === "restarted" ? "restart" : "restart_failed",
+      model: "",
+      provider: "",
+      ...(e.error ? { reason: e.error } : {}),
+      requests: e.requests,
+      waitedMs: e.waitedMs,
+      exitCode: e.exitCode,
+    });
+  }
+
   function scheduleGatewayRestart() {
-    if (!restartOnSwitch || restartPending) return;
-    restartPending = true;
-    setTimeout(() => {
-      restartPending = false;
-      try {
-        const p = spawn("openclaw", ["gateway", "restart"], { detached: true, stdio: "ignore" });
-        p.unref();
-        api.logger?.info?.("[model-failover] Gateway restart issued to apply session model patch.");
-      } catch (e: any) {
-        api.logger?.warn?.(`[model-failover] Gateway restart failed: ${e?.message ?? String(e)}`);
-      }
-    }, restartDelayMs);
+    if (!restartOnSwitch) return;
+    restarts.request();
+  }
+
+  let applyStrategy: ApplyStrategy = "restart";
+  if (cfg.applyStrategy !== undefined && !APPLY_STRATEGIES.includes(cfg.applyStrategy)) {
+    api.logger?.warn?.(`[model-failover] Ignoring applyStrategy: must be one of ${APPLY_STRATEGIES.join(", ")}`);
+  } else if (cfg.applyStrategy) {
+    applyStrategy = cfg.applyStrategy;
+  }
+  const sessionApplier = createSessionApplier({
+    strategy: applyStrategy,
+    hotApply: runtimeHotApply(api),
+    restart: scheduleGatewayRestart,
+    onApplied: ({ sessionKey, patch }) => debugLog(`session=${sessionKey} hot-applied ${JSON.stringify(patch)}`),
+    onFallback: ({ sessionKey }, reason) =>
+      api.logger?.warn?.(`[model-failover] Could not apply the change to session ${sessionKey} live (${reason}); restarting the gateway.`),
+  });
+
+  // Hand a patched session to the running gateway; without a session or a patch (patchSessionPins off)
+  // only the restart strategy does anything.
+  function applyToSession(ctx: any, patch: SessionPatch | undefined) {
+    const sessionKey = ctx?.sessionKey as string | undefined;
+    sessionApplier.apply(
+      sessionKey && patch ? { sessionKey, agentId: resolveAgentId(ctx, gatewayConfig.get()), patch } : undefined,
+    );
   }
 
+  const gatewayConfig = createTtlCache(
+    () => loadGatewayConfig(api),
+    Math.max(0, cfg.gatewayConfigCacheSeconds ?? 5) * 1000,
+  );
+
   function isCopilotEnabledNow(): boolean {
-    const gatewayCfg = loadGatewayConfig(api);
+    const gatewayCfg = gatewayConfig.get();
     return !requireCopilotProxy || isCopilotProxyEnabled(gatewayCfg);
   }
 
-  function effectiveOrder(): string[] {
-    const gatewayCfg = loadGatewayConfig(api);
-    const copilotEnabled = !requireCopilotProxy || isCopilotProxyEnabled(gatewayCfg);
-
-    // Filter out models that are obviously not usable.
-    const filtered = modelOrder.filter((m) => {
-      if (m.startsWith("github-copilot/") && !copilotEnabled) return false;
-      // Only try models that exist in agents.defaults.models when config is available.
-      if (gatewayCfg && !isModelConfigured(gatewayCfg, m)) return false;
-      return true;
+  // The configured order for the turn: the most specific override, else modelOrder.
+  function configuredOrder(ctx?: any): ModelOrderEntry[] {
+    if (!ctx || orderOverrides.length === 0) return modelOrder;
+    const override = findModelOrderOverride(orderOverrides, {
+      agentId: resolveAgentId(ctx, gatewayConfig.get()),
+      channel: channelFromContext(ctx),
+      sessionKey: ctx.sessionKey,
     });
+    if (override) debugLog(`session=${ctx.sessionKey ?? "n/a"} order-override=${override.key}`);
+    return override?.modelOrder ?? modelOrder;
+  }
+
+  // The turn's order as tiers of equivalent models, without models that are obviously not usable.
+  function effectiveTiers(ctx?: any): string[][] {
+    const gatewayCfg = gatewayConfig.get();
+    const copilotEnabled = !requireCopilotProxy || isCopilotProxyEnabled(gatewayCfg);
+    const tiers = normalizeTiers(configuredOrder(ctx));
+
+    const filtered = tiers
+      .map((tier) =>
+        tier.filter((m) => {
+          if (m.startsWith("github-copilot/") && !copilotEnabled) return false;
+          // Only try models that exist in agents.defaults.models when config is available.
+          if (gatewayCfg && !isModelConfigured(gatewayCfg, m)) return false;
+          return true;
+        }),
+      )
+      .filter((tier) => tier.length > 0);
 
     // If config shape is different and filter removed everything, keep original order as a safe fallback.
-    return filtered.length > 0 ? filtered : modelOrder;
+    return filtered.length > 0 ? filtered : tiers;
+  }
+
+  function effectiveOrder(ctx?: any): string[] {
+    return effectiveTiers(ctx).flat();
   }
 
   function debugLog(message: string) {
@@ -375,40 +756,464 @@ export default function register(api: any) {
     api.logger?.info?.(`[model-failover][debug] ${message}`);
   }
 
+  if (cfg.probeEnabled === true) {
+    const timeoutMs = (cfg.probeTimeoutSeconds ?? 10) * 1000;
+    const probe = cfg.probeUrl ? httpProbe(cfg.probeUrl, timeoutMs) : runtimeProbe(api, timeoutMs);
+    if (probe) {
+      startProbeScheduler({
+        store,
+        probe,
+        intervalSec: (cfg.probeIntervalMinutes ?? 5) * 60,
+        minRemainingSec: 60,
+        onRecovered: ({ model, savedSec }) => {
+          api.logger?.info?.(`[model-failover] Probe succeeded; released ${model} from cooldown ${savedSec}s early.`);
+          emitMetric({ ts: nowSec(), type: "recovered", model, provider: model.split("/")[0] ?? "", savedSec });
+        },
+        onError: (model, e: any) => debugLog(`probe ${model} failed: ${e?.message ?? String(e)}`),
+      });
+    } else {
+      api.logger?.warn?.("[model-failover] probeEnabled is set but neither probeUrl nor a runtime probe is available.");
+    }
+  }
+
+  // Whether a turn of the session may use the model (closed, or half-open and admitted, and within budget).
+  function usableFor(state: LimitState, model: string, sessionKey?: string): boolean {
+    return admitsSession(state.limited[model], sessionKey, halfOpen, nowSec()) && !budgetBreach(state.usage, budgets, model, nowSec());
+  }
+
+  // Estimated cost of a turn on the failover target and the change from the failed model.
+  function failoverCost(from: string, to: string, sessionKey?: string) {
+    return failoverCostEstimate(prices, from, to, sessionKey ? sessionUsage.get(sessionKey) : undefined);
+  }
+
+  // Count a finished turn against the budgets of its model and provider.
+  function recordUsage(model: string, event: any, sessionKey?: string) {
+    const reported = usageFromEvent(event);
+    const estimated = reported?.costUsd === undefined && reported ? estimateTurnCost(prices, model, reported) : undefined;
+    const turn = estimated !== undefined ? { ...reported!, costUsd: estimated } : reported;
+    if (turn && sessionKey) sessionUsage.set(sessionKey, turn);
+
+    const keys = budgetKeysFor(model, budgets);
+    if (keys.length === 0) return;
+    const at = nowSec();
+    let before: ReturnType<typeof budgetBreach>;
+    const state = changeState((state) => {
+      before = budgetBreach(state.usage, budgets, model, at);
+      const usage = (state.usage ??= {});
+      for (const key of keys) usage[key] = addUsage(usage[key], turn, at);
+    }, TURN_LOCK_TIMEOUT_MS);
+    const breach = budgetBreach(state.usage, budgets, model, at);
+    debugLog(`model=${model} usage tokens=${turn?.totalTokens ?? "n/a"} cost=${turn?.costUsd ?? "n/a"}`);
+    if (breach && !before) {
+      api.logger?.info?.(
+        `[model-failover] ${breach.key} used its ${breach.metric} budget (${breach.used}/${breach.limit}); ` +
+          `routing around it until ${new Date(breach.resetsAt * 1000).toISOString()}.`,
+      );
+    }
+  }
+
+  // Like firstAvailableModel, but half-open models only count for admitted sessions,
+  // models that cannot serve the session's requirements are skipped (unless none can),
+  // and turns are balanced across the available models of the first usable tier.
+  function chooseModel(
+    state: LimitState,
+    tiers: string[][],
+    sessionKey?: string,
+    req = sessionKey ? sessionRequirements.get(sessionKey) : undefined,
+  ): string | undefined {
+    const order = tiers.flat();
+    const capable = new Set(capableModels(order, capabilities, req));
+    if (capable.size < order.length) {
+      debugLog(`session=${sessionKey ?? "n/a"} requires=${describeRequirements(req ?? {})} capable=${[...capable].join(",") || "none"}`);
+    }
+    const candidates = capable.size > 0 ? tiers.map((tier) => tier.filter((m) => capable.has(m))) : tiers;
+    if (routingPolicy === "cheapest") {
+      const eligible = candidates.slice(0, costRoutingMinTier).flat().filter((m) => usableFor(state, m, sessionKey));
+      const turn = sessionKey ? sessionUsage.get(sessionKey) : undefined;
+      const cheapest = cheapestModel(eligible, prices, turn);
+      if (cheapest) return cheapest;
+    }
+    for (const tier of candidates) {
+      const available = tier.filter((m) => usableFor(state, m, sessionKey));
+      if (available.length > 0) return tierBalancer.pick(available, tier);
+    }
+    return candidates.flat().at(-1);
+  }
+
+  // Mark the turn as the half-open trial of the model it is routed to.
+  function routeTo(state: LimitState, model: string, sessionKey?: string) {
+    if (circuitState(state.limited[model], nowSec()) !== "half-open" || halfOpen.fraction > 0) return;
+    let claimed = false;
+    changeState((fresh) => {
+      const entry = fresh.limited[model];
+      claimed = admitsSession(entry, sessionKey, halfOpen, nowSec()) && claimTrial(entry, sessionKey, halfOpen, nowSec());
+      return claimed;
+    }, TURN_LOCK_TIMEOUT_MS);
+    if (claimed) debugLog(`session=${sessionKey ?? "n/a"} half-open-trial=${model}`);
+  }
+
+  // Remember a session's failover for fail-back. A chain of failovers keeps the model it started on.
+  function recordFailover(sessionKey: string, from: string, to: string, at: number) {
+    if (!failbackEnabled) return;
+    fallbackTurns.reset(sessionKey);
+    changeState((state) => {
+      const failovers = (state.failovers ??= {});
+      for (const [key, record] of Object.entries(failovers)) {
+        if (record.at < at - FAILOVER_RECORD_TTL_SEC) delete failovers[key];
+      }
+      const prev = failovers[sessionKey];
+      failovers[sessionKey] = { from: prev?.to === from ? prev.from : from, to, at };
+    });
+  }
+
+  function forgetFailover(sessionKey: string) {
+    changeState((state) => {
+      if (!state.failovers?.[sessionKey]) return false;
+      delete state.failovers[sessionKey];
+    });
+  }
+
+  // Tell a session about a switch: a log line, plus a system message when the runtime can queue one.
+  function notifySession(sessionKey: string, text: string) {
+    api.logger?.info?.(`[model-failover] ${text} (sessionKey=${sessionKey}).`);
+    try {
+      api.runtime?.system?.enqueueSystemEvent?.(text, { sessionKey });
+    } catch (e: any) {
+      debugLog(`session=${sessionKey} notify failed: ${e?.message ?? String(e)}`);
+    }
+  }
+
+  // Move a failed-over session back to a higher tier once one is usable and the turn qualifies.
+  // Returns the model to use for the turn, or undefined to carry on as usual.
+  function tryFailback(
+    state: LimitState,
+    tiers: string[][],
+    ctx: any,
+    event: any,
+    req: SessionRequirements,
+    choose: () => string,
+  ): string | undefined {
+    const sessionKey = ctx.sessionKey as string;
+    const record = state.failovers?.[sessionKey];
+    if (!record) return undefined;
+
+    const current = sessionForcedModel.get(sessionKey) ?? getPinnedModel(ctx) ?? record.to;
+    if (current !== record.to) {
+      // Moved by someone else since the failover; nothing to undo.
+      forgetFailover(sessionKey);
+      fallbackTurns.reset(sessionKey);
+      debugLog(`session=${sessionKey} dropped-failover-record to=${record.to} current=${current}`);
+      return undefined;
+    }
+
+    const progress = fallbackTurns.next(sessionKey, nowSec());
+    const better = tiers.slice(0, Math.max(0, tierRank(tiers, current))).flat();
+    if (!better.some((m) => usableFor(state, m, sessionKey) && canServe(capabilities[m], req))) return undefined;
+    const target = failbackTarget(tiers, current, choose());
+    if (!target) return undefined;
+    if (!failbackDue(event, progress, failback)) {
+      debugLog(`session=${sessionKey} failback-pending=${target} turns=${progress.turns}`);
+      return undefined;
+    }
+
+    const at = nowSec();
+    changeState((fresh) => {
+      const rec = fresh.failovers?.[sessionKey];
+      if (!rec) return false;
+      const fromRank = tierRank(tiers, rec.from);
+      // Back on (a peer of) the original model: done. Otherwise keep waiting for the rest of the way.
+      if (fromRank < 0 || fromRank >= tierRank(tiers, target)) delete fresh.failovers![sessionKey];
+      else rec.to = target;
+    });
+    sessionForcedModel.set(sessionKey, target);
+    fallbackTurns.reset(sessionKey);
+
+    emitMetric({
+      ts: at,
+      type: "failback",
+      model: current,
+      provider: current.split("/")[0],
+      to: target,
+      trigger: "before_model_resolve",
+      session: sessionKey,
+    });
+
+    if (patchPins) patchSession(ctx, target, "failback", "before_model_resolve");
+    if (notifyOnSwitch) notifySession(sessionKey, `${target} is available again. Switched back from ${current}`);
+    applyToSession(ctx, patchPins ? { model: target } : undefined);
+    return target;
+  }
+
   const initialCopilotEnabled = isCopilotEnabledNow();
   api.logger?.info?.(
-    `[model-failover] enabled. copilotProxy=${initialCopilotEnabled ? "on" : "off"}. order=${effectiveOrder().join(" -> ")}`
+    `[model-failover] enabled. copilotProxy=${initialCopilotEnabled ? "on" : "off"}. order=${formatModelOrder(effectiveTiers())}`
   );
 
-  function getPinnedModel(sessionKey?: string): string | undefined {
+  const sessionsPathTemplate = cfg.sessionsPathTemplate || DEFAULT_SESSIONS_PATH_TEMPLATE;
+  const sessionCaches = new Map<string, Cache<Record<string, any> | undefined>>();
+
+  // The sessions.json of the agent running the turn, and its read cache.
+  function sessionsFor(ctx: any): { path: string; cache: Cache<Record<string, any> | undefined> } {
+    const sessionsPath = sessionsPathFor(sessionsPathTemplate, resolveAgentId(ctx, gatewayConfig.get()));
+    let cache = sessionCaches.get(sessionsPath);
+    if (!cache) {
+      cache = createFileCache(sessionsPath, () => readSessions(sessionsPath), { watch: stateCache });
+      sessionCaches.set(sessionsPath, cache);
+    }
+    return { path: sessionsPath, cache };
+  }
+
+  function sessionEntry(ctx: any): Record<string, any> | undefined {
+    const sessionKey = ctx?.sessionKey as string | undefined;
     if (!sessionKey) return undefined;
+    const { cache } = sessionsFor(ctx);
+    if (!stateCache) cache.invalidate();
+    return cache.get()?.[sessionKey];
+  }
+
+  function getPinnedModel(ctx: any): string | undefined {
+    return sessionEntry(ctx)?.model;
+  }
+
+  function journalPin(session: string, sessionsPath: string, from: string | undefined, to: string, reason: string, trigger: string) {
     try {
-      const sessionsPath = path.join(os.homedir(), ".openclaw/agents/main/sessions/sessions.json");
-      const raw = fs.readFileSync(sessionsPath, "utf-8");
-      const data = JSON.parse(raw);
-      return data?.[sessionKey]?.model;
-    } catch {
-      return undefined;
+      recordPinChange(pinJournalPath, {
+        ts: nowSec(),
+        session,
+        sessionsPath,
+        ...(from !== undefined ? { from } : {}),
+        to,
+        reason,
+        trigger,
+      });
+    } catch (e: any) {
+      api.logger?.warn?.(`[model-failover] Failed to write the pin journal: ${e?.message ?? String(e)}`);
     }
   }
 
+  // Pin the session to a model and journal the change; `reason` is the error category or "failback".
+  function patchSession(ctx: any, model: string, reason: string, trigger: string) {
+    const { path: sessionsPath, cache } = sessionsFor(ctx);
+    const session = ctx.sessionKey as string;
+    const patched = patchSessionModel(sessionsPath, session, model, api.logger, (from) =>
+      journalPin(session, sessionsPath, from, model, reason, trigger),
+    );
+    cache.invalidate();
+    return patched;
+  }
+
+  // After a provider- or account-wide block, move every other session pinned to a blocked model
+  // instead of letting each fail on its next turn: one write per sessions.json, and the switches
+  // reach the gateway together (the restart coordinator folds them into one restart). The failing
+  // session's own `fallback` goes into the same write; the hook reports and applies it itself.
+  function repinBlockedSessions(ctx: any, state: LimitState, fallback: string | undefined, reason: string, trigger: string, at: number) {
+    const isBlocked = (m: string) => (state.limited[m]?.nextAvailableAt ?? 0) > at;
+    const perAgent = sessionsPathTemplate.includes("{agentId}");
+    const files = new Map<string, string | undefined>([
+      [sessionsFor(ctx).path, perAgent ? resolveAgentId(ctx, gatewayConfig.get()) : undefined],
+    ]);
+    for (const agentId of listAgentIds(sessionsPathTemplate)) {
+      files.set(sessionsPathFor(sessionsPathTemplate, agentId), agentId);
+    }
+
+    const ownPath = sessionsFor(ctx).path;
+    for (const [sessionsPath, agentId] of files) {
+      const own = sessionsPath === ownPath && ctx?.sessionKey && fallback ? { [ctx.sessionKey]: fallback } : {};
+      const repins = repinSessions(
+        sessionsPath,
+        (sessionKey, model) => {
+          if (sessionKey === ctx?.sessionKey || !isBlocked(model)) return undefined;
+          const target = chooseModel(state, effectiveTiers({ sessionKey, agentId }), sessionKey);
+          return target && !isBlocked(target) ? target : undefined;
+        },
+        api.logger,
+        own,
+      );
+      sessionCaches.get(sessionsPath)?.invalidate();
+
+      for (const { sessionKey, from, to } of repins) {
+        if (sessionKey === ctx?.sessionKey && sessionsPath === ownPath) {
+          journalPin(sessionKey, sessionsPath, from, to, reason, trigger);
+          continue;
+        }
+        if (from === undefined) continue;
+        sessionForcedModel.set(sessionKey, to);
+        recordFailover(sessionKey, from, to, at);
+        journalPin(sessionKey, sessionsPath, from, to, reason, trigger);
+        emitMetric({
+          ts: at,
+          type: "failover",
+          model: from,
+          provider: from.split("/")[0],
+          to,
+          reason: "re-pinned after a provider-wide block",
+          ...failoverCost(from, to, sessionKey),
+          trigger,
+          session: sessionKey,
+        });
+        applyToSession({ sessionKey, agentId }, { model: to });
+      }
+    }
+  }
+
+  // Built once, and again only when the cached gateway config is refreshed; invalid entries warn on the first build.
+  let credentialProfiles: { gatewayCfg: unknown; profiles: CredentialProfiles } | undefined;
+  function currentCredentialProfiles(): CredentialProfiles {
+    const gatewayCfg = gatewayConfig.get();
+    if (!credentialProfiles || credentialProfiles.gatewayCfg !== gatewayCfg) {
+      const first = !credentialProfiles;
+      credentialProfiles = {
+        gatewayCfg,
+        profiles: buildCredentialProfiles(cfg.credentialProfiles, gatewayCfg, {
+          onInvalid: (message) => {
+            if (first) api.logger?.warn?.(`[model-failover] Ignoring credential profiles: ${message}`);
+          },
+        }),
+      };
+    }
+    return credentialProfiles.profiles;
+  }
+  if (credentialRotation) currentCredentialProfiles();
+
+  // Credential profiles of the model's provider; empty unless credentialRotation is on.
+  function profilesFor(model: string): CredentialProfile[] {
+    if (!credentialRotation) return [];
+    return currentCredentialProfiles()[model.split("/")[0]] ?? [];
+  }
+
+  // The profile a session's turn runs with: from the hook context, this process, the session store, else the first.
+  function sessionProfile(ctx: any, profiles: CredentialProfile[]): CredentialProfile {
+    const remembered = ctx?.sessionKey ? profiles.find((p) => p.id === sessionProfiles.get(ctx.sessionKey)) : undefined;
+    return (
+      profileForAuthId(profiles, ctx?.authProfileId) ??
+      remembered ??
+      profileForAuthId(profiles, sessionEntry(ctx)?.authProfileOverride) ??
+      profiles[0]
+    );
+  }
+
+  // The key to switch the turn to when the session's key for the model's provider is limited.
+  function credentialFor(ctx: any, model: string): CredentialProfile | undefined {
+    const profiles = profilesFor(model);
+    if (profiles.length < 2) return undefined;
+    const current = sessionProfile(ctx, profiles);
+    const state = readState();
+    if (!isProfileLimited(state, current, nowSec())) return undefined;
+    const next = firstAvailableProfile(profiles, state, nowSec());
+    if (!next) return undefined;
+    if (ctx?.sessionKey) sessionProfiles.set(ctx.sessionKey, next.id);
+    debugLog(`session=${ctx?.sessionKey ?? "n/a"} auth-profile=${next.id} reason=key-limited key=${current.id}`);
+    return next;
+  }
+
+  // Mark the session's key limited and move the session to the next key of the same provider.
+  // Returns false when every key is limited, so the caller blocks models instead.
+  function rotateCredential(
+    ctx: any,
+    model: string,
+    hit: { at: number; type: "rate_limit" | "auth_error"; reason: string; rule?: string; baseCooldownSec: number; trigger: string },
+  ): boolean {
+    const profiles = profilesFor(model);
+    if (profiles.length < 2) return false;
+    const current = sessionProfile(ctx, profiles);
+
+    let strikes = 1;
+    let nextAvail = hit.at + hit.baseCooldownSec;
+    let next: CredentialProfile | undefined;
+    changeState((state) => {
+      const credentials = (state.credentials ??= {});
+      strikes = nextStrikeCount(credentials[current.id], hit.at, backoff.decaySec);
+      nextAvail = hit.at + backoffCooldown(hit.baseCooldownSec, strikes, backoff);
+      credentials[current.id] = { lastHitAt: hit.at, nextAvailableAt: nextAvail, reason: hit.reason.slice(0, 200), strikes, scope: "account" };
+      next = firstAvailableProfile(profiles, state, hit.at);
+    });
+    if (!next) {
+      debugLog(`model=${model} all-keys-limited=${profiles.map((p) => p.id).join(",")}`);
+      return false;
+    }
+
+    const provider = model.split("/")[0];
+    const sessionKey = ctx?.sessionKey as string | undefined;
+    emitMetric({
+      ts: hit.at,
+      type: hit.type,
+      model,
+      provider,
+      reason: hit.reason.slice(0, 200),
+      cooldownSec: nextAvail - hit.at,
+      strikes,
+      rule: hit.rule,
+      scope: "account",
+      profile: current.id,
+      trigger: hit.trigger,
+      session: sessionKey,
+    });
+    emitMetric({
+      ts: hit.at,
+      type: "key_rotation",
+      model,
+      provider,
+      profile: current.id,
+      toProfile: next.id,
+      trigger: hit.trigger,
+      session: sessionKey,
+    });
+
+    if (sessionKey) {
+      sessionProfiles.set(sessionKey, next.id);
+      if (patchPins) {
+        const { path: sessionsPath, cache } = sessionsFor(ctx);
+        patchSessionAuthProfile(sessionsPath, sessionKey, next.authProfileId, api.logger);
+        cache.invalidate();
+      }
+      if (notifyOnSwitch) {
+        api.logger?.warn?.(`[model-failover] Key ${current.id} limited. Switched future turns to key ${next.id} (sessionKey=${sessionKey}).`);
+      }
+    }
+    applyToSession(ctx, patchPins ? { authProfileOverride: next.authProfileId } : undefined);
+    return true;
+  }
+
   // 1) Before model resolve:
   // - default: do NOT override unless the currently pinned model is limited.
   // - optional: forceOverride=true always picks first available in modelOrder.
+  // - with credentialRotation, a limited key of the resulting model's provider is swapped for another.
   api.on("before_model_resolve", (event: any, ctx: any) => {
-    const state = loadState(statePath);
-    const order = effectiveOrder();
-    const chosen = firstAvailableModel(order, state);
-    if (!chosen) return;
+    if (ctx?.sessionKey) restarts.turnStarted(ctx.sessionKey);
+    const result = resolveModel(event, ctx);
+    if (!credentialRotation) return result;
+    const model = result?.modelOverride ?? getPinnedModel(ctx);
+    const profile = model ? credentialFor(ctx, model) : undefined;
+    return profile ? { ...result, authProfileOverride: profile.authProfileId } : result;
+  });
 
-    const forceOverride = (cfg as any).forceOverride === true;
+  function resolveModel(event: any, ctx: any): { modelOverride: string } | undefined {
+    const state = readState();
+    const tiers = effectiveTiers(ctx);
+    const order = tiers.flat();
     const sessionKey = ctx?.sessionKey as string | undefined;
+    const req = inferRequirements(event);
+    if (sessionKey) sessionRequirements.set(sessionKey, req);
+    if (order.length === 0) return;
+    // Chosen on demand, so balanced tiers only advance when a model is actually picked.
+    let picked: string | undefined;
+    const choose = () => (picked ??= chooseModel(state, tiers, sessionKey, req)!);
+
+    if (failbackEnabled && sessionKey) {
+      const target = tryFailback(state, tiers, ctx, event, req, choose);
+      if (target) {
+        routeTo(state, target, sessionKey);
+        debugLog(`session=${sessionKey} override=${target} reason=failback`);
+        return { modelOverride: target };
+      }
+    }
+
+    const forceOverride = (cfg as any).forceOverride === true;
     if (sessionKey) {
       const forced = sessionForcedModel.get(sessionKey);
       if (forced && order.includes(forced)) {
-        const forcedLimit = state.limited[forced];
-        const forcedLimited = !!forcedLimit && forcedLimit.nextAvailableAt > nowSec();
-        if (!forcedLimited) {
+        if (usableFor(state, forced, sessionKey) && canServe(capabilities[forced], req)) {
+          routeTo(state, forced, sessionKey);
           debugLog(`session=${sessionKey} override=${forced} reason=immediate-failover-cache`);
           return { modelOverride: forced };
         }
@@ -417,9 +1222,11 @@ export default function register(api: any) {
       }
     }
 
-    const pinned = getPinnedModel(ctx?.sessionKey);
+    const pinned = getPinnedModel(ctx);
 
     if (forceOverride) {
+      const chosen = choose();
+      routeTo(state, chosen, sessionKey);
       debugLog(`session=${ctx?.sessionKey ?? "n/a"} override=${chosen} reason=forceOverride`);
       return { modelOverride: chosen };
     }
@@ -435,103 +1242,150 @@ export default function register(api: any) {
       !order.includes(pinned) ||
       (pinned.startsWith("github-copilot/") && !copilotEnabled);
 
-    if (pinnedUnavailable && chosen !== pinned) {
+    if (pinnedUnavailable && choose() !== pinned) {
+      const chosen = choose();
+      routeTo(state, chosen, sessionKey);
       debugLog(`session=${ctx?.sessionKey ?? "n/a"} override=${chosen} reason=pinned-unavailable pinned=${pinned}`);
       return { modelOverride: chosen };
     }
 
-    const lim = state.limited[pinned];
-    const isLimited = !!lim && lim.nextAvailableAt > nowSec();
-    if (!isLimited) {
+    if (usableFor(state, pinned, sessionKey)) {
+      routeTo(state, pinned, sessionKey);
       debugLog(`session=${ctx?.sessionKey ?? "n/a"} no-override reason=pinned-available pinned=${pinned}`);
       return;
     }
 
-    // pinned is limited -> switch to next available
+    // pinned is limited, over budget (or half-open without this session's trial) -> switch to next available
+    const chosen = choose();
     if (chosen !== pinned) {
-      debugLog(`session=${ctx?.sessionKey ?? "n/a"} override=${chosen} reason=pinned-limited pinned=${pinned}`);
+      routeTo(state, chosen, sessionKey);
+      const why = budgetBreach(state.usage, budgets, pinned, nowSec()) ? "pinned-over-budget" : "pinned-limited";
+      debugLog(`session=${ctx?.sessionKey ?? "n/a"} override=${chosen} reason=${why} pinned=${pinned}`);
       return { modelOverride: chosen };
     }
 
     debugLog(`session=${ctx?.sessionKey ?? "n/a"} no-override reason=chosen-equals-pinned pinned=${pinned}`);
-  });
+  }
+
+  // A successful turn on a half-open model closes its circuit; the strikes stay.
+  function closeCircuit(model: string) {
+    if (circuitState(readState().limited[model], nowSec()) !== "half-open") return;
+    let closed = false;
+    changeState((state) => {
+      const now = nowSec();
+      closed = circuitState(state.limited[model], now) === "half-open";
+      if (closed) markClosed(state.limited[model], now);
+      return closed;
+    }, TURN_LOCK_TIMEOUT_MS);
+    if (closed) api.logger?.info?.(`[model-failover] ${model} recovered; circuit closed.`);
+  }
 
   // 2) When agent ends with rate limit: mark current model limited + patch session pin.
   api.on("agent_end", (event: any, ctx: any) => {
-    if (event?.success !== false) return;
-    const err = event?.error as string | undefined;
+    if (ctx?.sessionKey) restarts.turnEnded(ctx.sessionKey);
+    const currentModel = ctx?.model || ctx?.modelId || undefined;
+    if (typeof currentModel === "string" && currentModel) recordUsage(currentModel, event, ctx?.sessionKey);
+    if (event?.success !== false) {
+      if (typeof currentModel === "string") closeCircuit(currentModel);
+      return;
+    }
+    const err = normalizeError(event?.error);
 
-    const isRate = isRateLimitLike(err);
-    const isAuth = isAuthOrScopeLike(err);
-    const isUnavailable = isTemporarilyUnavailableLike(err);
-    if (!isRate && !isAuth && !isUnavailable) return;
+    const classification = classifyError(classifier, {
+      ...err,
+      provider: typeof currentModel === "string" ? currentModel.split("/")[0] : undefined,
+    });
+    const isRate = !!classification.rate_limit;
+    const isAuth = !!classification.auth_error;
+    const isUnavailable = !!classification.unavailable;
+    if (!isRate && !isAuth && !isUnavailable) {
+      // Unrelated failure: the trial proved nothing, let another turn try.
+      if (typeof currentModel === "string") {
+        changeState((state) => releaseTrial(state.limited[currentModel], ctx?.sessionKey), TURN_LOCK_TIMEOUT_MS);
+      }
+      return;
+    }
 
-    const currentModel = ctx?.model || ctx?.modelId || undefined;
     if (typeof currentModel !== "string" || currentModel.length === 0) {
       api.logger?.warn?.("[model-failover] Could not determine failed model from context; skipping limitation update.");
       return;
     }
 
-    const state = loadState(statePath);
-
     const hitAt = nowSec();
 
-    const order = effectiveOrder();
+    const tiers = effectiveTiers(ctx);
+    const order = tiers.flat();
     const key = currentModel;
 
-    // Detect provider-wide exhaustion (generic)
     const provider = key.split("/")[0];
+    const errorType = primaryCategory(classification)!;
 
     // Auth/scope errors shouldn't be retried aggressively.
     const defaultCooldownMin = isAuth
       ? Math.max(cooldownMinutes, 12 * 60)
       : (isUnavailable ? unavailableCooldownMinutes : cooldownMinutes);
-    const nextAvail = hitAt + calculateCooldown(provider, err, defaultCooldownMin);
-
-    // If it looks like a provider prefix (no spaces, has slash), assume provider-wide block for rate limits
-    const isProviderWide = isRate && provider.length > 0;
-
-    if (isProviderWide) {
-        // Block ALL models from this provider
-        let blockedCount = 0;
-        for (const m of order) {
-            if (m.startsWith(provider + "/")) {
-                state.limited[m] = {
-                    lastHitAt: hitAt,
-                    nextAvailableAt: nextAvail,
-                    reason: `Provider ${provider} exhausted: ${err?.slice(0, 100)}`
-                };
-                blockedCount++;
-            }
-        }
-        api.logger?.warn?.(`[model-failover] Provider '${provider}' exhausted. Blocked ${blockedCount} models.`);
-    } else {
-        // Block just this model (fallback)
-        state.limited[key] = {
-            lastHitAt: hitAt,
-            nextAvailableAt: nextAvail,
-            reason: err?.slice(0, 200),
-        };
+    const baseCooldownSec = calculateCooldown(provider, err, defaultCooldownMin, providerPolicies);
+
+    // Another key of the same provider may still have quota.
+    if (
+      errorType !== "unavailable" &&
+      rotateCredential(ctx, key, {
+        at: hitAt,
+        type: errorType,
+        reason: err.text,
+        rule: classification[errorType]?.id,
+        baseCooldownSec,
+        trigger: "agent_end",
+      })
+    ) {
+      return;
+    }
+
+    // Block the failing model, its provider or its account, depending on what the error says.
+    const { scope, source: scopeSource } = detectScope(err, {
+      model: key,
+      category: errorType,
+      rule: classification[errorType],
+      defaults: blockScopes,
+    });
+    const blocked = modelsInScope(order, key, scope, providerAccounts);
+    debugLog(`model=${key} scope=${scope} source=${scopeSource} blocked=${blocked.join(",")}`);
+    const reason =
+      scope === "provider" ? `Provider ${provider} exhausted: ${err.text.slice(0, 100)}`
+        : scope === "account" ? `Account ${accountOf(provider, providerAccounts)} exhausted: ${err.text.slice(0, 100)}`
+          : err.text.slice(0, 200);
+
+    let strikes = 1;
+    let nextAvail = hitAt + baseCooldownSec;
+    const state = changeState((state) => {
+      strikes = nextStrikeCount(state.limited[key], hitAt, backoff.decaySec);
+      nextAvail = hitAt + backoffCooldown(baseCooldownSec, strikes, backoff);
+      for (const m of blocked) {
+        state.limited[m] = { lastHitAt: hitAt, nextAvailableAt: nextAvail, reason, strikes, scope };
+      }
+    });
+    if (scope !== "model") {
+      const label = scope === "provider" ? `Provider '${provider}'` : `Account '${accountOf(provider, providerAccounts)}'`;
+      api.logger?.warn?.(`[model-failover] ${label} exhausted. Blocked ${blocked.length} models.`);
     }
-    
-    saveState(statePath, state);
 
     const cooldownSec = nextAvail - hitAt;
-    const errorType: "rate_limit" | "auth_error" | "unavailable" =
-      isAuth ? "auth_error" : (isUnavailable ? "unavailable" : "rate_limit");
 
     emitMetric({
       ts: hitAt,
       type: errorType,
       model: key,
       provider,
-      reason: err?.slice(0, 200),
+      reason: err.text.slice(0, 200),
       cooldownSec,
+      strikes,
+      rule: classification[errorType]?.id,
+      scope,
       trigger: "agent_end",
       session: ctx?.sessionKey,
     });
 
-    const fallback = firstAvailableModel(order, state);
+    const fallback = chooseModel(state, tiers, ctx?.sessionKey);
 
     if (ctx?.sessionKey && fallback) {
       sessionForcedModel.set(ctx.sessionKey, fallback);
@@ -539,19 +1393,23 @@ export default function register(api: any) {
     }
 
     if (fallback && fallback !== key) {
+      if (ctx?.sessionKey) recordFailover(ctx.sessionKey, key, fallback, hitAt);
       emitMetric({
         ts: hitAt,
         type: "failover",
         model: key,
         provider,
         to: fallback,
+        ...failoverCost(key, fallback, ctx?.sessionKey),
         trigger: "agent_end",
         session: ctx?.sessionKey,
       });
     }
 
-    if (patchPins && ctx?.sessionKey && fallback) {
-      patchSessionModel(ctx.sessionKey, fallback, api.logger);
+    if (patchPins && repinOnProviderBlock && scope !== "model") {
+      repinBlockedSessions(ctx, state, fallback, errorType, "agent_end", hitAt);
+    } else if (patchPins && ctx?.sessionKey && fallback) {
+      patchSession(ctx, fallback, errorType, "agent_end");
     }
 
     if (notifyOnSwitch && ctx?.sessionKey && fallback) {
@@ -559,19 +1417,13 @@ export default function register(api: any) {
       api.logger?.warn?.(`[model-failover] ${why} detected. Switched future turns to ${fallback} (sessionKey=${ctx.sessionKey}).`);
     }
 
-    scheduleGatewayRestart();
+    applyToSession(ctx, patchPins && fallback ? { model: fallback } : undefined);
   });
 
   // 3) If we ever send the raw rate-limit error to a channel, immediately patch the session.
   api.on("message_sent", (event: any, ctx: any) => {
     const content = (event?.content ?? "") as string;
     if (!content) return;
-    const isRate = isRateLimitLike(content) || content.includes("API rate limit reached");
-    const isUnavailable = isTemporarilyUnavailableLike(content);
-    if (!isRate && !isUnavailable) return;
-
-    const state = loadState(statePath);
-    const order = effectiveOrder();
 
     // Only limit if we can identify the real current model.
     const currentModelRaw = ctx?.model || ctx?.modelId;
@@ -579,34 +1431,57 @@ export default function register(api: any) {
     const currentModel = currentModelRaw;
     const provider = currentModel.split("/")[0];
 
+    const observed = normalizeError(content);
+    const classification = classifyError(classifier, { ...observed, provider });
+    const isRate = !!classification.rate_limit;
+    const isUnavailable = !!classification.unavailable;
+    if (!isRate && !isUnavailable) return;
+
+    const tiers = effectiveTiers(ctx);
+    const order = tiers.flat();
+
     const hitAt = nowSec();
     const defaultCooldown = isUnavailable ? unavailableCooldownMinutes : cooldownMinutes;
-    const nextAvail = hitAt + calculateCooldown(provider, content, defaultCooldown);
-
-    // Provider-wide block (generic) for observed rate-limit messages
-    const isProviderWide = isRate && provider.length > 0;
-    if (isProviderWide) {
-      for (const m of order) {
-        if (m.startsWith(provider + "/")) {
-          state.limited[m] = {
-            lastHitAt: hitAt,
-            nextAvailableAt: nextAvail,
-            reason: `Provider ${provider} exhausted (msg detect)`,
-          };
-        }
-      }
-    } else {
-      state.limited[currentModel] = {
-        lastHitAt: hitAt,
-        nextAvailableAt: nextAvail,
-        reason: "outbound rate limit message observed",
-      };
+    const baseCooldownSec = calculateCooldown(provider, observed, defaultCooldown, providerPolicies);
+
+    const errorType: "rate_limit" | "unavailable" = isUnavailable ? "unavailable" : "rate_limit";
+    if (
+      errorType === "rate_limit" &&
+      rotateCredential(ctx, currentModel, {
+        at: hitAt,
+        type: errorType,
+        reason: content,
+        rule: classification.rate_limit?.id,
+        baseCooldownSec,
+        trigger: "message_sent",
+      })
+    ) {
+      return;
     }
 
-    saveState(statePath, state);
+    const { scope } = detectScope(observed, {
+      model: currentModel,
+      category: errorType,
+      rule: classification[errorType],
+      defaults: blockScopes,
+    });
+    const blocked = modelsInScope(order, currentModel, scope, providerAccounts);
+    const reason =
+      scope === "provider" ? `Provider ${provider} exhausted (msg detect)`
+        : scope === "account" ? `Account ${accountOf(provider, providerAccounts)} exhausted (msg detect)`
+          : "outbound rate limit message observed";
+
+    let strikes = 1;
+    let nextAvail = hitAt + baseCooldownSec;
+    const state = changeState((state) => {
+      strikes = nextStrikeCount(state.limited[currentModel], hitAt, backoff.decaySec);
+      nextAvail = hitAt + backoffCooldown(baseCooldownSec, strikes, backoff);
+      for (const m of blocked) {
+        state.limited[m] = { lastHitAt: hitAt, nextAvailableAt: nextAvail, reason, strikes, scope };
+      }
+    });
 
     const cooldownSec = nextAvail - hitAt;
-    const errorType: "rate_limit" | "unavailable" = isUnavailable ? "unavailable" : "rate_limit";
 
     emitMetric({
       ts: hitAt,
@@ -615,32 +1490,75 @@ export default function register(api: any) {
       provider,
       reason: content.slice(0, 200),
       cooldownSec,
+      strikes,
+      rule: classification[errorType]?.id,
+      scope,
       trigger: "message_sent",
       session: ctx?.sessionKey,
     });
 
-    const fallback = firstAvailableModel(order, state);
+    const fallback = chooseModel(state, tiers, ctx?.sessionKey);
     if (ctx?.sessionKey && fallback) {
       sessionForcedModel.set(ctx.sessionKey, fallback);
       debugLog(`session=${ctx.sessionKey} queued-failover=${fallback} source=message_sent provider=${provider}`);
     }
 
     if (fallback && fallback !== currentModel) {
+      if (ctx?.sessionKey) recordFailover(ctx.sessionKey, currentModel, fallback, hitAt);
       emitMetric({
         ts: hitAt,
         type: "failover",
         model: currentModel,
         provider,
         to: fallback,
+        ...failoverCost(currentModel, fallback, ctx?.sessionKey),
         trigger: "message_sent",
         session: ctx?.sessionKey,
       });
     }
 
-    if (patchPins && ctx?.sessionKey && fallback) {
-      patchSessionModel(ctx.sessionKey, fallback, api.logger);
+    if (patchPins && repinOnProviderBlock && scope !== "model") {
+      repinBlockedSessions(ctx, state, fallback, errorType, "message_sent", hitAt);
+    } else if (patchPins && ctx?.sessionKey && fallback) {
+      patchSession(ctx, fallback, errorType, "message_sent");
     }
 
-    scheduleGatewayRestart();
+    applyToSession(ctx, patchPins && fallback ? { model: fallback } : undefined);
   });
+
+  // /failover-pin: a model the user chose for their session; fail-back must not undo it.
+  function pinSessionByCommand(ctx: any, model: string): boolean {
+    const sessionKey = ctx.sessionKey as string;
+    if (!patchSession(ctx, model, "manual", "command")) return false;
+    sessionForcedModel.delete(sessionKey);
+    changeState((state) => {
+      if (!state.failovers?.[sessionKey]) return false;
+      delete state.failovers[sessionKey];
+    });
+    applyToSession(ctx, { model });
+    return true;
+  }
+
+  // 4) Chat commands (see commands.ts), when the runtime supports them.
+  if (typeof api.registerCommand === "function") {
+    const commands = createFailoverCommands({
+      admins: Array.isArray(cfg.commandAdmins) ? cfg.commandAdmins.map(String) : undefined,
+      status: (ctx) =>
+        formatStatus(
+          getFailoverStatus({ store, modelOrder: configuredOrder(ctx), modelOrderOverrides: cfg.modelOrderOverrides, budgets }),
+        ),
+      metrics: () => formatMetrics(getMetricsSummary({ store })),
+      clear: (model) => clearModel(model, store),
+      clearAll: () => clearAllModels(store),
+      allowedModels: (ctx) => effectiveTiers(ctx).flat(),
+      pinnedModel: (ctx) => getPinnedModel(ctx),
+      blockedFor: (model) => {
+        const at = nowSec();
+        const until = store.load().limited[model]?.nextAvailableAt ?? 0;
+        return until > at ? until - at : undefined;
+      },
+      pin: pinSessionByCommand,
+    });
+    for (const command of commands) api.registerCommand(command);
+  }
 }
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import {
+  recordPinChange,
+  loadPinChanges,
+  firstChanges,
+  listPinnedSessions,
+  knownSessionsPaths,
+  rollbackSessions,
+  formatPinnedSessions,
+  formatRollback,
+  type PinChange,
+} from "./journal.js";
+import { readSessions } from "./sessions.js";
+
+let tmpDir: string;
+let journalPath: string;
+let sessionsPath: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fo-journal-"));
+  journalPath = path.join(tmpDir, "memory", "pins.jsonl");
+  sessionsPath = path.join(tmpDir, "main", "sessions.json");
+  fs.mkdirSync(path.dirname(sessionsPath), { recursive: true });
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function change(overrides: Partial<PinChange>): PinChange {
+  return { ts: 1000, session: "s1", sessionsPath, from: "p/a", to: "p/b", reason: "rate_limit", ...overrides };
+}
+
+// ---------------------------------------------------------------------------
+// 1. Recording and loading
+// ---------------------------------------------------------------------------
+describe("recordPinChange / loadPinChanges", () => {
+  it("appends changes and reads them back, skipping malformed lines", () => {
+    recordPinChange(journalPath, change({}));
+    fs.appendFileSync(journalPath, "not-json\n{}\n");
+    recordPinChange(journalPath, change({ ts: 2000, from: "p/b", to: "p/a", reason: "failback" }));
+
+    expect(loadPinChanges(journalPath)).toEqual([
+      change({}),
+      change({ ts: 2000, from: "p/b", to: "p/a", reason: "failback" }),
+    ]);
+    expect(loadPinChanges(path.join(tmpDir, "missing.jsonl"))).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Queries
+// ---------------------------------------------------------------------------
+describe("queries", () => {
+  let changes: PinChange[];
+  beforeEach(() => {
+    changes = [
+      change({ ts: 1000 }),
+      change({ ts: 2000, from: "p/b", to: "p/c" }),
+      change({ ts: 2500, session: "s2", from: undefined, to: "p/b" }),
+    ];
+  });
+
+  it("finds each session's first change in the window", () => {
+    expect(firstChanges(changes).map((c) => [c.session, c.from])).toEqual([["s1", "p/a"], ["s2", undefined]]);
+    expect(firstChanges(changes, { since: 1500 }).map((c) => [c.session, c.from])).toEqual([["s1", "p/b"], ["s2", undefined]]);
+    expect(firstChanges(changes, { session: "s2" })).toHaveLength(1);
+  });
+
+  it("lists pinned sessions with their history", () => {
+    fs.writeFileSync(sessionsPath, JSON.stringify({ s1: { model: "p/c" }, s2: { model: "p/b" }, s3: {}, s4: { model: "p/a" } }));
+
+    const pinned = listPinnedSessions([sessionsPath], changes);
+    expect(pinned).toEqual([
+      { session: "s1", sessionsPath, model: "p/c", changes: 2, originalModel: "p/a", lastChange: changes[1] },
+      { session: "s2", sessionsPath, model: "p/b", changes: 1, lastChange: changes[2] },
+      { session: "s4", sessionsPath, model: "p/a", changes: 0 },
+    ]);
+    const text = formatPinnedSessions(pinned);
+    expect(text).toContain("Pinned sessions (3):");
+    expect(text).toContain("Original    : p/a");
+    expect(text).toContain("Last change : p/b -> p/c (rate_limit) at 1970-01-01T00:33:20.000Z, 2 changes");
+    expect(formatPinnedSessions([])).toBe("No pinned sessions.");
+  });
+
+  it("looks in the template's files and the ones the journal names", () => {
+    const other = path.join(tmpDir, "elsewhere.json");
+    fs.writeFileSync(sessionsPath, "{}");
+    fs.writeFileSync(other, "{}");
+    const paths = knownSessionsPaths(path.join(tmpDir, "{agentId}", "sessions.json"), [
+      change({ sessionsPath: other }),
+      change({ sessionsPath: path.join(tmpDir, "gone.json") }),
+    ]);
+    expect(paths).toEqual([other, sessionsPath].sort());
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Rollback
+// ---------------------------------------------------------------------------
+describe("rollbackSessions", () => {
+  beforeEach(() => {
+    fs.writeFileSync(sessionsPath, JSON.stringify({ s1: { model: "p/c" }, s2: { model: "p/b" }, s3: { model: "p/a" } }));
+    recordPinChange(journalPath, change({ ts: 1000 }));
+    recordPinChange(journalPath, change({ ts: 2000, from: "p/b", to: "p/c" }));
+    recordPinChange(journalPath, change({ ts: 2500, session: "s2", from: undefined, to: "p/b" }));
+    recordPinChange(journalPath, change({ ts: 2600, session: "s3", from: "p/a", to: "p/b" }));
+    recordPinChange(journalPath, change({ ts: 2700, session: "s3", from: "p/b", to: "p/a", reason: "failback" }));
+  });
+
+  it("restores one session's original model and journals it", () => {
+    const results = rollbackSessions(journalPath, { session: "s1" }, { now: 3000 });
+    expect(results).toEqual([{ session: "s1", sessionsPath, from: "p/c", to: "p/a", ok: true }]);
+    expect(readSessions(sessionsPath)?.s1).toEqual({ model: "p/a" });
+    expect(loadPinChanges(journalPath).at(-1)).toEqual({
+      ts: 3000,
+      session: "s1",
+      sessionsPath,
+      from: "p/c",
+      to: "p/a",
+      reason: "rollback",
+    });
+    expect(formatRollback(results)).toContain("rolled back s1: p/c -> p/a");
+  });
+
+  it("restores every session changed since a time", () => {
+    const results = rollbackSessions(journalPath, { since: 1500 });
+    // s1 goes back to its pin at that time, s2 loses its pin, s3 is already back.
+    expect(results.map((r) => [r.session, r.to])).toEqual([["s1", "p/b"], ["s2", undefined]]);
+    expect(readSessions(sessionsPath)).toEqual({ s1: { model: "p/b" }, s2: {}, s3: { model: "p/a" } });
+    expect(rollbackSessions(journalPath, { since: 1500 })).toEqual([]);
+    expect(formatRollback([])).toBe("Nothing to roll back.");
+  });
+});
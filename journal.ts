@@ -0,0 +1,242 @@
+/**
+ * Session pin journal.
+ *
+ * Every change the plugin makes to a session's model pin in `sessions.json` is
+ * appended to a JSONL journal (`pinJournalFile`): when, which session, the
+ * previous and the new model, and why (the error category of a failover,
+ * "failback", "manual" for /failover-pin or "rollback"). The journal is what
+ * lets a session be rolled back to the model it had before the plugin moved it.
+ *
+ * Standalone CLI usage (see status.ts):
+ *   npx tsx status.ts sessions                            # list pinned sessions
+ *   npx tsx status.ts sessions rollback <session-key>     # restore one session's original model
+ *   npx tsx status.ts sessions rollback --since <time>    # restore every session changed since then
+ *
+ * Programmatic usage:
+ *   import { recordPinChange, loadPinChanges, listPinnedSessions, rollbackSessions } from "./journal.js";
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+
+import { expandHome } from "./index.js";
+import { listSessionsPaths, patchSessionModel, readSessions } from "./sessions.js";
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+export const DEFAULT_PIN_JOURNAL_FILE = "~/.openclaw/workspace/memory/model-failover-pins.jsonl";
+
+export interface PinChange {
+  ts: number;
+  session: string;
+  /** The sessions.json holding the session. */
+  sessionsPath: string;
+  /** Pin before the change; absent when the session had none. */
+  from?: string;
+  /** Pin after the change; absent when the pin was removed. */
+  to?: string;
+  /** Error category of a failover, "failback", "manual" (/failover-pin) or "rollback". */
+  reason: string;
+  /** Hook that made the change. */
+  trigger?: string;
+}
+
+export interface PinnedSession {
+  session: string;
+  sessionsPath: string;
+  model: string;
+  /** Journaled changes of the session's pin. */
+  changes: number;
+  /** The pin before the first journaled change (absent when there was none). */
+  originalModel?: string;
+  lastChange?: PinChange;
+}
+
+export interface RollbackTarget {
+  /** Roll back this session. */
+  session?: string;
+  /** Roll back every session changed at or after this time (epoch seconds). */
+  since?: number;
+}
+
+export interface RollbackResult {
+  session: string;
+  sessionsPath: string;
+  /** Pin before the rollback. */
+  from?: string;
+  /** Restored pin; absent when the session had none. */
+  to?: string;
+  ok: boolean;
+}
+
+// -------------------------------------------------------------------------
+// Recording and loading
+// -------------------------------------------------------------------------
+
+/**
+ * Append a pin change to the journal.
+ * Creates the file and parent directories if they do not exist.
+ */
+export function recordPinChange(journalPath: string, change: PinChange): void {
+  const resolved = expandHome(journalPath);
+  fs.mkdirSync(path.dirname(resolved), { recursive: true });
+  fs.appendFileSync(resolved, JSON.stringify(change) + "\n", "utf-8");
+}
+
+/**
+ * Read all pin changes, oldest first. Returns an empty array if the journal
+ * does not exist; malformed lines are skipped.
+ */
+export function loadPinChanges(journalPath: string): PinChange[] {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(expandHome(journalPath), "utf-8");
+  } catch {
+    return [];
+  }
+  const changes: PinChange[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const change = JSON.parse(line);
+      if (typeof change?.session === "string" && typeof change?.sessionsPath === "string") changes.push(change);
+    } catch {
+      // skip malformed lines
+    }
+  }
+  return changes;
+}
+
+// -------------------------------------------------------------------------
+// Queries
+// -------------------------------------------------------------------------
+
+const entryKey = (sessionsPath: string, session: string) => `${sessionsPath}\n${session}`;
+
+/**
+ * The first change of each session matching the target, i.e. the one whose
+ * `from` is the pin to restore.
+ */
+export function firstChanges(changes: PinChange[], target: RollbackTarget = {}): PinChange[] {
+  const first = new Map<string, PinChange>();
+  for (const change of changes) {
+    if (target.session !== undefined && change.session !== target.session) continue;
+    if (target.since !== undefined && change.ts < target.since) continue;
+    const key = entryKey(change.sessionsPath, change.session);
+    if (!first.has(key)) first.set(key, change);
+  }
+  return [...first.values()];
+}
+
+/**
+ * Sessions with a model pin in the given sessions.json files, with their
+ * journaled history.
+ */
+export function listPinnedSessions(sessionsPaths: string[], changes: PinChange[]): PinnedSession[] {
+  const history = new Map<string, PinChange[]>();
+  for (const change of changes) {
+    const key = entryKey(change.sessionsPath, change.session);
+    history.set(key, [...(history.get(key) ?? []), change]);
+  }
+
+  const pinned: PinnedSession[] = [];
+  for (const sessionsPath of sessionsPaths) {
+    for (const [session, entry] of Object.entries(readSessions(sessionsPath) ?? {})) {
+      if (typeof entry?.model !== "string") continue;
+      const own = history.get(entryKey(sessionsPath, session)) ?? [];
+      pinned.push({
+        session,
+        sessionsPath,
+        model: entry.model,
+        changes: own.length,
+        ...(own[0]?.from !== undefined ? { originalModel: own[0].from } : {}),
+        ...(own.length ? { lastChange: own[own.length - 1] } : {}),
+      });
+    }
+  }
+  return pinned;
+}
+
+/** The sessions.json files to look at: the template's, plus any the journal mentions. */
+export function knownSessionsPaths(template: string, changes: PinChange[]): string[] {
+  const paths = new Set(listSessionsPaths(template));
+  for (const change of changes) {
+    if (fs.existsSync(change.sessionsPath)) paths.add(change.sessionsPath);
+  }
+  return [...paths].sort();
+}
+
+// -------------------------------------------------------------------------
+// Rollback
+// -------------------------------------------------------------------------
+
+/**
+ * Restore the pins sessions had before their first journaled change (within
+ * the target). Sessions already on that pin are left alone; each rollback is
+ * journaled itself.
+ */
+export function rollbackSessions(
+  journalPath: string,
+  target: RollbackTarget,
+  opts: { logger?: any; now?: number } = {},
+): RollbackResult[] {
+  const results: RollbackResult[] = [];
+  for (const first of firstChanges(loadPinChanges(journalPath), target)) {
+    const { session, sessionsPath, from: original } = first;
+    const entry = readSessions(sessionsPath)?.[session];
+    if (!entry) continue;
+    const current = typeof entry.model === "string" ? entry.model : undefined;
+    if (current === original) continue;
+
+    const ok = patchSessionModel(sessionsPath, session, original, opts.logger, (prev) =>
+      recordPinChange(journalPath, {
+        ts: opts.now ?? Math.floor(Date.now() / 1000),
+        session,
+        sessionsPath,
+        ...(prev !== undefined ? { from: prev } : {}),
+        ...(original !== undefined ? { to: original } : {}),
+        reason: "rollback",
+      }),
+    );
+    results.push({
+      session,
+      sessionsPath,
+      ...(current !== undefined ? { from: current } : {}),
+      ...(original !== undefined ? { to: original } : {}),
+      ok,
+    });
+  }
+  return results;
+}
+
+// -------------------------------------------------------------------------
+// Formatting
+// -------------------------------------------------------------------------
+
+export function formatPinnedSessions(sessions: PinnedSession[]): string {
+  if (sessions.length === 0) return "No pinned sessions.";
+  const lines = [`Pinned sessions (${sessions.length}):`];
+  for (const s of sessions) {
+    lines.push(`  ${s.session}`);
+    lines.push(`    Model       : ${s.model}`);
+    if (s.changes > 0) {
+      const last = s.lastChange!;
+      lines.push(`    Original    : ${s.originalModel ?? "(none)"}`);
+      lines.push(
+        `    Last change : ${last.from ?? "(none)"} -> ${last.to ?? "(none)"} (${last.reason}) at ${new Date(last.ts * 1000).toISOString()}, ${s.changes} change${s.changes === 1 ? "" : "s"}`,
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+export function formatRollback(results: RollbackResult[]): string {
+  if (results.length === 0) return "Nothing to roll back.";
+  const lines = results.map(
+    (r) => `  ${r.ok ? "rolled back" : "FAILED     "} ${r.session}: ${r.from ?? "(none)"} -> ${r.to ?? "(none)"}`,
+  );
+  if (results.some((r) => r.ok)) lines.push("", "Restart the gateway (openclaw gateway restart) to apply.");
+  return lines.join("\n");
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { spawn } from "node:child_process";
+import ts from "typescript";
+import { acquireFileLock, withFileLock, lockPathFor } from "./lock.js";
+import { loadState, saveState, updateState } from "./index.js";
+
+let tmpDir: string;
+let statePath: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fo-lock-"));
+  statePath = path.join(tmpDir, "state.json");
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function writeLock(owner: object, ageMs = 0) {
+  const lockPath = lockPathFor(statePath);
+  fs.writeFileSync(lockPath, JSON.stringify(owner));
+  if (ageMs > 0) {
+    const t = new Date(Date.now() - ageMs);
+    fs.utimesSync(lockPath, t, t);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// 1. Acquire / release
+// ---------------------------------------------------------------------------
+describe("acquireFileLock", () => {
+  it("creates the lock file and removes it on release", () => {
+    const release = acquireFileLock(statePath);
+    const owner = JSON.parse(fs.readFileSync(lockPathFor(statePath), "utf-8"));
+    expect(owner.pid).toBe(process.pid);
+    release();
+    expect(fs.existsSync(lockPathFor(statePath))).toBe(false);
+  });
+
+  it("times out while another live process holds the lock", () => {
+    writeLock({ pid: process.ppid, host: os.hostname(), acquiredAt: Date.now() });
+    expect(() => acquireFileLock(statePath, { timeoutMs: 100 })).toThrow(/Timed out/);
+  });
+
+  it("breaks a lock whose owner process is gone", () => {
+    // Far above any real pid_max, so the process cannot exist.
+    writeLock({ pid: 2 ** 30, host: os.hostname(), acquiredAt: Date.now() });
+    const release = acquireFileLock(statePath, { timeoutMs: 100 });
+    release();
+  });
+
+  it("breaks a lock older than staleMs", () => {
+    writeLock({ pid: process.ppid, host: "other-host", acquiredAt: 0 }, 60_000);
+    const release = acquireFileLock(statePath, { timeoutMs: 100, staleMs: 30_000 });
+    release();
+  });
+
+  it("keeps a fresh lock from another host", () => {
+    writeLock({ pid: 2 ** 30, host: "other-host", acquiredAt: Date.now() });
+    expect(() => acquireFileLock(statePath, { timeoutMs: 100 })).toThrow(/Timed out/);
+  });
+});
+
+describe("withFileLock", () => {
+  it("releases the lock when the callback throws", () => {
+    expect(() =>
+      withFileLock(statePath, () => {
+        throw new Error("boom");
+      })
+    ).toThrow("boom");
+    expect(fs.existsSync(lockPathFor(statePath))).toBe(false);
+  });
+
+  it("returns the callback result", () => {
+    expect(withFileLock(statePath, () => 42)).toBe(42);
+  });
+});
+
+describe("updateState", () => {
+  it("saves the mutated state", () => {
+    updateState(statePath, (s) => {
+      s.limited["p/m"] = { lastHitAt: 1, nextAvailableAt: 2 };
+    });
+    expect(loadState(statePath).limited["p/m"]).toEqual({ lastHitAt: 1, nextAvailableAt: 2 });
+  });
+
+  it("skips the write when the callback returns false", () => {
+    saveState(statePath, { limited: {} });
+    const before = fs.statSync(statePath).mtimeMs;
+    updateState(statePath, (s) => {
+      s.limited["p/m"] = { lastHitAt: 1, nextAvailableAt: 2 };
+      return false;
+    });
+    expect(fs.statSync(statePath).mtimeMs).toBe(before);
+    expect(loadState(statePath).limited["p/m"]).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Concurrent writers in child processes
+// ---------------------------------------------------------------------------
+describe("concurrent writers", () => {
+  let buildDir: string;
+
+  // Children run plain Node, so transpile the sources once into a scratch dir.
+  beforeAll(() => {
+    buildDir = fs.mkdtempSync(path.join(os.tmpdir(), "fo-lock-build-"));
+    fs.writeFileSync(path.join(buildDir, "package.json"), '{"type":"module"}');
+    for (const file of fs.readdirSync(__dirname)) {
+      if (!file.endsWith(".ts") || file.endsWith(".test.ts")) continue;
+      const source = fs.readFileSync(path.join(__dirname, file), "utf-8");
+      const { outputText } = ts.transpileModule(source, {
+        compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+      });
+      fs.writeFileSync(path.join(buildDir, file.replace(/\.ts$/, ".js")), outputText);
+    }
+    fs.writeFileSync(
+      path.join(buildDir, "worker.js"),
+      [
+        'import { updateState } from "./index.js";',
+        "const [statePath, id, count] = process.argv.slice(2);",
+        "for (let i = 0; i < Number(count); i++) {",
+        "  updateState(statePath, (s) => {",
+        "    s.limited[`w${id}/m${i}`] = { lastHitAt: i, nextAvailableAt: i + 1 };",
+        "  });",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(buildDir, { recursive: true, force: true });
+  });
+
+  function runWorker(id: number, count: number): Promise<number | null> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(process.execPath, [path.join(buildDir, "worker.js"), statePath, String(id), String(count)], {
+        stdio: ["ignore", "ignore", "inherit"],
+      });
+      child.on("error", reject);
+      child.on("exit", resolve);
+    });
+  }
+
+  it("does not lose updates from parallel read-modify-write cycles", async () => {
+    const workers = 4;
+    const perWorker = 25;
+    const codes = await Promise.all(Array.from({ length: workers }, (_, id) => runWorker(id, perWorker)));
+
+    expect(codes).toEqual(Array(workers).fill(0));
+    expect(Object.keys(loadState(statePath).limited)).toHaveLength(workers * perWorker);
+    // No lock or temp files left behind.
+    expect(fs.readdirSync(tmpDir)).toEqual(["state.json"]);
+  }, 30_000);
+});
@@ -0,0 +1,153 @@
+/**
+ * Advisory cross-process file locks.
+ *
+ * A lock on `file` is the sibling `file.lock`, created exclusively and holding
+ * the owner's pid, host and acquisition time. Gateway workers and the status
+ * CLI take the lock around every read-modify-write of a shared file, so
+ * concurrent updates are serialized instead of overwriting each other.
+ *
+ * A lock is considered stale, and is broken, when its owner process on this
+ * host no longer exists or when it is older than `staleMs`.
+ *
+ * Programmatic usage:
+ *   import { withFileLock } from "./lock.js";
+ *   withFileLock(statePath, () => { ...read, modify, write... });
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+export interface LockOptions {
+  /** Give up after waiting this long for the lock (default 5000). */
+  timeoutMs?: number;
+  /** Break locks older than this, even if the owner looks alive (default 30000). */
+  staleMs?: number;
+  /** Delay between attempts (default 20). */
+  retryMs?: number;
+}
+
+interface LockOwner {
+  pid: number;
+  host: string;
+  acquiredAt: number;
+}
+
+export const DEFAULT_LOCK_TIMEOUT_MS = 5000;
+export const DEFAULT_LOCK_STALE_MS = 30_000;
+
+// -------------------------------------------------------------------------
+// Helpers
+// -------------------------------------------------------------------------
+
+export function lockPathFor(filePath: string): string {
+  return filePath + ".lock";
+}
+
+const sleepCell = new Int32Array(new SharedArrayBuffer(4));
+
+function sleepSync(ms: number) {
+  Atomics.wait(sleepCell, 0, 0, ms);
+}
+
+function processAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e: any) {
+    // EPERM: the process exists but belongs to another user.
+    return e?.code === "EPERM";
+  }
+}
+
+function isStale(lockPath: string, raw: string, staleMs: number): boolean {
+  try {
+    if (Date.now() - fs.statSync(lockPath).mtimeMs > staleMs) return true;
+  } catch {
+    return false;
+  }
+  try {
+    const owner = JSON.parse(raw) as LockOwner;
+    return owner.host === os.hostname() && typeof owner.pid === "number" && !processAlive(owner.pid);
+  } catch {
+    // Half-written lock file; only the age check can break it.
+    return false;
+  }
+}
+
+function tryBreakStale(lockPath: string, staleMs: number) {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(lockPath, "utf-8");
+  } catch {
+    return;
+  }
+  if (!isStale(lockPath, raw, staleMs)) return;
+  // Only remove the lock we judged stale, not one a competitor just re-created.
+  try {
+    if (fs.readFileSync(lockPath, "utf-8") === raw) fs.unlinkSync(lockPath);
+  } catch {}
+}
+
+// -------------------------------------------------------------------------
+// Locking
+// -------------------------------------------------------------------------
+
+/**
+ * Acquire the lock for `filePath`, waiting up to `timeoutMs`. Returns a
+ * function that releases it. Throws if the lock cannot be acquired in time.
+ */
+export function acquireFileLock(filePath: string, opts?: LockOptions): () => void {
+  const lockPath = lockPathFor(filePath);
+  const timeoutMs = opts?.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+  const staleMs = opts?.staleMs ?? DEFAULT_LOCK_STALE_MS;
+  const retryMs = opts?.retryMs ?? 20;
+  const owner: LockOwner = { pid: process.pid, host: os.hostname(), acquiredAt: Date.now() };
+  const deadline = Date.now() + timeoutMs;
+
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockPath, "wx");
+      try {
+        fs.writeSync(fd, JSON.stringify(owner));
+      } finally {
+        fs.closeSync(fd);
+      }
+      break;
+    } catch (e: any) {
+      if (e?.code !== "EEXIST") throw e;
+    }
+    tryBreakStale(lockPath, staleMs);
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out after ${timeoutMs}ms waiting for lock ${lockPath}`);
+    }
+    sleepSync(retryMs);
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    try {
+      fs.unlinkSync(lockPath);
+    } catch {}
+  };
+}
+
+/**
+ * Run `fn` while holding the lock for `filePath`. The lock is released even
+ * when `fn` throws.
+ */
+export function withFileLock<T>(filePath: string, fn: () => T, opts?: LockOptions): T {
+  const release = acquireFileLock(filePath, opts);
+  try {
+    return fn();
+  } finally {
+    release();
+  }
+}
@@ -132,6 +132,7 @@ describe("getMetricsSummary - empty", () => {
     expect(summary.totalAuthErrors).toBe(0);
     expect(summary.totalUnavailable).toBe(0);
     expect(summary.totalFailovers).toBe(0);
+    expect(summary.totalRecoveries).toBe(0);
     expect(summary.since).toBeUndefined();
     expect(Object.keys(summary.models)).toHaveLength(0);
     expect(Object.keys(summary.providers)).toHaveLength(0);
@@ -198,6 +199,72 @@ describe("getMetricsSummary - aggregation", () => {
     expect(summary.models["provB/model2"].timesFailedTo).toBe(1);
   });
 
+  it("counts probe recoveries without adding cooldowns", () => {
+    recordEvent(metricsPath, sampleEvent({ ts: 100, cooldownSec: 3600 }));
+    recordEvent(metricsPath, sampleEvent({ ts: 700, type: "recovered", cooldownSec: undefined, savedSec: 3000 }));
+
+    const summary = getMetricsSummary({ metricsPath });
+    expect(summary.totalRecoveries).toBe(1);
+    expect(summary.models["provA/model1"].recoveries).toBe(1);
+    expect(summary.avgCooldownSec).toBe(3600);
+    expect(formatMetrics(summary)).toContain("Recoveries   : 1");
+  });
+
+  it("counts failbacks for the model sessions returned to", () => {
+    recordEvent(metricsPath, sampleEvent({ ts: 100, type: "failover", cooldownSec: undefined, to: "provB/model2" }));
+    recordEvent(
+      metricsPath,
+      sampleEvent({ ts: 900, type: "failback", model: "provB/model2", provider: "provB", cooldownSec: undefined, to: "provA/model1" }),
+    );
+
+    const summary = getMetricsSummary({ metricsPath });
+    expect(summary.totalFailbacks).toBe(1);
+    expect(summary.models["provA/model1"].failbacks).toBe(1);
+    expect(summary.models["provB/model2"].failbacks).toBe(0);
+    expect(formatMetrics(summary)).toContain("Failbacks    : 1");
+    expect(formatMetrics(summary)).toContain("failed-back=1");
+  });
+
+  it("sums failover cost estimates", () => {
+    recordEvent(
+      metricsPath,
+      sampleEvent({ ts: 100, type: "failover", cooldownSec: undefined, to: "provB/model2", estCostUsd: 0.05, estCostDeltaUsd: 0.03 }),
+    );
+    recordEvent(metricsPath, sampleEvent({ ts: 200, type: "failover", cooldownSec: undefined, to: "provC/model3", estCostUsd: 0.01 }));
+
+    const summary = getMetricsSummary({ metricsPath });
+    expect(summary.estFailoverCostUsd).toBeCloseTo(0.06);
+    expect(summary.estFailoverCostDeltaUsd).toBeCloseTo(0.03);
+    expect(formatMetrics(summary)).toContain("Failover cost: ~$0.0600 for one turn after each failover (+$0.0300 vs the failed models)");
+    expect(formatEvents(loadEvents(metricsPath))).toContain("-> provB/model2 est=$0.0500/turn");
+  });
+
+  it("counts gateway restarts outside the model buckets", () => {
+    const restart = { model: "", provider: "", reason: undefined, cooldownSec: undefined, trigger: undefined };
+    recordEvent(metricsPath, sampleEvent({ ts: 100, type: "restart", ...restart, requests: 3, waitedMs: 4000, exitCode: 0 }));
+    recordEvent(metricsPath, sampleEvent({ ts: 200, type: "restart_failed", ...restart, reason: "exit code 1", requests: 1, waitedMs: 3000, exitCode: 1 }));
+
+    const summary = getMetricsSummary({ metricsPath });
+    expect(summary.totalRestarts).toBe(1);
+    expect(summary.totalRestartFailures).toBe(1);
+    expect(summary.models[""]).toBeUndefined();
+    expect(summary.providers[""]).toBeUndefined();
+    expect(formatMetrics(summary)).toContain("Restarts     : 2 (1 failed)");
+    expect(formatEvents(loadEvents(metricsPath))).toContain("RESTART switches=3 waited=4s\n");
+    expect(formatEvents(loadEvents(metricsPath))).toContain("RESTART_FAILED (exit code 1) switches=1 waited=3s exit=1");
+  });
+
+  it("counts key rotations", () => {
+    recordEvent(
+      metricsPath,
+      sampleEvent({ ts: 100, type: "key_rotation", cooldownSec: undefined, profile: "provA@k1", toProfile: "provA@k2" }),
+    );
+
+    const summary = getMetricsSummary({ metricsPath });
+    expect(summary.totalKeyRotations).toBe(1);
+    expect(formatMetrics(summary)).toContain("Key rotations: 1");
+  });
+
   it("accumulates total cooldown seconds", () => {
     recordEvent(metricsPath, sampleEvent({ ts: 100, cooldownSec: 1000 }));
     recordEvent(metricsPath, sampleEvent({ ts: 200, cooldownSec: 2000 }));
@@ -425,6 +492,11 @@ describe("formatEvents", () => {
     expect(output).toContain("cooldown=3600s");
   });
 
+  it("shows strikes only for repeated failures", () => {
+    expect(formatEvents([sampleEvent({ ts: 1000, strikes: 1 })])).not.toContain("strikes=");
+    expect(formatEvents([sampleEvent({ ts: 1000, strikes: 3 })])).toContain("strikes=3");
+  });
+
   it("formats failover events with target model", () => {
     const events: MetricEvent[] = [
       sampleEvent({
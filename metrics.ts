@@ -10,6 +10,7 @@
  *   npx tsx metrics.ts tail [N]           # show last N events (default 20)
  *   npx tsx metrics.ts history <model>    # show cooldown history for a model
  *   npx tsx metrics.ts reset              # clear all metrics
+ *   npx tsx metrics.ts --db <path>        # read a SQLite state store instead of the log
  *
  * Programmatic usage:
  *   import { recordEvent, loadEvents, getMetricsSummary, getModelHistory, formatMetrics } from "./metrics.js";
@@ -19,12 +20,26 @@ import fs from "node:fs";
 import path from "node:path";
 
 import { expandHome, nowSec } from "./index.js";
+import { createSqliteStateStore, type StateStore } from "./store.js";
+import type { BlockScope } from "./scope.js";
 
 // -------------------------------------------------------------------------
 // Types
 // -------------------------------------------------------------------------
 
-export type MetricEventType = "rate_limit" | "auth_error" | "unavailable" | "failover";
+export type MetricEventType =
+  | "rate_limit"
+  | "auth_error"
+  | "unavailable"
+  | "failover"
+  | "recovered"
+  | "failback"
+  | "key_rotation"
+  | "restart"
+  | "restart_failed";
+
+/** Gateway-wide events; they have no model or provider. */
+const GATEWAY_EVENT_TYPES: readonly MetricEventType[] = ["restart", "restart_failed"];
 
 export interface MetricEvent {
   ts: number;
@@ -33,8 +48,30 @@ export interface MetricEvent {
   provider: string;
   reason?: string;
   cooldownSec?: number;
-  /** For failover events: the model we switched to. */
+  /** For error events: consecutive failures of the model, including this one. */
+  strikes?: number;
+  /** For error events: id of the classifier rule that matched. */
+  rule?: string;
+  /** For error events: which models the error blocked (see scope.ts). */
+  scope?: BlockScope;
+  /** For recovered events: cooldown seconds left when a health probe released the model. */
+  savedSec?: number;
+  /** For failover and failback events: the model we switched to. */
   to?: string;
+  /** For failover events: estimated cost in dollars of one turn on `to` (see pricing.ts). */
+  estCostUsd?: number;
+  /** For failover events: `estCostUsd` minus the same turn on the failed model. */
+  estCostDeltaUsd?: number;
+  /** Credential profile in use (`<provider>@<name>`), when profiles are configured. */
+  profile?: string;
+  /** For key_rotation events: the credential profile we switched to. */
+  toProfile?: string;
+  /** For restart events: switches the restart applied. */
+  requests?: number;
+  /** For restart events: milliseconds the restart waited for turns in flight and the minimum interval. */
+  waitedMs?: number;
+  /** For restart events: exit code of `openclaw gateway restart`. */
+  exitCode?: number | null;
   /** Hook that triggered the event (agent_end | message_sent). */
   trigger?: string;
   session?: string;
@@ -46,6 +83,9 @@ export interface ModelMetrics {
   unavailableErrors: number;
   timesFailedFrom: number;
   timesFailedTo: number;
+  recoveries: number;
+  /** Sessions moved back to this model after it recovered. */
+  failbacks: number;
   lastHitAt?: number;
   totalCooldownSec: number;
   cooldownCount: number;
@@ -69,6 +109,17 @@ export interface MetricsSummary {
   totalAuthErrors: number;
   totalUnavailable: number;
   totalFailovers: number;
+  totalRecoveries: number;
+  totalFailbacks: number;
+  totalKeyRotations: number;
+  /** Gateway restarts that went through. */
+  totalRestarts: number;
+  /** Gateway restarts whose command failed. */
+  totalRestartFailures: number;
+  /** Sum of the failover cost estimates, over failovers to a priced model. */
+  estFailoverCostUsd: number;
+  /** Sum of the cost changes, over failovers between two priced models. */
+  estFailoverCostDeltaUsd: number;
   avgCooldownSec: number;
   recentCooldowns: CooldownEntry[];
   models: Record<string, ModelMetrics>;
@@ -161,6 +212,8 @@ function emptyModelMetrics(): ModelMetrics {
     unavailableErrors: 0,
     timesFailedFrom: 0,
     timesFailedTo: 0,
+    recoveries: 0,
+    failbacks: 0,
     totalCooldownSec: 0,
     cooldownCount: 0,
     avgCooldownSec: 0,
@@ -184,13 +237,14 @@ function emptyProviderMetrics(): ProviderMetrics {
  */
 export function getMetricsSummary(opts?: {
   metricsPath?: string;
+  /** Read events from this store instead of the log at metricsPath. */
+  store?: StateStore;
   since?: number;
   until?: number;
   /** Maximum number of recent cooldown entries to include (default 50). */
   maxRecentCooldowns?: number;
 }): MetricsSummary {
-  const metricsPath = opts?.metricsPath ?? DEFAULT_METRICS_FILE;
-  const allEvents = loadEvents(metricsPath);
+  const allEvents = opts?.store?.loadEvents() ?? loadEvents(opts?.metricsPath ?? DEFAULT_METRICS_FILE);
   const sinceFilter = opts?.since ?? 0;
   const untilFilter = opts?.until ?? Infinity;
 
@@ -208,6 +262,13 @@ export function getMetricsSummary(opts?: {
   let totalAuthErrors = 0;
   let totalUnavailable = 0;
   let totalFailovers = 0;
+  let totalRecoveries = 0;
+  let totalFailbacks = 0;
+  let totalKeyRotations = 0;
+  let totalRestarts = 0;
+  let totalRestartFailures = 0;
+  let estFailoverCostUsd = 0;
+  let estFailoverCostDeltaUsd = 0;
   let totalCooldownSec = 0;
   let totalCooldownCount = 0;
   let earliest: number | undefined;
@@ -215,6 +276,12 @@ export function getMetricsSummary(opts?: {
   for (const e of events) {
     if (earliest === undefined || e.ts < earliest) earliest = e.ts;
 
+    if (GATEWAY_EVENT_TYPES.includes(e.type)) {
+      if (e.type === "restart") totalRestarts++;
+      else totalRestartFailures++;
+      continue;
+    }
+
     // Ensure model and provider buckets exist
     if (!models[e.model]) models[e.model] = emptyModelMetrics();
     if (!providers[e.provider]) providers[e.provider] = emptyProviderMetrics();
@@ -296,6 +363,22 @@ export function getMetricsSummary(opts?: {
           if (!models[e.to]) models[e.to] = emptyModelMetrics();
           models[e.to].timesFailedTo++;
         }
+        estFailoverCostUsd += e.estCostUsd ?? 0;
+        estFailoverCostDeltaUsd += e.estCostDeltaUsd ?? 0;
+        break;
+      case "recovered":
+        totalRecoveries++;
+        m.recoveries++;
+        break;
+      case "key_rotation":
+        totalKeyRotations++;
+        break;
+      case "failback":
+        totalFailbacks++;
+        if (e.to) {
+          if (!models[e.to]) models[e.to] = emptyModelMetrics();
+          models[e.to].failbacks++;
+        }
         break;
     }
   }
@@ -323,6 +406,13 @@ export function getMetricsSummary(opts?: {
     totalAuthErrors,
     totalUnavailable,
     totalFailovers,
+    totalRecoveries,
+    totalFailbacks,
+    totalKeyRotations,
+    totalRestarts,
+    totalRestartFailures,
+    estFailoverCostUsd,
+    estFailoverCostDeltaUsd,
     avgCooldownSec: totalCooldownCount > 0
       ? Math.round(totalCooldownSec / totalCooldownCount)
       : 0,
@@ -344,11 +434,11 @@ export function getMetricsSummary(opts?: {
 export function getModelHistory(opts: {
   model: string;
   metricsPath?: string;
+  store?: StateStore;
   since?: number;
   until?: number;
 }): ModelHistory {
-  const metricsPath = opts.metricsPath ?? DEFAULT_METRICS_FILE;
-  const allEvents = loadEvents(metricsPath);
+  const allEvents = opts.store?.loadEvents() ?? loadEvents(opts.metricsPath ?? DEFAULT_METRICS_FILE);
   const sinceFilter = opts.since ?? 0;
   const untilFilter = opts.until ?? Infinity;
 
@@ -471,13 +561,16 @@ export interface MetricsQueryResult {
  */
 export function queryMetrics(opts?: {
   metricsPath?: string;
+  store?: StateStore;
   since?: number;
   until?: number;
   maxRecentCooldowns?: number;
 }): MetricsQueryResult {
   const metricsPath = opts?.metricsPath ?? DEFAULT_METRICS_FILE;
+  const store = opts?.store;
   const summary = getMetricsSummary({
     metricsPath,
+    store,
     since: opts?.since,
     until: opts?.until,
     maxRecentCooldowns: opts?.maxRecentCooldowns,
@@ -488,6 +581,7 @@ export function queryMetrics(opts?: {
     modelHistories[model] = getModelHistory({
       model,
       metricsPath,
+      store,
       since: opts?.since,
       until: opts?.until,
     });
@@ -501,10 +595,12 @@ export function queryMetrics(opts?: {
 // -------------------------------------------------------------------------
 
 /**
- * Delete the metrics log file. Returns true if the file existed.
+ * Delete the metrics log file, or all events in a store. Returns true if
+ * there was anything to delete.
  */
-export function resetMetrics(metricsPath?: string): boolean {
-  const resolved = expandHome(metricsPath ?? DEFAULT_METRICS_FILE);
+export function resetMetrics(target?: string | StateStore): boolean {
+  if (typeof target === "object") return target.resetEvents();
+  const resolved = expandHome(target ?? DEFAULT_METRICS_FILE);
   try {
     fs.unlinkSync(resolved);
     return true;
@@ -546,6 +642,21 @@ export function formatMetrics(summary: MetricsSummary): string {
   lines.push(`Auth errors  : ${summary.totalAuthErrors}`);
   lines.push(`Unavailable  : ${summary.totalUnavailable}`);
   lines.push(`Failovers    : ${summary.totalFailovers}`);
+  if (summary.totalRecoveries > 0) lines.push(`Recoveries   : ${summary.totalRecoveries}`);
+  if (summary.totalFailbacks > 0) lines.push(`Failbacks    : ${summary.totalFailbacks}`);
+  if (summary.totalKeyRotations > 0) lines.push(`Key rotations: ${summary.totalKeyRotations}`);
+  if (summary.totalRestarts + summary.totalRestartFailures > 0) {
+    lines.push(
+      `Restarts     : ${summary.totalRestarts + summary.totalRestartFailures} (${summary.totalRestartFailures} failed)`,
+    );
+  }
+  if (summary.estFailoverCostUsd > 0) {
+    const delta = summary.estFailoverCostDeltaUsd;
+    lines.push(
+      `Failover cost: ~$${summary.estFailoverCostUsd.toFixed(4)} for one turn after each failover ` +
+        `(${delta >= 0 ? "+" : "-"}$${Math.abs(delta).toFixed(4)} vs the failed models)`,
+    );
+  }
 
   // Provider breakdown
   const providerNames = Object.keys(summary.providers).sort();
@@ -573,6 +684,8 @@ export function formatMetrics(summary: MetricsSummary): string {
       if (errors > 0) parts.push(`${errors} error${errors !== 1 ? "s" : ""}`);
       if (m.timesFailedFrom > 0) parts.push(`failed-from=${m.timesFailedFrom}`);
       if (m.timesFailedTo > 0) parts.push(`failed-to=${m.timesFailedTo}`);
+      if (m.recoveries > 0) parts.push(`recovered=${m.recoveries}`);
+      if (m.failbacks > 0) parts.push(`failed-back=${m.failbacks}`);
       lines.push(`  ${pad(name, 40)} ${parts.join("  ")}`);
     }
   }
@@ -590,10 +703,20 @@ export function formatEvents(events: MetricEvent[]): string {
   for (const e of events) {
     const ts = new Date(e.ts * 1000).toISOString().replace("T", " ").slice(0, 19);
     const parts = [`[${ts}]`, e.type.toUpperCase()];
-    parts.push(e.model);
-    if (e.type === "failover" && e.to) parts.push(`-> ${e.to}`);
+    if (e.model) parts.push(e.model);
+    if ((e.type === "failover" || e.type === "failback") && e.to) parts.push(`-> ${e.to}`);
+    if (e.estCostUsd !== undefined) parts.push(`est=$${e.estCostUsd.toFixed(4)}/turn`);
+    if (e.profile) parts.push(e.type === "key_rotation" && e.toProfile ? `key ${e.profile} -> ${e.toProfile}` : `key=${e.profile}`);
     if (e.reason) parts.push(`(${e.reason.slice(0, 80)})`);
     if (e.cooldownSec) parts.push(`cooldown=${e.cooldownSec}s`);
+    if (e.strikes && e.strikes > 1) parts.push(`strikes=${e.strikes}`);
+    if (e.scope && e.scope !== "model") parts.push(`scope=${e.scope}`);
+    if (e.type === "recovered" && e.savedSec) parts.push(`saved=${e.savedSec}s`);
+    if (GATEWAY_EVENT_TYPES.includes(e.type)) {
+      if (e.requests) parts.push(`switches=${e.requests}`);
+      if (e.waitedMs !== undefined) parts.push(`waited=${Math.round(e.waitedMs / 1000)}s`);
+      if (e.exitCode !== undefined && e.exitCode !== null && e.exitCode !== 0) parts.push(`exit=${e.exitCode}`);
+    }
     lines.push(parts.join(" "));
   }
   return lines.join("\n");
@@ -686,10 +809,12 @@ const isDirectRun =
 
 if (isDirectRun) {
   const args = process.argv.slice(2);
+  const dbIdx = args.indexOf("--db");
+  const store = dbIdx >= 0 ? createSqliteStateStore({ databasePath: args.splice(dbIdx, 2)[1] }) : undefined;
 
   if (args[0] === "tail") {
     const count = parseInt(args[1] ?? "20", 10);
-    const events = loadEvents(DEFAULT_METRICS_FILE);
+    const events = store?.loadEvents() ?? loadEvents(DEFAULT_METRICS_FILE);
     const tail = events.slice(-count);
     console.log(formatEvents(tail));
   } else if (args[0] === "history") {
@@ -699,21 +824,21 @@ if (isDirectRun) {
       process.exit(1);
     }
     const jsonFlag = args.includes("--json");
-    const history = getModelHistory({ model });
+    const history = getModelHistory({ model, store });
     if (jsonFlag) {
       console.log(JSON.stringify(history, null, 2));
     } else {
       console.log(formatModelHistory(history));
     }
   } else if (args[0] === "reset") {
-    const existed = resetMetrics();
+    const existed = resetMetrics(store);
     console.log(
       existed
         ? "Metrics log cleared."
         : "No metrics log found.",
     );
   } else if (args[0] === "--json") {
-    const summary = getMetricsSummary();
+    const summary = getMetricsSummary({ store });
     console.log(JSON.stringify(summary, null, 2));
   } else if (args[0] === "--help" || args[0] === "-h") {
     console.log(
@@ -726,11 +851,12 @@ if (isDirectRun) {
         "  tail [N]              Show last N events (default 20)",
         "  history <model-id>    Show cooldown history for a model",
         "  reset                 Clear all metrics",
+        "  --db <path>           Use a SQLite state store instead of the metrics log",
         "  --help, -h            Show this help message",
       ].join("\n"),
     );
   } else {
-    const summary = getMetricsSummary();
+    const summary = getMetricsSummary({ store });
     console.log(formatMetrics(summary));
   }
 }
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildModelOrderOverrides,
+  findModelOrderOverride,
+  matchesSessionPattern,
+  channelFromContext,
+} from "./overrides.js";
+
+// ---------------------------------------------------------------------------
+// 1. Parsing
+// ---------------------------------------------------------------------------
+describe("buildModelOrderOverrides", () => {
+  it("parses scoped keys in config order", () => {
+    const overrides = buildModelOrderOverrides({
+      "agent:coder": ["a/1"],
+      "channel:telegram": ["b/1"],
+      "session:agent:research:*": ["c/1", "c/2"],
+    });
+    expect(overrides.map((o) => [o.scope, o.match])).toEqual([
+      ["agent", "coder"],
+      ["channel", "telegram"],
+      ["session", "agent:research:*"],
+    ]);
+  });
+
+  it("skips and reports invalid entries", () => {
+    const onInvalid = vi.fn();
+    const overrides = buildModelOrderOverrides(
+      {
+        coder: ["a/1"],
+        "team:x": ["a/1"],
+        "agent:": ["a/1"],
+        "agent:empty": [],
+        "agent:bad": "a/1" as any,
+        "agent:ok": ["a/1"],
+      },
+      { onInvalid },
+    );
+    expect(overrides.map((o) => o.key)).toEqual(["agent:ok"]);
+    expect(onInvalid).toHaveBeenCalledTimes(5);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Matching
+// ---------------------------------------------------------------------------
+describe("findModelOrderOverride", () => {
+  const overrides = buildModelOrderOverrides({
+    "agent:research": ["perplexity/sonar-pro"],
+    "channel:telegram": ["b/1"],
+    "session:agent:research:whatsapp:*": ["c/1"],
+  });
+
+  it("prefers session over channel over agent", () => {
+    expect(findModelOrderOverride(overrides, {
+      agentId: "research",
+      channel: "whatsapp",
+      sessionKey: "agent:research:whatsapp:group:1",
+    })?.key).toBe("session:agent:research:whatsapp:*");
+    expect(findModelOrderOverride(overrides, { agentId: "research", channel: "Telegram" })?.key).toBe("channel:telegram");
+    expect(findModelOrderOverride(overrides, { agentId: "research", channel: "slack" })?.key).toBe("agent:research");
+  });
+
+  it("returns undefined when nothing matches", () => {
+    expect(findModelOrderOverride(overrides, { agentId: "main", sessionKey: "s1" })).toBeUndefined();
+  });
+
+  it("matches session patterns with * wildcards only", () => {
+    expect(matchesSessionPattern("agent:*:telegram:*", "agent:ops:telegram:dm:1")).toBe(true);
+    expect(matchesSessionPattern("agent:ops:main", "agent:ops:main")).toBe(true);
+    expect(matchesSessionPattern("agent:ops:main", "agent:ops:main:x")).toBe(false);
+    expect(matchesSessionPattern("a.b", "axb")).toBe(false);
+  });
+});
+
+describe("channelFromContext", () => {
+  it("reads the channel from the context or the session key", () => {
+    expect(channelFromContext({ channel: "slack", sessionKey: "agent:main:telegram:dm:1" })).toBe("slack");
+    expect(channelFromContext({ messageProvider: "discord" })).toBe("discord");
+    expect(channelFromContext({ sessionKey: "agent:main:telegram:dm:1" })).toBe("telegram");
+    expect(channelFromContext({ sessionKey: "agent:main:main" })).toBeUndefined();
+    expect(channelFromContext({ sessionKey: "s1" })).toBeUndefined();
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Model order overrides per agent, channel or session.
+ *
+ * `modelOrderOverrides` maps a scoped key to a model order that replaces the
+ * global `modelOrder` for matching turns:
+ *
+ *   agent:<agentId>      turns of that agent
+ *   channel:<channel>    turns from that channel (telegram, whatsapp, ...)
+ *   session:<pattern>    session keys matching the pattern; `*` matches any run of characters
+ *
+ * The most specific scope wins: session, then channel, then agent. Within a
+ * scope the first matching key in config order wins.
+ *
+ * Programmatic usage:
+ *   import { buildModelOrderOverrides, findModelOrderOverride } from "./overrides.js";
+ */
+
+import { validateModelOrder, type ModelOrderEntry } from "./tiers.js";
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+export type OverrideScope = "agent" | "channel" | "session";
+
+/** Scopes from most to least specific. */
+export const OVERRIDE_SCOPES: readonly OverrideScope[] = ["session", "channel", "agent"];
+
+export interface ModelOrderOverride {
+  /** The config key, e.g. "agent:coder". */
+  key: string;
+  scope: OverrideScope;
+  /** Agent id, channel, or session-key pattern. */
+  match: string;
+  /** May contain tiers (see tiers.ts). */
+  modelOrder: ModelOrderEntry[];
+}
+
+/** What a turn is matched against. */
+export interface TurnScope {
+  agentId?: string;
+  channel?: string;
+  sessionKey?: string;
+}
+
+// -------------------------------------------------------------------------
+// Parsing
+// -------------------------------------------------------------------------
+
+/**
+ * Parse the `modelOrderOverrides` config map. Invalid entries are skipped and
+ * reported through `onInvalid`.
+ */
+export function buildModelOrderOverrides(
+  raw?: Record<string, ModelOrderEntry[]>,
+  opts?: { onInvalid?: (message: string) => void },
+): ModelOrderOverride[] {
+  const out: ModelOrderOverride[] = [];
+  for (const [key, modelOrder] of Object.entries(raw ?? {})) {
+    const sep = key.indexOf(":");
+    const scope = key.slice(0, sep) as OverrideScope;
+    const match = key.slice(sep + 1);
+    if (sep < 0 || !OVERRIDE_SCOPES.includes(scope) || match.length === 0) {
+      opts?.onInvalid?.(`${key}: key must be agent:<id>, channel:<name> or session:<pattern>`);
+      continue;
+    }
+    const problem = validateModelOrder(modelOrder);
+    if (problem) {
+      opts?.onInvalid?.(`${key}: ${problem}`);
+      continue;
+    }
+    out.push({ key, scope, match, modelOrder });
+  }
+  return out;
+}
+
+// -------------------------------------------------------------------------
+// Matching
+// -------------------------------------------------------------------------
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesSessionPattern(pattern: string, sessionKey: string): boolean {
+  return globToRegExp(pattern).test(sessionKey);
+}
+
+/**
+ * The channel of a turn: from the hook context, else the third segment of an
+ * `agent:<id>:<channel>:...` session key ("main" is the agent's direct session, not a channel).
+ */
+export function channelFromContext(ctx: any): string | undefined {
+  for (const value of [ctx?.channel, ctx?.channelId, ctx?.messageProvider]) {
+    if (typeof value === "string" && value) return value;
+  }
+  const parts = typeof ctx?.sessionKey === "string" ? ctx.sessionKey.split(":") : [];
+  if (parts[0] === "agent" && parts.length > 3 && parts[2] !== "main") return parts[2];
+  return undefined;
+}
+
+function overrideMatches(override: ModelOrderOverride, turn: TurnScope): boolean {
+  switch (override.scope) {
+    case "session":
+      return turn.sessionKey !== undefined && matchesSessionPattern(override.match, turn.sessionKey);
+    case "channel":
+      return turn.channel !== undefined && override.match.toLowerCase() === turn.channel.toLowerCase();
+    case "agent":
+      return turn.agentId !== undefined && override.match === turn.agentId;
+  }
+}
+
+/** The most specific override for the turn, if any. */
+export function findModelOrderOverride(
+  overrides: ModelOrderOverride[],
+  turn: TurnScope,
+): ModelOrderOverride | undefined {
+  for (const scope of OVERRIDE_SCOPES) {
+    const found = overrides.find((o) => o.scope === scope && overrideMatches(o, turn));
+    if (found) return found;
+  }
+  return undefined;
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildProviderPolicies,
+  findProviderPolicy,
+  policyCooldownSeconds,
+  validateProviderPolicy,
+  DEFAULT_PROVIDER_POLICIES,
+  type ProviderPolicy,
+} from "./policies.js";
+
+const NOW = Date.parse("2026-03-01T10:00:00Z");
+
+// ---------------------------------------------------------------------------
+// 1. Built-in policies reproduce the historical behavior
+// ---------------------------------------------------------------------------
+describe("built-in provider policies", () => {
+  it("google quota resets at midnight Pacific", () => {
+    const policy = findProviderPolicy(DEFAULT_PROVIDER_POLICIES, "google-gemini-cli", "Quota exceeded");
+    expect(policy?.reset).toBe("daily");
+    // 10:00 UTC = 02:00 PST -> 22h until midnight PST (08:00 UTC next day)
+    expect(policyCooldownSeconds(policy!, 60, NOW)).toBe(22 * 3600);
+  });
+
+  it("anthropic daily limits reset at midnight UTC", () => {
+    const policy = findProviderPolicy(DEFAULT_PROVIDER_POLICIES, "anthropic", "daily limit exceeded");
+    expect(policyCooldownSeconds(policy!, 60, NOW)).toBe(14 * 3600);
+  });
+
+  it("anthropic errors without the keyword have no policy", () => {
+    expect(findProviderPolicy(DEFAULT_PROVIDER_POLICIES, "anthropic", "rate limit")).toBeUndefined();
+  });
+
+  it("openai is a one-hour rolling window", () => {
+    const policy = findProviderPolicy(DEFAULT_PROVIDER_POLICIES, "openai-codex", "anything");
+    expect(policyCooldownSeconds(policy!, 300, NOW)).toBe(3600);
+  });
+
+  it("ships only valid defaults", () => {
+    for (const p of DEFAULT_PROVIDER_POLICIES) expect(validateProviderPolicy(p)).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Reset kinds
+// ---------------------------------------------------------------------------
+describe("policyCooldownSeconds", () => {
+  it("daily resets at a custom time and zone", () => {
+    const policy: ProviderPolicy = { provider: "mistral", reset: "daily", resetAt: "12:30", timezone: "Europe/Berlin" };
+    // 10:00 UTC = 11:00 CET -> 1h30m
+    expect(policyCooldownSeconds(policy, 60, NOW)).toBe(5400);
+  });
+
+  it("fixed windows align to midnight in the zone", () => {
+    const policy: ProviderPolicy = { provider: "github-copilot", reset: "fixed-window", windowMinutes: 240 };
+    // windows at 00:00, 04:00, 08:00, 12:00 UTC -> next at 12:00
+    expect(policyCooldownSeconds(policy, 60, NOW)).toBe(7200);
+    expect(policyCooldownSeconds(policy, 60, Date.parse("2026-03-01T12:00:00Z"))).toBe(4 * 3600);
+  });
+
+  it("rolling uses the policy cooldown", () => {
+    const policy: ProviderPolicy = { provider: "perplexity", reset: "rolling", cooldownMinutes: 30 };
+    expect(policyCooldownSeconds(policy, 300, NOW)).toBe(1800);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Config handling
+// ---------------------------------------------------------------------------
+describe("buildProviderPolicies", () => {
+  it("puts config policies ahead of the built-in ones", () => {
+    const policies = buildProviderPolicies([{ provider: "openai", reset: "rolling", cooldownMinutes: 5 }]);
+    const policy = findProviderPolicy(policies, "openai-codex", "rate limit");
+    expect(policyCooldownSeconds(policy!, 60, NOW)).toBe(300);
+    expect(policies).toHaveLength(DEFAULT_PROVIDER_POLICIES.length + 1);
+  });
+
+  it("matches keywords case-insensitively", () => {
+    const policies = buildProviderPolicies([
+      { provider: "self-hosted", reset: "rolling", cooldownMinutes: 2, keywords: ["GPU Busy"] },
+    ]);
+    expect(findProviderPolicy(policies, "self-hosted", "all gpu busy, retry")).toBeDefined();
+    expect(findProviderPolicy(policies, "self-hosted", "rate limit")).toBeUndefined();
+  });
+
+  it("reports and skips invalid policies", () => {
+    const problems: string[] = [];
+    const policies = buildProviderPolicies(
+      [
+        { provider: "a", reset: "weekly" as any },
+        { provider: "b", reset: "daily", resetAt: "25:00" },
+        { provider: "c", reset: "daily", timezone: "Nowhere/Land" },
+        { provider: "d", reset: "fixed-window" },
+        { provider: "e", reset: "rolling" },
+      ],
+      { onInvalid: (m) => problems.push(m) },
+    );
+    expect(problems).toHaveLength(5);
+    expect(policies).toEqual(DEFAULT_PROVIDER_POLICIES);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Per-provider reset policies.
+ *
+ * A policy describes when a provider's limits reset, so the cooldown after a
+ * rate-limit hit can end exactly at the reset instead of after a fixed delay:
+ *
+ *   rolling       limits free up gradually; wait `cooldownMinutes`
+ *   daily         limits reset once a day at `resetAt` ("HH:MM") in `timezone`
+ *   fixed-window  limits reset every `windowMinutes`, windows aligned to midnight in `timezone`
+ *
+ * Policies from plugin config (`providerPolicies`) are evaluated before the
+ * built-in ones; the first policy whose provider prefix and keywords match wins.
+ *
+ * Programmatic usage:
+ *   import { buildProviderPolicies, findProviderPolicy, policyCooldownSeconds } from "./policies.js";
+ */
+
+import { nextZonedTime, resolveZone, zonedParts, zonedTimeToEpochMs, type Zone } from "./waittime.js";
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+export type ResetKind = "rolling" | "daily" | "fixed-window";
+
+export const RESET_KINDS: readonly ResetKind[] = ["rolling", "daily", "fixed-window"];
+
+export interface ProviderPolicy {
+  /** Provider prefix (e.g. "google" covers "google-gemini-cli"). */
+  provider: string;
+  reset: ResetKind;
+  /** Only apply when the error text contains one of these (case-insensitive). */
+  keywords?: string[];
+  /** daily: wall-clock reset time "HH:MM" (default "00:00"). */
+  resetAt?: string;
+  /** daily / fixed-window: IANA zone or abbreviation such as "UTC" or "PT" (default "UTC"). */
+  timezone?: string;
+  /** fixed-window: window length in minutes. */
+  windowMinutes?: number;
+  /** rolling: cooldown length. Other kinds fall back to it when no reset can be computed. */
+  cooldownMinutes?: number;
+}
+
+// -------------------------------------------------------------------------
+// Built-in policies
+// -------------------------------------------------------------------------
+
+export const DEFAULT_PROVIDER_POLICIES: ProviderPolicy[] = [
+  // Google: "quota" usually means the daily limit, which resets at midnight Pacific.
+  { provider: "google", reset: "daily", keywords: ["quota"], resetAt: "00:00", timezone: "America/Los_Angeles" },
+  // Anthropic: "daily" limits reset at midnight UTC.
+  { provider: "anthropic", reset: "daily", keywords: ["daily"], resetAt: "00:00", timezone: "UTC" },
+  // OpenAI limits are mostly rolling; 1 hour is a safe retry for short bursts.
+  { provider: "openai", reset: "rolling", cooldownMinutes: 60 },
+];
+
+// -------------------------------------------------------------------------
+// Validation
+// -------------------------------------------------------------------------
+
+function parseClock(value: string): { hour: number; minute: number } | undefined {
+  const m = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!m) return undefined;
+  const hour = parseInt(m[1], 10);
+  const minute = parseInt(m[2], 10);
+  return hour < 24 && minute < 60 ? { hour, minute } : undefined;
+}
+
+/**
+ * Check the shape of a single policy from config. Returns an error message, or
+ * undefined if the policy is usable.
+ */
+export function validateProviderPolicy(policy: any): string | undefined {
+  if (!policy || typeof policy !== "object") return "policy must be an object";
+  if (typeof policy.provider !== "string" || policy.provider.length === 0) {
+    return "policy.provider must be a non-empty string";
+  }
+  const label = `policy ${policy.provider}`;
+  if (!RESET_KINDS.includes(policy.reset)) return `${label}: reset must be one of ${RESET_KINDS.join(", ")}`;
+  if (
+    policy.keywords !== undefined &&
+    (!Array.isArray(policy.keywords) || policy.keywords.some((k: unknown) => typeof k !== "string"))
+  ) {
+    return `${label}: keywords must be an array of strings`;
+  }
+  if (policy.resetAt !== undefined && !parseClock(String(policy.resetAt))) return `${label}: resetAt must be "HH:MM"`;
+  if (policy.timezone !== undefined && resolveZone(policy.timezone) === undefined) {
+    return `${label}: unknown timezone ${policy.timezone}`;
+  }
+  if (policy.reset === "fixed-window" && !(policy.windowMinutes > 0)) {
+    return `${label}: fixed-window needs windowMinutes > 0`;
+  }
+  if (policy.reset === "rolling" && !(policy.cooldownMinutes > 0)) {
+    return `${label}: rolling needs cooldownMinutes > 0`;
+  }
+  if (policy.cooldownMinutes !== undefined && !(policy.cooldownMinutes > 0)) {
+    return `${label}: cooldownMinutes must be > 0`;
+  }
+  return undefined;
+}
+
+/**
+ * Config policies followed by the built-in defaults. Invalid policies are
+ * skipped and reported through `onInvalid`.
+ */
+export function buildProviderPolicies(
+  customPolicies?: ProviderPolicy[],
+  opts?: { onInvalid?: (message: string) => void },
+): ProviderPolicy[] {
+  const out: ProviderPolicy[] = [];
+  for (const policy of [...(customPolicies ?? []), ...DEFAULT_PROVIDER_POLICIES]) {
+    const problem = validateProviderPolicy(policy);
+    if (problem) {
+      opts?.onInvalid?.(problem);
+      continue;
+    }
+    out.push(policy);
+  }
+  return out;
+}
+
+// -------------------------------------------------------------------------
+// Lookup and cooldown
+// -------------------------------------------------------------------------
+
+/** First policy whose provider prefix matches and whose keywords (if any) occur in the text. */
+export function findProviderPolicy(
+  policies: ProviderPolicy[],
+  provider: string,
+  text: string,
+): ProviderPolicy | undefined {
+  const lower = text.toLowerCase();
+  return policies.find(
+    (p) =>
+      provider.startsWith(p.provider) &&
+      (!p.keywords || p.keywords.length === 0 || p.keywords.some((k) => lower.includes(k.toLowerCase()))),
+  );
+}
+
+function nextWindowReset(zone: Zone, windowMinutes: number, now: number): number {
+  const today = zonedParts(now, zone);
+  const dayStart = zonedTimeToEpochMs(zone, today.year, today.month, today.day);
+  const windowMs = windowMinutes * 60_000;
+  return dayStart + (Math.floor((now - dayStart) / windowMs) + 1) * windowMs;
+}
+
+/**
+ * Seconds until the policy's next reset. Falls back to the policy's own
+ * cooldown, then to `defaultMinutes`, when no positive wait can be computed.
+ */
+export function policyCooldownSeconds(policy: ProviderPolicy, defaultMinutes: number, now = Date.now()): number {
+  const fallback = (policy.cooldownMinutes ?? defaultMinutes) * 60;
+  const zone = resolveZone(policy.timezone ?? "UTC") ?? 0;
+
+  let resetMs: number | undefined;
+  if (policy.reset === "daily") {
+    const clock = parseClock(policy.resetAt ?? "00:00") ?? { hour: 0, minute: 0 };
+    resetMs = nextZonedTime(zone, clock.hour, clock.minute, 0, now);
+  } else if (policy.reset === "fixed-window" && policy.windowMinutes) {
+    resetMs = nextWindowReset(zone, policy.windowMinutes, now);
+  }
+
+  if (resetMs === undefined) return fallback;
+  const wait = Math.floor(resetMs / 1000) - Math.floor(now / 1000);
+  return wait > 0 ? wait : fallback;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { buildPriceTable, cheapestModel, estimateTurnCost, failoverCostEstimate, turnCost } from "./pricing.js";
+
+const PRICES = {
+  "anthropic/opus": { input: 15, output: 75 },
+  "anthropic/sonnet": { input: 3, output: 15 },
+  "perplexity/deep-research": { input: 2, output: 8 },
+};
+
+// ---------------------------------------------------------------------------
+// 1. Config
+// ---------------------------------------------------------------------------
+describe("buildPriceTable", () => {
+  it("keeps valid prices and reports the rest", () => {
+    const problems: string[] = [];
+    const table = buildPriceTable(
+      { "a/1": { input: 1, output: 2 }, "a/2": { input: -1, output: 2 }, "a/3": { input: 1 } as any },
+      { onInvalid: (m) => problems.push(m) },
+    );
+    expect(table).toEqual({ "a/1": { input: 1, output: 2 } });
+    expect(problems).toEqual(["a/2: input must be a non-negative number", "a/3: output must be a non-negative number"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Estimates
+// ---------------------------------------------------------------------------
+describe("estimates", () => {
+  const turn = { inputTokens: 1_000_000, outputTokens: 100_000, totalTokens: 1_100_000 };
+
+  it("prices a turn per 1M tokens", () => {
+    expect(turnCost(PRICES["anthropic/opus"], turn)).toBeCloseTo(22.5);
+    expect(estimateTurnCost(PRICES, "anthropic/sonnet", turn)).toBeCloseTo(4.5);
+    expect(estimateTurnCost(PRICES, "openai/gpt-4o", turn)).toBeUndefined();
+  });
+
+  it("estimates a failover's cost and its change", () => {
+    const estimate = failoverCostEstimate(PRICES, "anthropic/opus", "anthropic/sonnet", turn);
+    expect(estimate.estCostUsd).toBeCloseTo(4.5);
+    expect(estimate.estCostDeltaUsd).toBeCloseTo(-18);
+    expect(failoverCostEstimate(PRICES, "openai/gpt-4o", "anthropic/sonnet", turn)).toEqual({ estCostUsd: 4.5 });
+    expect(failoverCostEstimate(PRICES, "anthropic/opus", "openai/gpt-4o", turn)).toEqual({});
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Routing
+// ---------------------------------------------------------------------------
+describe("cheapestModel", () => {
+  it("picks the cheapest priced model for the turn", () => {
+    expect(cheapestModel(["anthropic/opus", "anthropic/sonnet", "perplexity/deep-research"], PRICES)).toBe(
+      "perplexity/deep-research",
+    );
+    // Output-heavy turns can change the ranking; ties keep the order.
+    const prices = { "a/1": { input: 1, output: 10 }, "a/2": { input: 5, output: 2 }, "a/3": { input: 5, output: 2 } };
+    expect(cheapestModel(["a/1", "a/2", "a/3"], prices, { inputTokens: 1000, outputTokens: 0, totalTokens: 1000 })).toBe("a/1");
+    expect(cheapestModel(["a/1", "a/2", "a/3"], prices, { inputTokens: 0, outputTokens: 1000, totalTokens: 1000 })).toBe("a/2");
+  });
+
+  it("ranks unpriced models last", () => {
+    expect(cheapestModel(["openai/gpt-4o", "anthropic/opus"], PRICES)).toBe("anthropic/opus");
+    expect(cheapestModel(["openai/gpt-4o", "openai/o3"], PRICES)).toBe("openai/gpt-4o");
+    expect(cheapestModel([], PRICES)).toBeUndefined();
+  });
+});
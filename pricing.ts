@@ -0,0 +1,139 @@
+/**
+ * Model prices and cost-aware routing.
+ *
+ * `modelPrices` in plugin config gives dollars per 1M input and output tokens
+ * per model id:
+ *
+ *   { "anthropic/claude-opus-4-6": { "input": 15, "output": 75 } }
+ *
+ * With `routingPolicy: "cheapest"`, a fallback is the cheapest available model
+ * among the first `costRoutingMinTier` tiers of the order, instead of the
+ * first available one, so a failover from a cheap model does not land on an
+ * expensive research model just because it comes next. Models are compared by
+ * the cost of the session's last turn, or of DEFAULT_REFERENCE_TURN; models
+ * without a price rank after priced ones. The default policy, "order", keeps
+ * the plain model order.
+ *
+ * Failover metrics carry the estimated cost of a turn on the new model and the
+ * difference to the failed one; budgets (see budget.ts) use the table for turns
+ * whose runtime reports no cost.
+ *
+ * Programmatic usage:
+ *   import { buildPriceTable, cheapestModel, estimateTurnCost } from "./pricing.js";
+ */
+
+import type { TurnUsage } from "./budget.js";
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+/** Dollars per 1M tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export type RoutingPolicy = "order" | "cheapest";
+
+export const ROUTING_POLICIES: readonly RoutingPolicy[] = ["order", "cheapest"];
+
+/** The turn models are compared by when the session has no recorded usage yet. */
+export const DEFAULT_REFERENCE_TURN: TurnUsage = { inputTokens: 4000, outputTokens: 1000, totalTokens: 5000 };
+
+/** Estimated cost of one turn on the new model of a failover, and the change from the failed model. */
+export interface FailoverCostEstimate {
+  estCostUsd?: number;
+  estCostDeltaUsd?: number;
+}
+
+// -------------------------------------------------------------------------
+// Config
+// -------------------------------------------------------------------------
+
+function isPrice(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Check the shape of a single price from config. Returns an error message, or
+ * undefined if the price is usable.
+ */
+export function validateModelPrice(price: any): string | undefined {
+  if (!price || typeof price !== "object" || Array.isArray(price)) return "price must be an object";
+  if (!isPrice(price.input)) return "input must be a non-negative number";
+  if (!isPrice(price.output)) return "output must be a non-negative number";
+  return undefined;
+}
+
+/**
+ * The config `modelPrices`, without invalid entries. Invalid entries are
+ * skipped and reported through `onInvalid`.
+ */
+export function buildPriceTable(raw?: Record<string, ModelPrice>, opts?: { onInvalid?: (message: string) => void }): PriceTable {
+  const out: PriceTable = {};
+  for (const [model, price] of Object.entries(raw ?? {})) {
+    const problem = validateModelPrice(price);
+    if (problem) {
+      opts?.onInvalid?.(`${model}: ${problem}`);
+      continue;
+    }
+    out[model] = { input: price.input, output: price.output };
+  }
+  return out;
+}
+
+// -------------------------------------------------------------------------
+// Estimates
+// -------------------------------------------------------------------------
+
+/** Cost in dollars of a turn at a price. */
+export function turnCost(price: ModelPrice, turn: TurnUsage): number {
+  return (turn.inputTokens * price.input + turn.outputTokens * price.output) / 1_000_000;
+}
+
+/** Cost in dollars of a turn on a model, or undefined when the model has no price. */
+export function estimateTurnCost(prices: PriceTable, model: string, turn: TurnUsage): number | undefined {
+  const price = prices[model];
+  return price ? turnCost(price, turn) : undefined;
+}
+
+/** Estimated cost of a turn after failing over from `from` to `to`; empty when `to` has no price. */
+export function failoverCostEstimate(
+  prices: PriceTable,
+  from: string,
+  to: string,
+  turn: TurnUsage = DEFAULT_REFERENCE_TURN,
+): FailoverCostEstimate {
+  const toCost = estimateTurnCost(prices, to, turn);
+  if (toCost === undefined) return {};
+  const fromCost = estimateTurnCost(prices, from, turn);
+  return { estCostUsd: toCost, ...(fromCost !== undefined ? { estCostDeltaUsd: toCost - fromCost } : {}) };
+}
+
+// -------------------------------------------------------------------------
+// Routing
+// -------------------------------------------------------------------------
+
+/**
+ * The cheapest of `models` for the turn. Ties keep the given order; models
+ * without a price only win when none has one.
+ */
+export function cheapestModel(
+  models: string[],
+  prices: PriceTable,
+  turn: TurnUsage = DEFAULT_REFERENCE_TURN,
+): string | undefined {
+  let best: string | undefined;
+  let bestCost = Infinity;
+  for (const model of models) {
+    const cost = estimateTurnCost(prices, model, turn);
+    if (cost !== undefined && cost < bestCost) {
+      best = model;
+      bestCost = cost;
+    }
+  }
+  return best ?? models[0];
+}
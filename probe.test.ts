@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { runProbes, startProbeScheduler, httpProbe, runtimeProbe } from "./probe.js";
+import { circuitState } from "./circuit.js";
+import { loadState, saveState, nowSec, type LimitState } from "./index.js";
+import { createFileStateStore } from "./store.js";
+
+let tmpDir: string;
+let statePath: string;
+let store: ReturnType<typeof createFileStateStore>;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fo-probe-"));
+  statePath = path.join(tmpDir, "state.json");
+  store = createFileStateStore({ statePath, metricsPath: path.join(tmpDir, "metrics.jsonl") });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function blockedState(...models: string[]): LimitState {
+  const now = nowSec();
+  const state: LimitState = { limited: {} };
+  for (const m of models) {
+    state.limited[m] = { lastHitAt: now - 60, nextAvailableAt: now + 3600, reason: "429" };
+  }
+  return state;
+}
+
+// ---------------------------------------------------------------------------
+// 1. runProbes
+// ---------------------------------------------------------------------------
+describe("runProbes", () => {
+  it("releases models whose probe succeeds, keeping their strikes", async () => {
+    const blocked = blockedState("provA/m1", "provB/m2");
+    blocked.limited["provA/m1"].strikes = 3;
+    saveState(statePath, blocked);
+    const recovered = await runProbes({ store, probe: async (m) => m === "provA/m1" });
+
+    expect(recovered).toHaveLength(1);
+    expect(recovered[0].model).toBe("provA/m1");
+    expect(recovered[0].savedSec).toBeGreaterThan(3500);
+    const state = loadState(statePath);
+    expect(state.limited["provA/m1"]).toMatchObject({ strikes: 3, closedAt: expect.any(Number) });
+    expect(state.limited["provA/m1"].nextAvailableAt).toBeLessThanOrEqual(nowSec());
+    expect(circuitState(state.limited["provA/m1"], nowSec())).toBe("closed");
+    expect(state.limited["provB/m2"].nextAvailableAt).toBeGreaterThan(nowSec());
+  });
+
+  it("keeps models blocked when the probe throws", async () => {
+    saveState(statePath, blockedState("provA/m1"));
+    const onError = vi.fn();
+    const recovered = await runProbes({
+      store,
+      probe: async () => {
+        throw new Error("429");
+      },
+      onError,
+    });
+
+    expect(recovered).toHaveLength(0);
+    expect(onError).toHaveBeenCalledWith("provA/m1", expect.any(Error));
+    expect(loadState(statePath).limited["provA/m1"]).toBeDefined();
+  });
+
+  it("skips expired entries and cooldowns about to end", async () => {
+    const now = nowSec();
+    saveState(statePath, {
+      limited: {
+        "provA/expired": { lastHitAt: now - 600, nextAvailableAt: now - 10 },
+        "provA/soon": { lastHitAt: now - 600, nextAvailableAt: now + 30 },
+        "provA/later": { lastHitAt: now - 600, nextAvailableAt: now + 3600 },
+      },
+    });
+    const probe = vi.fn(async () => true);
+    await runProbes({ store, probe, minRemainingSec: 60 });
+
+    expect(probe).toHaveBeenCalledTimes(1);
+    expect(probe).toHaveBeenCalledWith("provA/later");
+  });
+
+  it("does not clear an entry replaced by a newer failure during the probe", async () => {
+    saveState(statePath, blockedState("provA/m1"));
+    const recovered = await runProbes({
+      store,
+      probe: async () => {
+        const state = loadState(statePath);
+        state.limited["provA/m1"] = { lastHitAt: nowSec() + 1, nextAvailableAt: nowSec() + 7200 };
+        saveState(statePath, state);
+        return true;
+      },
+    });
+
+    expect(recovered).toHaveLength(0);
+    expect(loadState(statePath).limited["provA/m1"].nextAvailableAt).toBeGreaterThan(nowSec() + 3600);
+  });
+
+  it("reports each recovery", async () => {
+    saveState(statePath, blockedState("provA/m1", "provA/m2"));
+    const onRecovered = vi.fn();
+    await runProbes({ store, probe: async () => true, onRecovered });
+    expect(onRecovered).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Probe implementations
+// ---------------------------------------------------------------------------
+describe("httpProbe", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: string[] = [];
+
+  beforeEach(async () => {
+    requests.length = 0;
+    server = http.createServer((req, res) => {
+      requests.push(req.url ?? "");
+      res.statusCode = req.url?.includes("healthy") ? 200 : 429;
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("substitutes model and provider into the URL", async () => {
+    const probe = httpProbe(`${baseUrl}/probe/{provider}?model={model}`);
+    await probe("provA/m1");
+    expect(requests).toEqual(["/probe/provA?model=provA%2Fm1"]);
+  });
+
+  it("treats 2xx as recovered and other statuses as still limited", async () => {
+    const probe = httpProbe(`${baseUrl}/{model}`);
+    expect(await probe("healthy/m1")).toBe(true);
+    expect(await probe("limited/m1")).toBe(false);
+  });
+
+  it("releases models end-to-end through runProbes", async () => {
+    saveState(statePath, blockedState("healthy/m1", "limited/m2"));
+    const recovered = await runProbes({ store, probe: httpProbe(`${baseUrl}/{model}`) });
+    expect(recovered.map((r) => r.model)).toEqual(["healthy/m1"]);
+  });
+});
+
+describe("runtimeProbe", () => {
+  it("returns undefined without a runtime completion API", () => {
+    expect(runtimeProbe({ runtime: {} })).toBeUndefined();
+  });
+
+  it("sends a one-token completion for the model", async () => {
+    const complete = vi.fn(async () => ({ text: "pong" }));
+    const probe = runtimeProbe({ runtime: { llm: { complete } } })!;
+    expect(await probe("provA/m1")).toBe(true);
+    expect(complete).toHaveBeenCalledWith({ model: "provA/m1", prompt: "ping", maxTokens: 1 });
+  });
+
+  it("rejects when the completion fails", async () => {
+    const probe = runtimeProbe({ runtime: { llm: { complete: async () => { throw new Error("429"); } } } })!;
+    await expect(probe("provA/m1")).rejects.toThrow("429");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Scheduler
+// ---------------------------------------------------------------------------
+describe("startProbeScheduler", () => {
+  it("probes on every interval until stopped", async () => {
+    vi.useFakeTimers();
+    saveState(statePath, blockedState("provA/m1"));
+    const probe = vi.fn(async () => false);
+    const scheduler = startProbeScheduler({ store, probe, intervalSec: 60 });
+
+    expect(probe).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(probe).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(probe).toHaveBeenCalledTimes(2);
+
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(120_000);
+    expect(probe).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not start a round while the previous one is still running", async () => {
+    vi.useFakeTimers();
+    saveState(statePath, blockedState("provA/m1"));
+    let release!: (v: boolean) => void;
+    const probe = vi.fn(() => new Promise<boolean>((resolve) => { release = resolve; }));
+    const scheduler = startProbeScheduler({ store, probe, intervalSec: 60 });
+
+    await vi.advanceTimersByTimeAsync(180_000);
+    expect(probe).toHaveBeenCalledTimes(1);
+    release(false);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(probe).toHaveBeenCalledTimes(2);
+    scheduler.stop();
+  });
+});
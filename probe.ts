@@ -0,0 +1,161 @@
+/**
+ * Active health probing for blocked models.
+ *
+ * Blocked models normally stay blocked until `nextAvailableAt`, even when the
+ * provider recovers minutes later. The probe scheduler periodically sends a
+ * cheap request to each blocked model and closes its circuit as soon as the
+ * probe succeeds. The entry keeps its strike count, so a model that fails
+ * again soon after still backs off further.
+ *
+ * Probes are pluggable:
+ *   runtimeProbe(api)   one-token completion through the plugin runtime (`api.runtime.llm.complete`)
+ *   httpProbe(url)      GET against a health endpoint; "{model}" and "{provider}" are substituted
+ *
+ * Programmatic usage:
+ *   import { runProbes, startProbeScheduler, httpProbe } from "./probe.js";
+ */
+
+import { markClosed } from "./circuit.js";
+import { nowSec } from "./index.js";
+import type { StateStore } from "./store.js";
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+/** Resolves true when the model answered normally, false (or throws) otherwise. */
+export type ProbeFn = (model: string) => Promise<boolean>;
+
+export interface ProbeResult {
+  model: string;
+  /** Cooldown seconds that were left when the probe succeeded. */
+  savedSec: number;
+}
+
+export interface ProbeOptions {
+  store: StateStore;
+  probe: ProbeFn;
+  /** Skip models whose cooldown ends within this many seconds anyway (default 0). */
+  minRemainingSec?: number;
+  /** Called once per model released from cooldown. */
+  onRecovered?: (result: ProbeResult) => void;
+  /** Called when a probe throws; the model stays blocked. */
+  onError?: (model: string, error: unknown) => void;
+}
+
+export interface ProbeScheduler {
+  stop(): void;
+}
+
+// -------------------------------------------------------------------------
+// Probe implementations
+// -------------------------------------------------------------------------
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`probe timed out after ${timeoutMs}ms`)), timeoutMs);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      },
+    );
+  });
+}
+
+/**
+ * Probe through the plugin runtime with a one-token completion. Returns
+ * undefined when the runtime does not expose `llm.complete`.
+ */
+export function runtimeProbe(api: any, timeoutMs = 10_000): ProbeFn | undefined {
+  const complete = api?.runtime?.llm?.complete;
+  if (typeof complete !== "function") return undefined;
+  return async (model) => {
+    await withTimeout(Promise.resolve(complete({ model, prompt: "ping", maxTokens: 1 })), timeoutMs);
+    return true;
+  };
+}
+
+/**
+ * Probe a health endpoint over HTTP. Any 2xx response counts as recovered.
+ */
+export function httpProbe(urlTemplate: string, timeoutMs = 10_000): ProbeFn {
+  return async (model) => {
+    const provider = model.split("/")[0];
+    const url = urlTemplate
+      .replaceAll("{model}", encodeURIComponent(model))
+      .replaceAll("{provider}", encodeURIComponent(provider));
+    const res = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+    return res.ok;
+  };
+}
+
+// -------------------------------------------------------------------------
+// Probing
+// -------------------------------------------------------------------------
+
+/**
+ * Probe every blocked model once, one at a time. Models whose probe succeeds
+ * are released (their circuit is closed, see circuit.ts), unless a newer failure replaced their
+ * entry while the probe was running.
+ */
+export async function runProbes(opts: ProbeOptions): Promise<ProbeResult[]> {
+  const minRemaining = opts.minRemainingSec ?? 0;
+  const snapshot = opts.store.load();
+  const recovered: ProbeResult[] = [];
+
+  for (const [model, entry] of Object.entries(snapshot.limited)) {
+    if (entry.nextAvailableAt - nowSec() <= minRemaining) continue;
+
+    let healthy = false;
+    try {
+      healthy = await opts.probe(model);
+    } catch (e) {
+      opts.onError?.(model, e);
+    }
+    if (!healthy) continue;
+
+    // Re-read under the lock: the plugin may have written new failures while we were waiting.
+    let savedSec: number | undefined;
+    opts.store.update((state) => {
+      const current = state.limited[model];
+      if (!current || current.lastHitAt !== entry.lastHitAt) return false;
+      const now = nowSec();
+      savedSec = Math.max(0, current.nextAvailableAt - now);
+      markClosed(current, now);
+    });
+    if (savedSec === undefined) continue;
+
+    const result = { model, savedSec };
+    recovered.push(result);
+    opts.onRecovered?.(result);
+  }
+
+  return recovered;
+}
+
+/**
+ * Run `runProbes` every `intervalSec`. Rounds never overlap, and the timer
+ * does not keep the process alive.
+ */
+export function startProbeScheduler(opts: ProbeOptions & { intervalSec: number }): ProbeScheduler {
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    runProbes(opts)
+      .catch((e) => opts.onError?.("*", e))
+      .finally(() => {
+        running = false;
+      });
+  }, opts.intervalSec * 1000);
+  timer.unref?.();
+
+  return {
+    stop: () => clearInterval(timer),
+  };
+}
@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { EventEmitter } from "node:events";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { spawn } from "node:child_process";
+import {
+  createRestartCoordinator,
+  spawnGatewayRestart,
+  DEFAULT_RESTART,
+  type RestartCoordinatorOptions,
+  type RestartEvent,
+} from "./restart.js";
+
+vi.mock("node:child_process", () => ({
+  spawn: vi.fn(),
+}));
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fo-restart-"));
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function coordinator(overrides: Partial<RestartCoordinatorOptions> = {}) {
+  const events: RestartEvent[] = [];
+  const run = vi.fn(async () => ({ ok: true, exitCode: 0 }));
+  const c = createRestartCoordinator({
+    ...DEFAULT_RESTART,
+    delayMs: 1000,
+    minIntervalMs: 60_000,
+    maxWaitMs: 30_000,
+    run,
+    onEvent: (e) => events.push(e),
+    ...overrides,
+  });
+  return { c, run, events };
+}
+
+// ---------------------------------------------------------------------------
+// 1. Debounce
+// ---------------------------------------------------------------------------
+describe("debounce", () => {
+  it("collapses a burst of requests into one restart", async () => {
+    const { c, run, events } = coordinator();
+    c.request();
+    await vi.advanceTimersByTimeAsync(600);
+    c.request();
+    await vi.advanceTimersByTimeAsync(600);
+    expect(run).not.toHaveBeenCalled();
+    expect(c.pending()).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(400);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(c.pending()).toBe(false);
+    expect(events).toEqual([{ type: "restarted", requests: 2, waitedMs: 1600, exitCode: 0 }]);
+  });
+
+  it("can be cancelled", async () => {
+    const { c, run } = coordinator();
+    c.request();
+    c.dispose();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(run).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Turns in flight
+// ---------------------------------------------------------------------------
+describe("turns in flight", () => {
+  it("waits until running turns have ended", async () => {
+    const { c, run, events } = coordinator();
+    c.turnStarted("s1");
+    c.turnStarted("s2");
+    c.request();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(run).not.toHaveBeenCalled();
+    expect(events[0]).toMatchObject({ type: "deferred", reason: "in-flight", inFlight: 2 });
+
+    c.turnEnded("s1");
+    c.turnEnded("s2");
+    await vi.advanceTimersByTimeAsync(DEFAULT_RESTART.pollMs);
+    expect(run).toHaveBeenCalledTimes(1);
+    // One deferred event per wait, not one per poll.
+    expect(events.filter((e) => e.type === "deferred")).toHaveLength(1);
+  });
+
+  it("goes ahead after maxWaitMs", async () => {
+    const { c, run } = coordinator();
+    c.turnStarted("s1");
+    c.request();
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(run).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("forgets turns that never ended", () => {
+    const { c } = coordinator({ turnTimeoutMs: 10_000 });
+    c.turnStarted("s1");
+    expect(c.inFlight()).toBe(1);
+    vi.advanceTimersByTime(10_001);
+    expect(c.inFlight()).toBe(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Interval and coalescing
+// ---------------------------------------------------------------------------
+describe("minimum interval", () => {
+  it("keeps restarts minIntervalMs apart", async () => {
+    const { c, run, events } = coordinator();
+    c.request();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    c.request();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(events.at(-1)).toMatchObject({ type: "deferred", reason: "min-interval" });
+
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("coalescing across processes", () => {
+  it("skips the restart when another process restarted after the request", async () => {
+    const markerPath = path.join(tmpDir, "state.json.restart");
+    const a = coordinator({ markerPath });
+    const b = coordinator({ markerPath, delayMs: 2000 });
+
+    a.c.request();
+    b.c.request();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(a.run).toHaveBeenCalledTimes(1);
+    expect(b.run).not.toHaveBeenCalled();
+    expect(b.events).toEqual([{ type: "coalesced", requests: 1, waitedMs: 2000 }]);
+    expect(JSON.parse(fs.readFileSync(markerPath, "utf-8"))).toMatchObject({ pid: process.pid });
+  });
+
+  it("shares the minimum interval", async () => {
+    const markerPath = path.join(tmpDir, "state.json.restart");
+    const a = coordinator({ markerPath });
+    const b = coordinator({ markerPath });
+
+    a.c.request();
+    await vi.advanceTimersByTimeAsync(1000);
+    b.c.request();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(b.run).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(b.run).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 4. Outcome
+// ---------------------------------------------------------------------------
+describe("outcome", () => {
+  it("reports a failed restart", async () => {
+    const { c, events } = coordinator({ run: async () => ({ ok: false, exitCode: 1, error: "exit code 1" }) });
+    c.request();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(events).toEqual([{ type: "failed", requests: 1, waitedMs: 1000, exitCode: 1, error: "exit code 1" }]);
+  });
+
+  it("reports a run that throws", async () => {
+    const { c, events } = coordinator({
+      run: () => {
+        throw new Error("spawn openclaw ENOENT");
+      },
+    });
+    c.request();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(events[0]).toMatchObject({ type: "failed", error: "spawn openclaw ENOENT" });
+  });
+});
+
+describe("spawnGatewayRestart", () => {
+  function fakeChild() {
+    const child = Object.assign(new EventEmitter(), { unref: vi.fn() });
+    vi.mocked(spawn).mockReturnValueOnce(child as any);
+    return child;
+  }
+
+  it("resolves with the exit status", async () => {
+    const ok = fakeChild();
+    const pending = spawnGatewayRestart();
+    ok.emit("exit", 0, null);
+    await expect(pending).resolves.toEqual({ ok: true, exitCode: 0 });
+    expect(spawn).toHaveBeenCalledWith("openclaw", ["gateway", "restart"], { detached: true, stdio: "ignore" });
+
+    const failed = fakeChild();
+    const pendingFailure = spawnGatewayRestart();
+    failed.emit("exit", 2, null);
+    await expect(pendingFailure).resolves.toEqual({ ok: false, exitCode: 2, error: "exit code 2" });
+  });
+
+  it("fails on spawn errors and on commands that never exit", async () => {
+    const broken = fakeChild();
+    const pending = spawnGatewayRestart();
+    broken.emit("error", new Error("spawn openclaw ENOENT"));
+    await expect(pending).resolves.toEqual({ ok: false, error: "spawn openclaw ENOENT" });
+
+    fakeChild();
+    const hanging = spawnGatewayRestart(5000);
+    await vi.advanceTimersByTimeAsync(5000);
+    await expect(hanging).resolves.toEqual({ ok: false, error: "no exit after 5000ms" });
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Gateway restart coordination.
+ *
+ * A switch that has to reach the running gateway ends with
+ * `openclaw gateway restart` (see apply.ts), which drops every turn in flight.
+ * The coordinator decides when that restart actually runs:
+ *
+ *   debounce     requests within `delayMs` of each other collapse into one restart
+ *   in-flight    the restart waits until no turn of this process is running
+ *                (tracked from before_model_resolve to agent_end), for at most `maxWaitMs`
+ *   coalescing   processes sharing a marker file skip their restart when another
+ *                one restarted the gateway after their first request
+ *   interval     restarts are at least `minIntervalMs` apart, across those processes
+ *
+ * The restart command's exit status is checked; the outcome is reported through
+ * `onEvent` so the plugin can log it and record it in the metrics.
+ *
+ * Programmatic usage:
+ *   import { createRestartCoordinator, spawnGatewayRestart } from "./restart.js";
+ */
+
+import fs from "node:fs";
+import { spawn } from "node:child_process";
+import { atomicWriteFile } from "./index.js";
+import { withFileLock } from "./lock.js";
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+export interface RestartOptions {
+  /** Wait this long after the latest request before restarting. */
+  delayMs: number;
+  /** Minimum time between two restarts. */
+  minIntervalMs: number;
+  /** Restart anyway once turns in flight have delayed it this long since the first request. */
+  maxWaitMs: number;
+  /** How often to look again while turns are in flight. */
+  pollMs: number;
+  /** A turn without agent_end for this long no longer counts as in flight. */
+  turnTimeoutMs: number;
+}
+
+export const DEFAULT_RESTART: RestartOptions = {
+  delayMs: 3000,
+  minIntervalMs: 60_000,
+  maxWaitMs: 300_000,
+  pollMs: 1000,
+  turnTimeoutMs: 600_000,
+};
+
+export interface RestartOutcome {
+  ok: boolean;
+  exitCode?: number | null;
+  error?: string;
+}
+
+export type RestartEventType = "restarted" | "failed" | "coalesced" | "deferred";
+
+export interface RestartEvent {
+  type: RestartEventType;
+  /** Requests served by this restart. */
+  requests: number;
+  /** Milliseconds from the first request until now. */
+  waitedMs: number;
+  /** deferred: what the restart is waiting for. */
+  reason?: "in-flight" | "min-interval";
+  /** deferred: turns in flight. */
+  inFlight?: number;
+  /** restarted / failed: exit code of the restart command. */
+  exitCode?: number | null;
+  /** failed: why. */
+  error?: string;
+}
+
+export interface RestartCoordinatorOptions extends RestartOptions {
+  /** Run the restart. */
+  run: () => Promise<RestartOutcome>;
+  /** Shared with other processes to coalesce restarts; process-local when unset. */
+  markerPath?: string;
+  onEvent?: (event: RestartEvent) => void;
+  /** Clock in milliseconds (default Date.now). */
+  now?: () => number;
+}
+
+export interface RestartCoordinator {
+  turnStarted(id: string): void;
+  turnEnded(id: string): void;
+  /** Turns currently in flight. */
+  inFlight(): number;
+  /** Ask for a restart; it runs once the coordinator's conditions allow. */
+  request(): void;
+  /** Whether a restart has been requested and not yet run. */
+  pending(): boolean;
+  /** Cancel a pending restart. */
+  dispose(): void;
+}
+
+interface RestartMarker {
+  lastRestartAt: number;
+  pid: number;
+}
+
+// -------------------------------------------------------------------------
+// Marker
+// -------------------------------------------------------------------------
+
+function readMarker(markerPath: string): RestartMarker | undefined {
+  try {
+    const marker = JSON.parse(fs.readFileSync(markerPath, "utf-8"));
+    return typeof marker?.lastRestartAt === "number" ? marker : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// -------------------------------------------------------------------------
+// Coordinator
+// -------------------------------------------------------------------------
+
+export function createRestartCoordinator(opts: RestartCoordinatorOptions): RestartCoordinator {
+  const now = opts.now ?? Date.now;
+  const turns = new Map<string, number>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let firstRequestAt: number | undefined;
+  let requests = 0;
+  let localLastRestartAt = 0;
+  let deferredFor: RestartEvent["reason"];
+
+  function inFlight(): number {
+    const cutoff = now() - opts.turnTimeoutMs;
+    for (const [id, startedAt] of turns) {
+      if (startedAt < cutoff) turns.delete(id);
+    }
+    return turns.size;
+  }
+
+  function arm(ms: number) {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(attempt, Math.max(0, ms));
+    timer.unref?.();
+  }
+
+  function reset() {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+    firstRequestAt = undefined;
+    requests = 0;
+    deferredFor = undefined;
+  }
+
+  function defer(reason: "in-flight" | "min-interval", ms: number, extra: Partial<RestartEvent> = {}) {
+    if (deferredFor !== reason) {
+      deferredFor = reason;
+      opts.onEvent?.({ type: "deferred", reason, requests, waitedMs: now() - firstRequestAt!, ...extra });
+    }
+    arm(ms);
+  }
+
+  // Claim the next restart: run it, wait `ms`, or skip it because another process already restarted.
+  function claim(at: number): "run" | "coalesced" | { waitMs: number } {
+    const decide = (lastRestartAt: number) => {
+      if (lastRestartAt > firstRequestAt!) return "coalesced" as const;
+      const waitMs = lastRestartAt + opts.minIntervalMs - at;
+      return waitMs > 0 ? { waitMs } : ("run" as const);
+    };
+    if (!opts.markerPath) {
+      const decision = decide(localLastRestartAt);
+      if (decision === "run") localLastRestartAt = at;
+      return decision;
+    }
+    const markerPath = opts.markerPath;
+    return withFileLock(markerPath, () => {
+      const decision = decide(readMarker(markerPath)?.lastRestartAt ?? 0);
+      if (decision === "run") atomicWriteFile(markerPath, JSON.stringify({ lastRestartAt: at, pid: process.pid }));
+      return decision;
+    });
+  }
+
+  function attempt() {
+    timer = undefined;
+    if (firstRequestAt === undefined) return;
+    const at = now();
+    const waitedMs = at - firstRequestAt;
+
+    const busy = inFlight();
+    if (busy > 0 && waitedMs < opts.maxWaitMs) {
+      defer("in-flight", Math.min(opts.pollMs, opts.maxWaitMs - waitedMs), { inFlight: busy });
+      return;
+    }
+
+    let decision: ReturnType<typeof claim>;
+    try {
+      decision = claim(at);
+    } catch {
+      // The marker is unavailable; restarting is better than leaving the switch unapplied.
+      decision = "run";
+    }
+    if (typeof decision === "object") {
+      defer("min-interval", decision.waitMs);
+      return;
+    }
+
+    const served = requests;
+    reset();
+    if (decision === "coalesced") {
+      opts.onEvent?.({ type: "coalesced", requests: served, waitedMs });
+      return;
+    }
+    let outcome: Promise<RestartOutcome>;
+    try {
+      outcome = opts.run();
+    } catch (e: any) {
+      outcome = Promise.resolve({ ok: false, error: e?.message ?? String(e) });
+    }
+    outcome.then(
+      (result) =>
+        opts.onEvent?.({
+          type: result.ok ? "restarted" : "failed",
+          requests: served,
+          waitedMs,
+          exitCode: result.exitCode,
+          ...(result.error ? { error: result.error } : {}),
+        }),
+      (e: any) => opts.onEvent?.({ type: "failed", requests: served, waitedMs, error: e?.message ?? String(e) }),
+    );
+  }
+
+  return {
+    turnStarted(id) {
+      turns.set(id, now());
+    },
+    turnEnded(id) {
+      turns.delete(id);
+    },
+    inFlight,
+    request() {
+      const at = now();
+      firstRequestAt ??= at;
+      requests++;
+      // Debounce, but never past maxWaitMs after the first request.
+      arm(Math.min(opts.delayMs, firstRequestAt + opts.maxWaitMs - at));
+    },
+    pending: () => firstRequestAt !== undefined,
+    dispose: reset,
+  };
+}
+
+// -------------------------------------------------------------------------
+// Command
+// -------------------------------------------------------------------------
+
+/**
+ * Run `openclaw gateway restart` detached and resolve with its exit status.
+ * A command that has not exited after `timeoutMs` counts as failed.
+ */
+export function spawnGatewayRestart(timeoutMs = 60_000): Promise<RestartOutcome> {
+  return new Promise((resolve) => {
+    let settled = false;
+    const settle = (outcome: RestartOutcome) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      resolve(outcome);
+    };
+    const timeout = setTimeout(() => settle({ ok: false, error: `no exit after ${timeoutMs}ms` }), timeoutMs);
+    timeout.unref?.();
+
+    const child = spawn("openclaw", ["gateway", "restart"], { detached: true, stdio: "ignore" });
+    child.once?.("error", (e: Error) => settle({ ok: false, error: e.message }));
+    child.once?.("exit", (code: number | null, signal: string | null) =>
+      settle(
+        code === 0
+          ? { ok: true, exitCode: 0 }
+          : { ok: false, exitCode: code, error: signal ? `killed by ${signal}` : `exit code ${code}` },
+      ),
+    );
+    child.unref();
+  });
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import { parseState, migrateState, stateVersion, validateLimitEntry, assertWritable, STATE_VERSION } from "./schema.js";
+
+// ---------------------------------------------------------------------------
+// 1. Migrations
+// ---------------------------------------------------------------------------
+describe("migrateState", () => {
+  it("treats files without a version as v1", () => {
+    expect(stateVersion({ limited: {} })).toBe(1);
+    expect(stateVersion({ version: 2, limited: {} })).toBe(2);
+  });
+
+  it("upgrades v1 to the current version", () => {
+    const migrated = migrateState({ limited: { "p/m": { lastHitAt: 1, nextAvailableAt: 2 } } });
+    expect(migrated).toEqual({ version: STATE_VERSION, limited: { "p/m": { lastHitAt: 1, nextAvailableAt: 2 } } });
+  });
+
+  it("adds an empty limited map to v1 files without one", () => {
+    expect(migrateState({}).limited).toEqual({});
+  });
+
+  it("upgrades every older version step by step", () => {
+    for (let v = 2; v < STATE_VERSION; v++) {
+      expect(migrateState({ version: v, limited: {}, usage: {} })).toEqual({ version: STATE_VERSION, limited: {}, usage: {} });
+    }
+  });
+
+  it("refuses to write versions newer than its own", () => {
+    expect(() => assertWritable(STATE_VERSION, "state.json")).not.toThrow();
+    expect(() => assertWritable(undefined, "state.json")).not.toThrow();
+    expect(() => assertWritable(STATE_VERSION + 1, "state.json")).toThrow(/state.json has state version/);
+  });
+
+  it("leaves current and newer versions unchanged", () => {
+    const current = { version: STATE_VERSION, limited: {} };
+    expect(migrateState(current)).toBe(current);
+    const future = { version: STATE_VERSION + 1, limited: {}, extra: true };
+    expect(migrateState(future)).toBe(future);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Entry validation
+// ---------------------------------------------------------------------------
+describe("validateLimitEntry", () => {
+  it("accepts a full entry", () => {
+    expect(
+      validateLimitEntry({
+        lastHitAt: 1,
+        nextAvailableAt: 2,
+        reason: "429",
+        strikes: 3,
+        trialSession: "s1",
+        trialStartedAt: 3,
+      })
+    ).toBeUndefined();
+  });
+
+  it("allows unknown extra fields", () => {
+    expect(validateLimitEntry({ lastHitAt: 1, nextAvailableAt: 2, note: "manual" })).toBeUndefined();
+    expect(validateLimitEntry({ lastHitAt: 1, nextAvailableAt: 2, scope: "provider" })).toBeUndefined();
+  });
+
+  it("rejects missing or malformed fields", () => {
+    expect(validateLimitEntry(null)).toMatch(/object/);
+    expect(validateLimitEntry([])).toMatch(/object/);
+    expect(validateLimitEntry({ nextAvailableAt: 2 })).toMatch(/lastHitAt/);
+    expect(validateLimitEntry({ lastHitAt: 1, nextAvailableAt: "2" })).toMatch(/nextAvailableAt/);
+    expect(validateLimitEntry({ lastHitAt: 1, nextAvailableAt: NaN })).toMatch(/nextAvailableAt/);
+    expect(validateLimitEntry({ lastHitAt: 1, nextAvailableAt: 2, reason: 5 })).toMatch(/reason/);
+    expect(validateLimitEntry({ lastHitAt: 1, nextAvailableAt: 2, strikes: 1.5 })).toMatch(/strikes/);
+    expect(validateLimitEntry({ lastHitAt: 1, nextAvailableAt: 2, trialSession: 1 })).toMatch(/trialSession/);
+    expect(validateLimitEntry({ lastHitAt: 1, nextAvailableAt: 2, scope: "region" })).toMatch(/scope/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. parseState
+// ---------------------------------------------------------------------------
+describe("parseState", () => {
+  it("drops invalid entries and reports them", () => {
+    const { state, dropped } = parseState({
+      version: 2,
+      limited: {
+        "p/ok": { lastHitAt: 1, nextAvailableAt: 2 },
+        "p/broken": { lastHitAt: 1 },
+      },
+    });
+    expect(Object.keys(state.limited)).toEqual(["p/ok"]);
+    expect(dropped).toEqual(["p/broken: nextAvailableAt must be a timestamp"]);
+  });
+
+  it("validates session failover records", () => {
+    const { state, dropped } = parseState({
+      version: 2,
+      limited: {},
+      failovers: {
+        s1: { from: "p/a", to: "q/b", at: 10 },
+        s2: { from: "p/a", at: 10 },
+      },
+    });
+    expect(state.failovers).toEqual({ s1: { from: "p/a", to: "q/b", at: 10 } });
+    expect(dropped).toEqual(["failovers.s2: to must be a model id"]);
+  });
+
+  it("drops a failovers field that is not an object", () => {
+    const { state, dropped } = parseState({ version: 2, limited: {}, failovers: [] });
+    expect(state.failovers).toBeUndefined();
+    expect(dropped).toEqual(["failovers: must be an object"]);
+  });
+
+  it("validates credential profile entries like model entries", () => {
+    const { state, dropped } = parseState({
+      version: 2,
+      limited: {},
+      credentials: {
+        "p@k1": { lastHitAt: 10, nextAvailableAt: 20, scope: "account" },
+        "p@k2": { lastHitAt: 10 },
+      },
+    });
+    expect(state.credentials).toEqual({ "p@k1": { lastHitAt: 10, nextAvailableAt: 20, scope: "account" } });
+    expect(dropped).toEqual(["credentials.p@k2: nextAvailableAt must be a timestamp"]);
+    expect(parseState({ version: 2, limited: {}, credentials: 1 }).dropped).toEqual(["credentials: must be an object"]);
+  });
+
+  it("validates usage counters", () => {
+    const counters = { minuteStart: 60, requests: 1, dayStart: 0, tokens: 10, monthStart: 0, dollars: 0 };
+    const { state, dropped } = parseState({ version: 2, limited: {}, usage: { openai: counters, bad: { requests: 1 } } });
+    expect(state.usage).toEqual({ openai: counters });
+    expect(dropped).toEqual(["usage.bad: minuteStart must be a non-negative number"]);
+  });
+
+  it("throws for unusable top-level shapes", () => {
+    expect(() => parseState(null)).toThrow();
+    expect(() => parseState([])).toThrow();
+    expect(() => parseState("state")).toThrow();
+    expect(() => parseState({ version: 2, limited: [] })).toThrow(/limited/);
+  });
+
+  it("keeps unknown top-level fields from newer versions", () => {
+    const { state } = parseState({ version: STATE_VERSION + 1, limited: {}, extra: 1 });
+    expect((state as any).extra).toBe(1);
+  });
+});
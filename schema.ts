@@ -0,0 +1,194 @@
+/**
+ * Versioned schema for the rate-limit state file.
+ *
+ * Files are read through a migration pipeline that upgrades older shapes one
+ * version at a time, then every entry is validated. Invalid entries are
+ * dropped individually; a file that cannot be parsed at all is quarantined by
+ * the caller instead of being silently discarded.
+ *
+ *   v1  { limited: { <model>: entry } }                  (unversioned, plugin <= 0.2)
+ *   v2  { version: 2, limited: { <model>: entry } }      (entries with strikes and trial fields)
+ *   v3  adds failovers?: { <sessionKey>: record }          (fail-back, see failback.ts)
+ *   v4  adds entry.scope                                  (block scope, see scope.ts)
+ *   v5  adds credentials?: { <provider>@<profile>: entry } (key rotation, see credentials.ts)
+ *   v6  adds usage?: { <model|provider>: counters }       (budgets, see budget.ts)
+ *   v7  adds entry.closedAt                               (closed circuits, see circuit.ts)
+ *
+ * Every change to the shape bumps STATE_VERSION and adds a migration. A file
+ * written by a newer plugin is read on a best-effort basis but never rewritten
+ * (see `assertWritable`), so it is not downgraded and its unknown fields survive.
+ *
+ * Programmatic usage:
+ *   import { parseState, STATE_VERSION } from "./schema.js";
+ */
+
+import type { LimitEntry, LimitState } from "./index.js";
+import { validateSessionFailover, type SessionFailover } from "./failback.js";
+import { BLOCK_SCOPES } from "./scope.js";
+import { validateUsageCounters, type UsageCounters } from "./budget.js";
+
+// -------------------------------------------------------------------------
+// Versions and migrations
+// -------------------------------------------------------------------------
+
+export const STATE_VERSION = 7;
+
+// The later versions only add optional fields, so upgrading just records the new version.
+const addsOptionalFields = (version: number) => (raw: any) => ({ ...raw, version });
+
+/** Upgrade functions keyed by the version they upgrade from. */
+const MIGRATIONS: Record<number, (raw: any) => any> = {
+  1: (raw) => ({ ...raw, version: 2, limited: raw.limited ?? {} }),
+  2: addsOptionalFields(3),
+  3: addsOptionalFields(4),
+  4: addsOptionalFields(5),
+  5: addsOptionalFields(6),
+  6: addsOptionalFields(7),
+};
+
+/** Version of a raw state object; files written before versioning count as v1. */
+export function stateVersion(raw: any): number {
+  return typeof raw?.version === "number" ? raw.version : 1;
+}
+
+/**
+ * Upgrade a raw state object to STATE_VERSION. Files from a newer plugin are
+ * returned unchanged and read on a best-effort basis.
+ */
+export function migrateState(raw: any): any {
+  let current = raw;
+  for (let v = stateVersion(current); v < STATE_VERSION; v = stateVersion(current)) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new Error(`no migration from state version ${v}`);
+    current = migrate(current);
+  }
+  return current;
+}
+
+/**
+ * Throw when state of the given version must not be written by this plugin:
+ * it comes from a newer one, and saving it would downgrade it.
+ */
+export function assertWritable(version: number | undefined, location: string): void {
+  if (version !== undefined && version > STATE_VERSION) {
+    throw new Error(`${location} has state version ${version}, newer than this plugin's ${STATE_VERSION}; not rewriting it`);
+  }
+}
+
+// -------------------------------------------------------------------------
+// Validation
+// -------------------------------------------------------------------------
+
+function isTimestamp(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Check the shape of a single state entry. Returns an error message, or
+ * undefined if the entry is usable. Unknown extra fields are allowed.
+ */
+export function validateLimitEntry(entry: any): string | undefined {
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) return "entry must be an object";
+  if (!isTimestamp(entry.lastHitAt)) return "lastHitAt must be a timestamp";
+  if (!isTimestamp(entry.nextAvailableAt)) return "nextAvailableAt must be a timestamp";
+  if (entry.reason !== undefined && typeof entry.reason !== "string") return "reason must be a string";
+  if (entry.strikes !== undefined && !(Number.isInteger(entry.strikes) && entry.strikes >= 0)) {
+    return "strikes must be a non-negative integer";
+  }
+  if (entry.trialSession !== undefined && typeof entry.trialSession !== "string") {
+    return "trialSession must be a string";
+  }
+  if (entry.trialStartedAt !== undefined && !isTimestamp(entry.trialStartedAt)) {
+    return "trialStartedAt must be a timestamp";
+  }
+  if (entry.closedAt !== undefined && !isTimestamp(entry.closedAt)) return "closedAt must be a timestamp";
+  if (entry.scope !== undefined && !BLOCK_SCOPES.includes(entry.scope)) {
+    return `scope must be one of ${BLOCK_SCOPES.join(", ")}`;
+  }
+  return undefined;
+}
+
+export interface ParsedState {
+  state: LimitState;
+  /** One message per entry that failed validation and was dropped. */
+  dropped: string[];
+}
+
+/**
+ * Migrate and validate a parsed state file. Throws when the top-level shape is
+ * unusable, so the caller can quarantine the file.
+ */
+export function parseState(raw: unknown): ParsedState {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new Error("state must be a JSON object");
+  const migrated = migrateState(raw);
+  const limited = migrated.limited;
+  if (!limited || typeof limited !== "object" || Array.isArray(limited)) {
+    throw new Error("state.limited must be an object");
+  }
+
+  const state: LimitState = { ...migrated, limited: {} };
+  const dropped: string[] = [];
+  for (const [model, entry] of Object.entries(limited)) {
+    const problem = validateLimitEntry(entry);
+    if (problem) {
+      dropped.push(`${model}: ${problem}`);
+      continue;
+    }
+    state.limited[model] = entry as LimitEntry;
+  }
+
+  const rawCredentials = migrated.credentials;
+  if (rawCredentials !== undefined) {
+    delete state.credentials;
+    if (!rawCredentials || typeof rawCredentials !== "object" || Array.isArray(rawCredentials)) {
+      dropped.push("credentials: must be an object");
+    } else {
+      state.credentials = {};
+      for (const [profile, entry] of Object.entries(rawCredentials)) {
+        const problem = validateLimitEntry(entry);
+        if (problem) {
+          dropped.push(`credentials.${profile}: ${problem}`);
+          continue;
+        }
+        state.credentials[profile] = entry as LimitEntry;
+      }
+    }
+  }
+
+  const rawFailovers = migrated.failovers;
+  if (rawFailovers !== undefined) {
+    delete state.failovers;
+    if (!rawFailovers || typeof rawFailovers !== "object" || Array.isArray(rawFailovers)) {
+      dropped.push("failovers: must be an object");
+    } else {
+      state.failovers = {};
+      for (const [sessionKey, record] of Object.entries(rawFailovers)) {
+        const problem = validateSessionFailover(record);
+        if (problem) {
+          dropped.push(`failovers.${sessionKey}: ${problem}`);
+          continue;
+        }
+        state.failovers[sessionKey] = record as SessionFailover;
+      }
+    }
+  }
+
+  const rawUsage = migrated.usage;
+  if (rawUsage !== undefined) {
+    delete state.usage;
+    if (!rawUsage || typeof rawUsage !== "object" || Array.isArray(rawUsage)) {
+      dropped.push("usage: must be an object");
+    } else {
+      state.usage = {};
+      for (const [key, counters] of Object.entries(rawUsage)) {
+        const problem = validateUsageCounters(counters);
+        if (problem) {
+          dropped.push(`usage.${key}: ${problem}`);
+          continue;
+        }
+        state.usage[key] = counters as UsageCounters;
+      }
+    }
+  }
+  return { state, dropped };
+}
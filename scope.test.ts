@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { buildBlockScopes, detectScope, modelsInScope, accountOf, DEFAULT_BLOCK_SCOPES } from "./scope.js";
+import { normalizeError } from "./errors.js";
+
+// ---------------------------------------------------------------------------
+// 1. Config
+// ---------------------------------------------------------------------------
+describe("buildBlockScopes", () => {
+  it("merges config over the defaults", () => {
+    expect(buildBlockScopes({ auth_error: "account" })).toEqual({ ...DEFAULT_BLOCK_SCOPES, auth_error: "account" });
+  });
+
+  it("skips unknown categories and scopes", () => {
+    const problems: string[] = [];
+    const scopes = buildBlockScopes({ timeout: "model", rate_limit: "region" as any }, { onInvalid: (m) => problems.push(m) });
+    expect(scopes).toEqual(DEFAULT_BLOCK_SCOPES);
+    expect(problems).toEqual(["timeout: unknown error category", "rate_limit: scope must be one of model, provider, account"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Detection
+// ---------------------------------------------------------------------------
+describe("detectScope", () => {
+  const model = "openai/gpt-4o";
+
+  it("uses the scope of the matching rule first", () => {
+    const rule = { id: "r", category: "rate_limit" as const, pattern: "x", scope: "account" as const };
+    expect(detectScope(normalizeError("tokens per min"), { model, category: "rate_limit", rule })).toEqual({
+      scope: "account",
+      source: "rule:r",
+    });
+  });
+
+  it("treats billing and quota exhaustion as account-wide", () => {
+    const err = normalizeError({ error: { message: "You exceeded your current quota", code: "insufficient_quota" } });
+    expect(detectScope(err, { model, category: "rate_limit" })).toEqual({ scope: "account", source: "hint:billing" });
+    expect(detectScope(normalizeError("Your credit balance is too low"), { model, category: "auth_error" }).scope).toBe(
+      "account",
+    );
+  });
+
+  it("treats per-minute and per-model limits as model-only", () => {
+    const openai = "Rate limit reached for gpt-4o in organization org-1 on tokens per min (TPM): Limit 30000";
+    expect(detectScope(normalizeError(openai), { model, category: "rate_limit" })).toEqual({
+      scope: "model",
+      source: "hint:per-model-limit",
+    });
+    const google = "Quota exceeded for quota metric 'GenerateRequestsPerMinutePerProjectPerModel'";
+    expect(detectScope(normalizeError(google), { model: "google/gemini-2.5-pro", category: "rate_limit" }).scope).toBe("model");
+  });
+
+  it("treats errors naming the failing model as model-only", () => {
+    expect(detectScope(normalizeError("gpt-4o is currently overloaded"), { model, category: "rate_limit" })).toEqual({
+      scope: "model",
+      source: "model-name",
+    });
+    // A longer model id that merely starts with the name does not count.
+    expect(detectScope(normalizeError("gpt-4o-mini is rate limited"), { model, category: "rate_limit" }).source).toBe(
+      "default",
+    );
+  });
+
+  it("falls back to the category default", () => {
+    expect(detectScope(normalizeError("rate limit exceeded"), { model, category: "rate_limit" })).toEqual({
+      scope: "provider",
+      source: "default",
+    });
+    expect(detectScope(normalizeError("HTTP 401"), { model, category: "auth_error" }).scope).toBe("model");
+    const defaults = { ...DEFAULT_BLOCK_SCOPES, rate_limit: "model" as const };
+    expect(detectScope(normalizeError("rate limit exceeded"), { model, category: "rate_limit", defaults }).scope).toBe("model");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Blocked set
+// ---------------------------------------------------------------------------
+describe("modelsInScope", () => {
+  const order = ["openai/gpt-4o", "openai/gpt-4.1", "openai-codex/gpt-5", "anthropic/claude"];
+
+  it("blocks just the model, its provider or its account", () => {
+    expect(modelsInScope(order, "openai/gpt-4o", "model")).toEqual(["openai/gpt-4o"]);
+    expect(modelsInScope(order, "openai/gpt-4o", "provider")).toEqual(["openai/gpt-4o", "openai/gpt-4.1"]);
+    expect(modelsInScope(order, "openai/gpt-4o", "account")).toEqual(["openai/gpt-4o", "openai/gpt-4.1"]);
+  });
+
+  it("groups providers that share an account", () => {
+    const accounts = { openai: "acme", "openai-codex": "acme" };
+    expect(accountOf("openai-codex", accounts)).toBe("acme");
+    expect(accountOf("anthropic", accounts)).toBe("anthropic");
+    expect(modelsInScope(order, "openai/gpt-4o", "account", accounts)).toEqual([
+      "openai/gpt-4o",
+      "openai/gpt-4.1",
+      "openai-codex/gpt-5",
+    ]);
+  });
+
+  it("always includes the failing model, even outside the order", () => {
+    expect(modelsInScope(order, "openai/o3", "provider")).toEqual(["openai/o3", "openai/gpt-4o", "openai/gpt-4.1"]);
+  });
+});
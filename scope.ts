@@ -0,0 +1,159 @@
+/**
+ * Block scope of a failover-relevant error.
+ *
+ * An error does not always mean the whole provider is exhausted. The scope
+ * decides which models are blocked:
+ *
+ *   model     only the failing model (per-model TPM/RPM limits, model overload)
+ *   provider  every model with the same provider prefix
+ *   account   every model billed to the same account or API key; providers are
+ *             their own account unless `providerAccounts` maps several to one
+ *
+ * The scope is taken, in order, from:
+ *
+ *   1. the `scope` of the classifier rule that matched (see classifier.ts)
+ *   2. built-in hints in the error code or text (billing, per-minute limits, ...)
+ *   3. the error naming the failing model
+ *   4. `blockScopes`, the per-category default (rate_limit: provider, others: model)
+ *
+ * Programmatic usage:
+ *   import { detectScope, modelsInScope } from "./scope.js";
+ */
+
+import type { ErrorCategory, ErrorClassifierRule } from "./classifier.js";
+import type { NormalizedError } from "./errors.js";
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+export type BlockScope = "model" | "provider" | "account";
+
+export const BLOCK_SCOPES: readonly BlockScope[] = ["model", "provider", "account"];
+
+/** Scope per error category when nothing more specific is known. */
+export type BlockScopeDefaults = Record<ErrorCategory, BlockScope>;
+
+export const DEFAULT_BLOCK_SCOPES: BlockScopeDefaults = {
+  rate_limit: "provider",
+  auth_error: "model",
+  unavailable: "model",
+};
+
+export interface ScopeDecision {
+  scope: BlockScope;
+  /** What decided it: "rule:<id>", "hint:<id>", "model-name" or "default". */
+  source: string;
+}
+
+interface ScopeHint {
+  id: string;
+  scope: BlockScope;
+  pattern: RegExp;
+}
+
+// -------------------------------------------------------------------------
+// Built-in hints
+// -------------------------------------------------------------------------
+
+/** Evaluated in order; account hints come first because a spent account blocks every model. */
+export const SCOPE_HINTS: readonly ScopeHint[] = [
+  {
+    id: "billing",
+    scope: "account",
+    pattern: /insufficient_quota|billing|credit balance|out of credits|exceeded your current quota|spend(?:ing)? limit/i,
+  },
+  {
+    id: "per-model-limit",
+    scope: "model",
+    pattern: /tokens per min|requests per min|per-minute|\b[IO]?[TR]PM\b|per ?model|for model\b/i,
+  },
+];
+
+// -------------------------------------------------------------------------
+// Config
+// -------------------------------------------------------------------------
+
+/**
+ * The config `blockScopes` merged over the defaults. Invalid entries are
+ * skipped and reported through `onInvalid`.
+ */
+export function buildBlockScopes(
+  raw?: Partial<Record<string, BlockScope>>,
+  opts?: { onInvalid?: (message: string) => void },
+): BlockScopeDefaults {
+  const out: BlockScopeDefaults = { ...DEFAULT_BLOCK_SCOPES };
+  for (const [category, scope] of Object.entries(raw ?? {})) {
+    if (!(category in DEFAULT_BLOCK_SCOPES)) {
+      opts?.onInvalid?.(`${category}: unknown error category`);
+      continue;
+    }
+    if (!BLOCK_SCOPES.includes(scope as BlockScope)) {
+      opts?.onInvalid?.(`${category}: scope must be one of ${BLOCK_SCOPES.join(", ")}`);
+      continue;
+    }
+    out[category as ErrorCategory] = scope as BlockScope;
+  }
+  return out;
+}
+
+// -------------------------------------------------------------------------
+// Detection
+// -------------------------------------------------------------------------
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Whether the error text names the model (the part after the provider, at least 4 characters). */
+function mentionsModel(text: string, model: string): boolean {
+  const name = model.slice(model.indexOf("/") + 1);
+  if (name.length < 4) return false;
+  return new RegExp(`(?:^|[^\\w.-])${escapeRegExp(name)}(?![\\w.-])`, "i").test(text);
+}
+
+export function detectScope(
+  err: NormalizedError,
+  opts: { model: string; category: ErrorCategory; rule?: ErrorClassifierRule; defaults?: BlockScopeDefaults },
+): ScopeDecision {
+  if (opts.rule?.scope) return { scope: opts.rule.scope, source: `rule:${opts.rule.id}` };
+
+  const haystack = [err.code, err.type, err.text].filter(Boolean).join(" ");
+  for (const hint of SCOPE_HINTS) {
+    if (hint.pattern.test(haystack)) return { scope: hint.scope, source: `hint:${hint.id}` };
+  }
+
+  if (mentionsModel(err.text, opts.model)) return { scope: "model", source: "model-name" };
+
+  return { scope: (opts.defaults ?? DEFAULT_BLOCK_SCOPES)[opts.category], source: "default" };
+}
+
+// -------------------------------------------------------------------------
+// Blocked set
+// -------------------------------------------------------------------------
+
+export function providerOf(model: string): string {
+  return model.split("/")[0];
+}
+
+/** The account a provider bills to: its `providerAccounts` entry, else the provider itself. */
+export function accountOf(provider: string, accounts?: Record<string, string>): string {
+  return accounts?.[provider] ?? provider;
+}
+
+/** The models a scope covers: the failing model plus the models of `order` sharing its provider or account. */
+export function modelsInScope(
+  order: string[],
+  model: string,
+  scope: BlockScope,
+  accounts?: Record<string, string>,
+): string[] {
+  const provider = providerOf(model);
+  const account = accountOf(provider, accounts);
+  const peers = order.filter((m) => {
+    if (scope === "provider") return providerOf(m) === provider;
+    if (scope === "account") return accountOf(providerOf(m), accounts) === account;
+    return false;
+  });
+  return peers.includes(model) ? peers : [model, ...peers];
+}
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import {
+  agentIdFromSessionKey,
+  defaultAgentId,
+  resolveAgentId,
+  sessionsPathFor,
+  listSessionsPaths,
+  readSessions,
+  patchSessionModel,
+  patchSessionAuthProfile,
+  repinSessions,
+  DEFAULT_SESSIONS_PATH_TEMPLATE,
+} from "./sessions.js";
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fo-sessions-"));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// 1. Agent resolution
+// ---------------------------------------------------------------------------
+describe("resolveAgentId", () => {
+  const gatewayCfg = { agents: { list: [{ id: "main" }, { id: "ops", default: true }] } };
+
+  it("prefers the hook context", () => {
+    expect(resolveAgentId({ agentId: "research", sessionKey: "agent:ops:main" }, gatewayCfg)).toBe("research");
+  });
+
+  it("falls back to the session key, then the gateway default, then main", () => {
+    expect(resolveAgentId({ sessionKey: "agent:ops:telegram:123" }, gatewayCfg)).toBe("ops");
+    expect(resolveAgentId({ sessionKey: "s1" }, gatewayCfg)).toBe("ops");
+    expect(resolveAgentId({ sessionKey: "s1" }, { agents: { list: [{ id: "first" }] } })).toBe("first");
+    expect(resolveAgentId(undefined, null)).toBe("main");
+  });
+
+  it("parses agent ids from session keys", () => {
+    expect(agentIdFromSessionKey("agent:ops:main")).toBe("ops");
+    expect(agentIdFromSessionKey("ops:main")).toBeUndefined();
+    expect(agentIdFromSessionKey(undefined)).toBeUndefined();
+  });
+
+  it("ignores malformed agent lists", () => {
+    expect(defaultAgentId({ agents: { list: "ops" } })).toBeUndefined();
+    expect(defaultAgentId({ agents: { list: [{ name: "ops" }] } })).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Path template
+// ---------------------------------------------------------------------------
+describe("sessionsPathFor", () => {
+  it("substitutes the agent id and expands ~", () => {
+    vi.spyOn(os, "homedir").mockReturnValue("/home/u");
+    expect(sessionsPathFor(DEFAULT_SESSIONS_PATH_TEMPLATE, "ops")).toBe(
+      path.join("/home/u", ".openclaw/agents/ops/sessions/sessions.json"),
+    );
+    expect(sessionsPathFor("/data/{agentId}/{agentId}.json", "a")).toBe("/data/a/a.json");
+  });
+
+  it("keeps agent ids from escaping the template directory", () => {
+    expect(sessionsPathFor("/data/{agentId}/s.json", "../../etc")).toBe("/data/.._.._etc/s.json");
+    expect(sessionsPathFor("/data/{agentId}/s.json", "..")).toBe("/data/_/s.json");
+  });
+});
+
+describe("listSessionsPaths", () => {
+  it("finds the sessions.json of every agent", () => {
+    for (const agent of ["main", "ops", "empty"]) {
+      fs.mkdirSync(path.join(tmpDir, agent, "sessions"), { recursive: true });
+      if (agent !== "empty") fs.writeFileSync(path.join(tmpDir, agent, "sessions", "sessions.json"), "{}");
+    }
+    expect(listSessionsPaths(path.join(tmpDir, "{agentId}/sessions/sessions.json"))).toEqual([
+      path.join(tmpDir, "main/sessions/sessions.json"),
+      path.join(tmpDir, "ops/sessions/sessions.json"),
+    ]);
+
+    fs.writeFileSync(path.join(tmpDir, "agent-main.json"), "{}");
+    expect(listSessionsPaths(path.join(tmpDir, "agent-{agentId}.json"))).toEqual([path.join(tmpDir, "agent-main.json")]);
+    expect(listSessionsPaths(path.join(tmpDir, "missing/{agentId}.json"))).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Reading and patching
+// ---------------------------------------------------------------------------
+describe("patchSessionModel", () => {
+  it("pins an existing session and leaves unknown sessions alone", () => {
+    const sessionsPath = path.join(tmpDir, "sessions.json");
+    fs.writeFileSync(sessionsPath, JSON.stringify({ s1: { model: "p/a" } }));
+    const logger = { info: vi.fn(), warn: vi.fn() };
+
+    expect(patchSessionModel(sessionsPath, "s1", "p/b", logger)).toBe(true);
+    expect(patchSessionModel(sessionsPath, "s2", "p/b", logger)).toBe(false);
+    expect(readSessions(sessionsPath)).toEqual({ s1: { model: "p/b" } });
+    expect(logger.info).toHaveBeenCalledWith("[model-failover] Patched session s1 model: p/a -> p/b");
+  });
+
+  it("reports the previous pin when it changes and can unpin", () => {
+    const sessionsPath = path.join(tmpDir, "sessions.json");
+    fs.writeFileSync(sessionsPath, JSON.stringify({ s1: { model: "p/a", label: "x" } }));
+    const onChange = vi.fn();
+
+    patchSessionModel(sessionsPath, "s1", "p/a", undefined, onChange);
+    expect(onChange).not.toHaveBeenCalled();
+    patchSessionModel(sessionsPath, "s1", "p/b", undefined, onChange);
+    expect(onChange).toHaveBeenLastCalledWith("p/a");
+    patchSessionModel(sessionsPath, "s1", undefined, undefined, onChange);
+    expect(onChange).toHaveBeenLastCalledWith("p/b");
+    expect(readSessions(sessionsPath)).toEqual({ s1: { label: "x" } });
+  });
+
+  it("does not report a change when the write fails", () => {
+    const sessionsPath = path.join(tmpDir, "sessions.json");
+    fs.writeFileSync(sessionsPath, JSON.stringify({ s1: { model: "p/a" } }));
+    const onChange = vi.fn();
+    const logger = { warn: vi.fn() };
+    const rename = vi.spyOn(fs, "renameSync").mockImplementation(() => {
+      throw new Error("EACCES");
+    });
+
+    expect(patchSessionModel(sessionsPath, "s1", "p/b", logger, onChange)).toBe(false);
+    rename.mockRestore();
+    expect(onChange).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalled();
+    expect(readSessions(sessionsPath)).toEqual({ s1: { model: "p/a" } });
+  });
+
+  it("warns instead of throwing when the file is missing", () => {
+    const logger = { warn: vi.fn() };
+    expect(patchSessionModel(path.join(tmpDir, "missing.json"), "s1", "p/b", logger)).toBe(false);
+    expect(logger.warn).toHaveBeenCalled();
+    expect(readSessions(path.join(tmpDir, "missing.json"))).toBeUndefined();
+  });
+});
+
+describe("repinSessions", () => {
+  it("re-pins the chosen sessions in one write", () => {
+    const sessionsPath = path.join(tmpDir, "sessions.json");
+    fs.writeFileSync(sessionsPath, JSON.stringify({ s1: { model: "p/a" }, s2: { model: "q/a" }, s3: { model: "p/b" }, s4: {} }));
+    const logger = { info: vi.fn(), warn: vi.fn() };
+    const writes = vi.spyOn(fs, "renameSync");
+
+    const repins = repinSessions(sessionsPath, (_, model) => (model.startsWith("p/") ? "r/a" : undefined), logger);
+    expect(repins).toEqual([
+      { sessionKey: "s1", from: "p/a", to: "r/a" },
+      { sessionKey: "s3", from: "p/b", to: "r/a" },
+    ]);
+    expect(readSessions(sessionsPath)).toEqual({ s1: { model: "r/a" }, s2: { model: "q/a" }, s3: { model: "r/a" }, s4: {} });
+    expect(writes).toHaveBeenCalledTimes(1);
+    expect(logger.info).toHaveBeenCalledWith(
+      `[model-failover] Re-pinned 2 sessions in ${sessionsPath}: s1 p/a -> r/a, s3 p/b -> r/a`,
+    );
+
+    expect(repinSessions(sessionsPath, () => undefined, logger, { s2: "r/b", s4: "r/b" })).toEqual([
+      { sessionKey: "s2", from: "q/a", to: "r/b" },
+      { sessionKey: "s4", to: "r/b" },
+    ]);
+    expect(readSessions(sessionsPath)).toEqual({ s1: { model: "r/a" }, s2: { model: "r/b" }, s3: { model: "r/a" }, s4: { model: "r/b" } });
+    expect(writes).toHaveBeenCalledTimes(2);
+
+    expect(repinSessions(sessionsPath, () => undefined, logger)).toEqual([]);
+    expect(repinSessions(path.join(tmpDir, "missing.json"), () => "r/a", logger)).toEqual([]);
+    expect(logger.warn).toHaveBeenCalled();
+  });
+});
+
+describe("patchSessionAuthProfile", () => {
+  it("sets the auth profile and keeps the model", () => {
+    const sessionsPath = path.join(tmpDir, "sessions.json");
+    fs.writeFileSync(sessionsPath, JSON.stringify({ s1: { model: "p/a" } }));
+    const logger = { info: vi.fn(), warn: vi.fn() };
+
+    expect(patchSessionAuthProfile(sessionsPath, "s1", "p:k2", logger)).toBe(true);
+    expect(readSessions(sessionsPath)).toEqual({ s1: { model: "p/a", authProfileOverride: "p:k2" } });
+    expect(logger.info).toHaveBeenCalledWith("[model-failover] Patched session s1 auth profile: default -> p:k2");
+  });
+});
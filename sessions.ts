@@ -0,0 +1,235 @@
+/**
+ * Per-agent session stores.
+ *
+ * OpenClaw keeps one sessions.json per agent. The file for a turn is found by
+ * resolving the agent id, in order, from:
+ *
+ *   1. the hook context (`ctx.agentId`)
+ *   2. the session key (`agent:<agentId>:...`)
+ *   3. the gateway config's default agent (`agents.list[].default`, else the first entry)
+ *   4. "main"
+ *
+ * and substituting it into the `sessionsPathTemplate` (`{agentId}`).
+ *
+ * Programmatic usage:
+ *   import { resolveAgentId, sessionsPathFor } from "./sessions.js";
+ *   const file = sessionsPathFor(DEFAULT_SESSIONS_PATH_TEMPLATE, resolveAgentId(ctx, gatewayCfg));
+ */
+
+import fs from "node:fs";
+
+import { expandHome, atomicWriteFile } from "./index.js";
+import { withFileLock } from "./lock.js";
+
+// -------------------------------------------------------------------------
+// Path resolution
+// -------------------------------------------------------------------------
+
+export const DEFAULT_AGENT_ID = "main";
+
+export const DEFAULT_SESSIONS_PATH_TEMPLATE = "~/.openclaw/agents/{agentId}/sessions/sessions.json";
+
+export function agentIdFromSessionKey(sessionKey?: string): string | undefined {
+  const match = /^agent:([^:]+):/.exec(sessionKey ?? "");
+  return match?.[1];
+}
+
+/** The gateway's default agent: the one marked `default`, else the first listed. */
+export function defaultAgentId(gatewayCfg: any): string | undefined {
+  const list = gatewayCfg?.agents?.list;
+  if (!Array.isArray(list)) return undefined;
+  const agent = list.find((a: any) => a?.default === true) ?? list[0];
+  return typeof agent?.id === "string" && agent.id ? agent.id : undefined;
+}
+
+export function resolveAgentId(ctx: { agentId?: unknown; sessionKey?: string } | undefined, gatewayCfg?: any): string {
+  if (typeof ctx?.agentId === "string" && ctx.agentId) return ctx.agentId;
+  return agentIdFromSessionKey(ctx?.sessionKey) ?? defaultAgentId(gatewayCfg) ?? DEFAULT_AGENT_ID;
+}
+
+/**
+ * Substitute the agent id into the template and expand `~`. Characters that
+ * could escape the agents directory are replaced, so an id from a session key
+ * can never point outside it.
+ */
+export function sessionsPathFor(template: string, agentId: string): string {
+  let safe = agentId.replace(/[^A-Za-z0-9._-]/g, "_");
+  if (safe === "." || safe === "..") safe = "_";
+  return expandHome(template.replaceAll("{agentId}", safe));
+}
+
+/**
+ * Agents with a sessions.json for the template, found from the directory
+ * entries at the `{agentId}` position. Empty when the template has none.
+ */
+export function listAgentIds(template: string): string[] {
+  const expanded = expandHome(template);
+  const at = expanded.indexOf("{agentId}");
+  if (at < 0) return [];
+
+  // The path segment holding the agent id, e.g. "{agentId}" or "agent-{agentId}".
+  const dirEnd = expanded.lastIndexOf("/", at);
+  const segmentEnd = expanded.indexOf("/", at);
+  const segment = expanded.slice(dirEnd + 1, segmentEnd < 0 ? undefined : segmentEnd);
+  const [prefix, suffix] = segment.split("{agentId}");
+  let names: string[];
+  try {
+    names = fs.readdirSync(expanded.slice(0, dirEnd) || "/");
+  } catch {
+    return [];
+  }
+  return names
+    .filter((name) => name.length > prefix.length + suffix.length && name.startsWith(prefix) && name.endsWith(suffix))
+    .map((name) => name.slice(prefix.length, name.length - suffix.length))
+    .filter((agentId) => fs.existsSync(sessionsPathFor(template, agentId)))
+    .sort();
+}
+
+/**
+ * The sessions.json files that exist for the template: one per agent directory
+ * when the template contains `{agentId}`.
+ */
+export function listSessionsPaths(template: string): string[] {
+  if (!template.includes("{agentId}")) {
+    const file = expandHome(template);
+    return fs.existsSync(file) ? [file] : [];
+  }
+  return listAgentIds(template).map((agentId) => sessionsPathFor(template, agentId));
+}
+
+// -------------------------------------------------------------------------
+// Reading and patching
+// -------------------------------------------------------------------------
+
+/** Parse a sessions.json, or undefined if it is missing or unreadable. */
+export function readSessions(sessionsPath: string): Record<string, any> | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(sessionsPath, "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Change one session entry of the given sessions.json under its file lock.
+ * `apply` edits the entry and returns a description of the change for the log.
+ * Returns true if the session existed and was patched.
+ */
+function patchSessionEntry(
+  sessionsPath: string,
+  sessionKey: string,
+  apply: (entry: Record<string, any>) => string,
+  logger: any,
+): boolean {
+  try {
+    return withFileLock(sessionsPath, () => {
+      const raw = fs.readFileSync(sessionsPath, "utf-8");
+      const data = JSON.parse(raw);
+      if (!data[sessionKey]) return false;
+      const change = apply(data[sessionKey]);
+      atomicWriteFile(sessionsPath, JSON.stringify(data, null, 0));
+      logger?.info?.(`[model-failover] Patched session ${sessionKey} ${change}`);
+      return true;
+    });
+  } catch (e: any) {
+    logger?.warn?.(`[model-failover] Failed to patch sessions.json: ${e?.message ?? String(e)}`);
+    return false;
+  }
+}
+
+/**
+ * Pin a session to a model in the given sessions.json, under its file lock;
+ * `undefined` removes the pin. Once the file is written, `onChange` is called
+ * with the previous pin when it differs from the new one (see journal.ts).
+ * Returns true if the session existed and was patched.
+ */
+export function patchSessionModel(
+  sessionsPath: string,
+  sessionKey: string,
+  model: string | undefined,
+  logger: any,
+  onChange?: (prev: string | undefined) => void,
+): boolean {
+  let changed: { prev: string | undefined } | undefined;
+  const patched = patchSessionEntry(
+    sessionsPath,
+    sessionKey,
+    (entry) => {
+      const prev = typeof entry.model === "string" ? entry.model : undefined;
+      if (model === undefined) delete entry.model;
+      else entry.model = model;
+      changed = prev !== model ? { prev } : undefined;
+      return `model: ${prev} -> ${model ?? "(unpinned)"}`;
+    },
+    logger,
+  );
+  if (patched && changed) onChange?.(changed.prev);
+  return patched;
+}
+
+export interface Repin {
+  sessionKey: string;
+  /** Absent when the session had no pin (only for sessions in `pins`). */
+  from?: string;
+  to: string;
+}
+
+/**
+ * Re-pin any number of sessions of the given sessions.json in one locked,
+ * atomic write. `choose` gets each pinned session and returns its new model,
+ * or undefined to leave it alone; sessions in `pins` get their model there
+ * without asking, pinned or not. Returns the changed sessions.
+ */
+export function repinSessions(
+  sessionsPath: string,
+  choose: (sessionKey: string, model: string) => string | undefined,
+  logger: any,
+  pins: Record<string, string> = {},
+): Repin[] {
+  try {
+    return withFileLock(sessionsPath, () => {
+      const data = JSON.parse(fs.readFileSync(sessionsPath, "utf-8"));
+      const repins: Repin[] = [];
+      for (const [sessionKey, entry] of Object.entries<any>(data)) {
+        if (!entry || typeof entry !== "object") continue;
+        const from = typeof entry.model === "string" ? entry.model : undefined;
+        const to = Object.hasOwn(pins, sessionKey) ? pins[sessionKey] : from !== undefined ? choose(sessionKey, from) : undefined;
+        if (!to || to === from) continue;
+        repins.push({ sessionKey, ...(from !== undefined ? { from } : {}), to });
+        entry.model = to;
+      }
+      if (repins.length === 0) return repins;
+      atomicWriteFile(sessionsPath, JSON.stringify(data, null, 0));
+      logger?.info?.(
+        `[model-failover] Re-pinned ${repins.length} session${repins.length === 1 ? "" : "s"} in ${sessionsPath}: ` +
+          repins.map((r) => `${r.sessionKey} ${r.from ?? "(unpinned)"} -> ${r.to}`).join(", "),
+      );
+      return repins;
+    });
+  } catch (e: any) {
+    logger?.warn?.(`[model-failover] Failed to patch sessions.json: ${e?.message ?? String(e)}`);
+    return [];
+  }
+}
+
+/**
+ * Pin a session to a gateway auth profile (`authProfileOverride`), under the
+ * file lock. Returns true if the session existed and was patched.
+ */
+export function patchSessionAuthProfile(
+  sessionsPath: string,
+  sessionKey: string,
+  authProfileId: string,
+  logger: any,
+): boolean {
+  return patchSessionEntry(
+    sessionsPath,
+    sessionKey,
+    (entry) => {
+      const prev = entry.authProfileOverride;
+      entry.authProfileOverride = authProfileId;
+      return `auth profile: ${prev ?? "default"} -> ${authProfileId}`;
+    },
+    logger,
+  );
+}
@@ -8,6 +8,8 @@ import {
   clearAllModels,
   formatDuration,
   formatStatus,
+  readPluginConfig,
+  pluginStoreOptions,
   type FailoverStatus,
 } from "./status.js";
 import {
@@ -16,6 +18,8 @@ import {
   nowSec,
   type LimitState,
 } from "./index.js";
+import { addUsage } from "./budget.js";
+import { createStateStore } from "./store.js";
 
 // ---------------------------------------------------------------------------
 // Test fixtures
@@ -137,6 +141,49 @@ describe("getFailoverStatus - with blocked models", () => {
     expect(blocked[0].nextAvailableAt).toBeDefined();
   });
 
+  it("reports the strike count of backed-off models", () => {
+    const now = nowSec();
+    saveState(statePath, {
+      limited: {
+        "provA/model1": { lastHitAt: now, nextAvailableAt: now + 7200, reason: "429", strikes: 3 },
+      },
+    });
+
+    const status = getFailoverStatus({ statePath, modelOrder: TEST_MODEL_ORDER });
+    expect(status.models[0].strikes).toBe(3);
+    expect(status.models[1].strikes).toBeUndefined();
+  });
+
+  it("reports the scope of wider blocks", () => {
+    const now = nowSec();
+    saveState(statePath, {
+      limited: {
+        "provA/model1": { lastHitAt: now, nextAvailableAt: now + 600, reason: "Provider provA exhausted", scope: "provider" },
+        "provB/model3": { lastHitAt: now, nextAvailableAt: now + 600, reason: "TPM", scope: "model" },
+      },
+    });
+
+    const status = getFailoverStatus({ statePath, modelOrder: TEST_MODEL_ORDER });
+    expect(status.models.find((m) => m.model === "provA/model1")?.scope).toBe("provider");
+    const text = formatStatus(status);
+    expect(text).toContain("Scope       : provider");
+    expect(text.match(/Scope {7}:/g)).toHaveLength(1);
+  });
+
+  it("reports the circuit state of each model", () => {
+    const now = nowSec();
+    saveState(statePath, {
+      limited: {
+        "provA/model1": { lastHitAt: now - 7200, nextAvailableAt: now + 60 },
+        "provA/model2": { lastHitAt: now - 7200, nextAvailableAt: now - 1 },
+      },
+    });
+
+    const status = getFailoverStatus({ statePath, modelOrder: TEST_MODEL_ORDER });
+    expect(status.models.map((m) => m.circuit)).toEqual(["open", "half-open", "closed", "closed"]);
+    expect(formatStatus(status)).toContain("[HALF   ] provA/model2");
+  });
+
   it("treats expired cooldowns as available", () => {
     const now = nowSec();
     const state: LimitState = {
@@ -198,6 +245,80 @@ describe("getFailoverStatus - with blocked models", () => {
   });
 });
 
+describe("getFailoverStatus - with blocked keys", () => {
+  it("lists limited credential profiles and clears them by id", () => {
+    const now = nowSec();
+    saveState(statePath, {
+      limited: {},
+      credentials: {
+        "provA@k1": { lastHitAt: now - 60, nextAvailableAt: now + 600, reason: "rate limit exceeded", strikes: 2 },
+        "provA@k2": { lastHitAt: now - 900, nextAvailableAt: now - 300 },
+      },
+    });
+
+    const status = getFailoverStatus({ statePath, modelOrder: TEST_MODEL_ORDER });
+    expect(status.availableCount).toBe(4);
+    expect(status.credentials).toEqual([
+      { profile: "provA@k1", reason: "rate limit exceeded", nextAvailableAt: now + 600, remainingSeconds: 600, strikes: 2 },
+    ]);
+
+    const output = formatStatus(status);
+    expect(output).toContain("Blocked keys:");
+    expect(output).toContain("  - provA@k1");
+    expect(output).toContain("Strikes     : 2 (backoff)");
+
+    expect(clearModel("provA@k1", statePath)).toBe(true);
+    expect(loadState(statePath).credentials?.["provA@k1"]).toBeUndefined();
+    expect(clearAllModels(statePath)).toBe(1);
+    expect(loadState(statePath).credentials).toBeUndefined();
+  });
+});
+
+describe("getFailoverStatus - with budgets", () => {
+  it("marks models over budget and lists usage per budget", () => {
+    const now = nowSec();
+    saveState(statePath, {
+      limited: {},
+      usage: { provA: addUsage(undefined, { inputTokens: 600, outputTokens: 400, totalTokens: 1000 }, now) },
+    });
+
+    const status = getFailoverStatus({ statePath, modelOrder: TEST_MODEL_ORDER, budgets: { provA: { tokensPerDay: 1000 } } });
+    expect(status.models.find((m) => m.model === "provA/model1")?.overBudget).toMatchObject({
+      key: "provA",
+      metric: "tokensPerDay",
+    });
+    expect(status.activeModel).toBe("provB/model3");
+    expect(status.budgets).toEqual([
+      expect.objectContaining({ key: "provA", limits: { tokensPerDay: 1000 }, exceeded: "tokensPerDay" }),
+    ]);
+
+    const output = formatStatus(status);
+    expect(output).toContain("[BUDGET ] provA/model1");
+    expect(output).toMatch(/provA +requests\/min 1 {2}tokens\/day 1000\/1000 {2}spend\/month \$0\.00/);
+    expect(output).toContain("Exceeded    : tokens/day, resets in");
+  });
+
+  it("skips models over budget and open circuits in the active model of an override", () => {
+    const now = nowSec();
+    saveState(statePath, {
+      limited: {
+        "provB/model3": { lastHitAt: now, nextAvailableAt: now + 600 },
+        "provC/model4": { lastHitAt: now - 600, nextAvailableAt: now - 1, strikes: 1 },
+      },
+      usage: { provA: addUsage(undefined, { inputTokens: 600, outputTokens: 400, totalTokens: 1000 }, now) },
+    });
+
+    const status = getFailoverStatus({
+      statePath,
+      modelOrder: TEST_MODEL_ORDER,
+      modelOrderOverrides: { "agent:coder": ["provA/model2", "provB/model3", "provC/model4"] },
+      budgets: { provA: { tokensPerDay: 1000 } },
+    });
+    expect(status.activeModel).toBe("provC/model4");
+    expect(status.overrides?.[0]).toMatchObject({ key: "agent:coder", activeModel: "provC/model4", blockedCount: 1 });
+  });
+});
+
 // ---------------------------------------------------------------------------
 // 4. getFailoverStatus - all models blocked
 // ---------------------------------------------------------------------------
@@ -224,6 +345,37 @@ describe("getFailoverStatus - all models blocked", () => {
     // firstAvailableModel returns the last model as ultimate fallback
     expect(status.activeModel).toBe("provC/model4");
   });
+
+  it("reports the active model of each order override", () => {
+    const now = nowSec();
+    saveState(statePath, {
+      limited: { "perplexity/sonar-pro": { lastHitAt: now, nextAvailableAt: now + 600 } },
+    });
+
+    const status = getFailoverStatus({
+      statePath,
+      modelOrder: TEST_MODEL_ORDER,
+      modelOrderOverrides: {
+        "agent:research": ["perplexity/sonar-pro", "provA/model1"],
+        "channel:telegram": ["provB/model3"],
+      },
+    });
+
+    expect(status.overrides).toEqual([
+      {
+        key: "agent:research",
+        scope: "agent",
+        modelOrder: ["perplexity/sonar-pro", "provA/model1"],
+        activeModel: "provA/model1",
+        blockedCount: 1,
+      },
+      { key: "channel:telegram", scope: "channel", modelOrder: ["provB/model3"], activeModel: "provB/model3", blockedCount: 0 },
+    ]);
+  });
+
+  it("omits overrides when none are configured", () => {
+    expect(getFailoverStatus({ statePath, modelOrder: TEST_MODEL_ORDER }).overrides).toBeUndefined();
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -368,6 +520,49 @@ describe("formatStatus", () => {
     expect(output).toContain("[OK     ] provB/m2");
   });
 
+  it("shows the strike count for backed-off models", () => {
+    const now = nowSec();
+    const status: FailoverStatus = {
+      timestamp: now,
+      statePath: "/tmp/state.json",
+      models: [
+        {
+          model: "provA/m1",
+          available: false,
+          reason: "rate limit exceeded",
+          nextAvailableAt: now + 7200,
+          remainingSeconds: 7200,
+          strikes: 2,
+        },
+      ],
+      activeModel: undefined,
+      blockedCount: 1,
+      availableCount: 0,
+    };
+
+    expect(formatStatus(status)).toContain("Strikes     : 2 (backoff)");
+  });
+
+  it("lists order overrides per scope", () => {
+    const status: FailoverStatus = {
+      timestamp: nowSec(),
+      statePath: "/tmp/state.json",
+      models: [{ model: "provA/m1", available: true }],
+      activeModel: "provA/m1",
+      blockedCount: 0,
+      availableCount: 1,
+      overrides: [
+        { key: "agent:coder", scope: "agent", modelOrder: ["provB/m2", "provA/m1"], activeModel: "provA/m1", blockedCount: 1 },
+      ],
+    };
+
+    const output = formatStatus(status);
+    expect(output).toContain("Order overrides:");
+    expect(output).toContain("  agent:coder");
+    expect(output).toContain("Active model: provA/m1 (1 of 2 blocked)");
+    expect(output).toContain("Order       : provB/m2 -> provA/m1");
+  });
+
   it("handles no active model gracefully", () => {
     const status: FailoverStatus = {
       timestamp: nowSec(),
@@ -382,3 +577,63 @@ describe("formatStatus", () => {
     expect(output).toContain("Active model : (none)");
   });
 });
+
+// ---------------------------------------------------------------------------
+// 8. readPluginConfig
+// ---------------------------------------------------------------------------
+describe("readPluginConfig", () => {
+  it("reads the plugin's config block and reports per-scope orders from it", () => {
+    const configPath = path.join(tmpDir, "openclaw.json");
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        plugins: {
+          entries: {
+            "openclaw-model-failover": {
+              config: { modelOrder: TEST_MODEL_ORDER, modelOrderOverrides: { "agent:coder": ["provB/model3", "provA/model1"] } },
+            },
+          },
+        },
+      }),
+    );
+    saveState(statePath, { limited: { "provB/model3": { lastHitAt: nowSec(), nextAvailableAt: nowSec() + 600 } } });
+
+    const cfg = readPluginConfig(configPath);
+    const output = formatStatus(getFailoverStatus({ statePath, ...cfg }));
+    expect(output).toContain("Order overrides:");
+    expect(output).toContain("  agent:coder");
+    expect(output).toContain("Active model: provA/model1 (1 of 2 blocked)");
+  });
+
+  it("returns an empty config for missing or unreadable files", () => {
+    expect(readPluginConfig(path.join(tmpDir, "missing.json"))).toEqual({});
+    fs.writeFileSync(path.join(tmpDir, "bad.json"), "{ not json");
+    expect(readPluginConfig(path.join(tmpDir, "bad.json"))).toEqual({});
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 9. pluginStoreOptions
+// ---------------------------------------------------------------------------
+describe("pluginStoreOptions", () => {
+  it("opens the store the plugin is configured with, unless --db overrides it", () => {
+    const cfg = { stateStore: "sqlite", stateDatabase: "/data/fo.sqlite", stateFile: "/data/state.json" };
+    expect(pluginStoreOptions(cfg)).toEqual({
+      kind: "sqlite",
+      statePath: "/data/state.json",
+      metricsPath: undefined,
+      databasePath: "/data/fo.sqlite",
+    });
+    expect(pluginStoreOptions(cfg, "/tmp/other.sqlite")).toEqual({ kind: "sqlite", databasePath: "/tmp/other.sqlite" });
+    expect(pluginStoreOptions({ stateStore: "bogus" }).kind).toBe("file");
+  });
+
+  it("reads and clears the configured state file", () => {
+    const custom = path.join(tmpDir, "custom.json");
+    saveState(custom, { limited: { "provA/model1": { lastHitAt: nowSec(), nextAvailableAt: nowSec() + 600 } } });
+    const store = createStateStore(pluginStoreOptions({ stateFile: custom }));
+    expect(getFailoverStatus({ store, modelOrder: TEST_MODEL_ORDER }).blockedCount).toBe(1);
+    expect(clearModel("provA/model1", store)).toBe(true);
+    expect(loadState(custom).limited).toEqual({});
+  });
+});
@@ -5,22 +5,50 @@
  *   npx tsx status.ts                  # pretty-print current status
  *   npx tsx status.ts --json           # machine-readable JSON output
  *   npx tsx status.ts clear <model-id> # clear a single model's rate limit
+ *   npx tsx status.ts clear <provider>@<profile> # clear a credential profile's rate limit
  *   npx tsx status.ts clear --all      # clear all rate limits
+ *   npx tsx status.ts --db <path>      # read this SQLite state store instead of the configured one
+ *   npx tsx status.ts --config <path>  # OpenClaw config to read the plugin's store and model order from
+ *   npx tsx status.ts sessions         # list pinned sessions and their journaled changes
+ *   npx tsx status.ts sessions rollback <session-key> | --since <time>
+ *                                      # restore sessions' models from the pin journal (see journal.ts)
  *
  * Programmatic usage:
  *   import { getFailoverStatus, clearModel, clearAllModels } from "./status.js";
  */
 
+import fs from "node:fs";
+
 import {
-  expandHome,
-  loadState,
-  saveState,
   nowSec,
+  expandHome,
   firstAvailableModel,
   DEFAULT_MODEL_ORDER,
-  DEFAULT_STATE_FILE,
   type LimitState,
 } from "./index.js";
+import { circuitState, type CircuitState } from "./circuit.js";
+import {
+  createFileStateStore,
+  createStateStore,
+  STATE_STORE_KINDS,
+  type StateStore,
+  type StateStoreOptions,
+} from "./store.js";
+import { buildModelOrderOverrides, type OverrideScope } from "./overrides.js";
+import { flattenOrder, formatModelOrder, type ModelOrderEntry } from "./tiers.js";
+import type { BlockScope } from "./scope.js";
+import { parseProfileId } from "./credentials.js";
+import { DEFAULT_SESSIONS_PATH_TEMPLATE } from "./sessions.js";
+import {
+  formatPinnedSessions,
+  formatRollback,
+  knownSessionsPaths,
+  listPinnedSessions,
+  loadPinChanges,
+  rollbackSessions,
+  DEFAULT_PIN_JOURNAL_FILE,
+} from "./journal.js";
+import { budgetBreach, budgetResetAt, buildBudgets, currentUsage, BUDGET_METRICS, type Budget, type BudgetBreach, type BudgetMetric, type Budgets } from "./budget.js";
 
 // -------------------------------------------------------------------------
 // Types
@@ -33,6 +61,43 @@ export interface ModelStatus {
   lastHitAt?: number;
   nextAvailableAt?: number;
   remainingSeconds?: number;
+  /** Consecutive failures driving the current (backed-off) cooldown. */
+  strikes?: number;
+  /** Circuit-breaker state; half-open models only take trial turns. */
+  circuit?: CircuitState;
+  /** Whether the block came from this model, its provider or its account (see scope.ts). */
+  scope?: BlockScope;
+  /** The used-up budget of the model or its provider; routing skips the model until it resets. */
+  overBudget?: BudgetBreach;
+}
+
+/** A limited credential profile (see credentials.ts). */
+export interface CredentialStatus {
+  profile: string;
+  reason?: string;
+  nextAvailableAt: number;
+  remainingSeconds: number;
+  strikes?: number;
+}
+
+/** Usage of a model or provider in the current windows, against its budget (see budget.ts). */
+export interface BudgetStatus {
+  key: string;
+  used: Record<BudgetMetric, number>;
+  /** Configured limits; empty for counters without a budget passed in. */
+  limits: Budget;
+  /** The first used-up limit and when its window ends. */
+  exceeded?: BudgetMetric;
+  resetsAt?: number;
+}
+
+/** Effective model of one modelOrderOverrides entry. */
+export interface OverrideStatus {
+  key: string;
+  scope: OverrideScope;
+  modelOrder: ModelOrderEntry[];
+  activeModel: string | undefined;
+  blockedCount: number;
 }
 
 export interface FailoverStatus {
@@ -42,22 +107,41 @@ export interface FailoverStatus {
   activeModel: string | undefined;
   blockedCount: number;
   availableCount: number;
+  /** One entry per model order override, when any are configured. */
+  overrides?: OverrideStatus[];
+  /** Credential profiles whose cooldown is running, when there are any. */
+  credentials?: CredentialStatus[];
+  /** Budget usage per model or provider, when budgets are configured or usage is recorded. */
+  budgets?: BudgetStatus[];
 }
 
 // -------------------------------------------------------------------------
 // Core functions
 // -------------------------------------------------------------------------
 
+/** A state file path (default store) or an explicit store. */
+function resolveStore(target?: string | StateStore): StateStore {
+  return typeof target === "object" ? target : createFileStateStore({ statePath: target });
+}
+
 /**
  * Build a structured snapshot of the current failover state.
  */
 export function getFailoverStatus(opts?: {
   statePath?: string;
-  modelOrder?: string[];
+  /** May contain tiers (see tiers.ts). */
+  modelOrder?: ModelOrderEntry[];
+  /** Per-scope orders, keyed like the plugin's modelOrderOverrides. */
+  modelOrderOverrides?: Record<string, ModelOrderEntry[]>;
+  /** Read from this store instead of the state file at statePath. */
+  store?: StateStore;
+  /** The plugin's budgets; without them only the recorded usage is shown. */
+  budgets?: Budgets;
 }): FailoverStatus {
-  const resolvedPath = expandHome(opts?.statePath ?? DEFAULT_STATE_FILE);
-  const modelOrder = opts?.modelOrder ?? DEFAULT_MODEL_ORDER;
-  const state = loadState(resolvedPath);
+  const store = resolveStore(opts?.store ?? opts?.statePath);
+  const budgets = opts?.budgets ?? {};
+  const modelOrder = flattenOrder(opts?.modelOrder ?? DEFAULT_MODEL_ORDER);
+  const state = store.load();
   const now = nowSec();
 
   const seen = new Set<string>();
@@ -75,6 +159,10 @@ export function getFailoverStatus(opts?: {
       lastHitAt: lim?.lastHitAt,
       nextAvailableAt: isLimited ? lim.nextAvailableAt : undefined,
       remainingSeconds: isLimited ? lim.nextAvailableAt - now : undefined,
+      strikes: isLimited ? lim.strikes : undefined,
+      scope: isLimited ? lim.scope : undefined,
+      circuit: circuitState(lim, now),
+      overBudget: budgetBreach(state.usage, budgets, model, now),
     });
   }
 
@@ -89,51 +177,133 @@ export function getFailoverStatus(opts?: {
       lastHitAt: lim.lastHitAt,
       nextAvailableAt: isLimited ? lim.nextAvailableAt : undefined,
       remainingSeconds: isLimited ? lim.nextAvailableAt - now : undefined,
+      strikes: isLimited ? lim.strikes : undefined,
+      scope: isLimited ? lim.scope : undefined,
+      circuit: circuitState(lim, now),
     });
   }
 
-  const activeModel = firstAvailableModel(modelOrder, state);
+  // The model a turn on `order` is routed to: the first whose circuit is not open and that is within budget.
+  const activeIn = (order: string[]) =>
+    order.find((m) => circuitState(state.limited[m], now) !== "open" && !budgetBreach(state.usage, budgets, m, now)) ??
+    firstAvailableModel(order, state);
+
+  const activeModel = activeIn(modelOrder);
   const blockedCount = models.filter((m) => !m.available).length;
   const availableCount = models.filter((m) => m.available).length;
 
+  const overrides = buildModelOrderOverrides(opts?.modelOrderOverrides).map((o) => {
+    const flat = flattenOrder(o.modelOrder);
+    return {
+      key: o.key,
+      scope: o.scope,
+      modelOrder: o.modelOrder,
+      activeModel: activeIn(flat),
+      blockedCount: flat.filter((m) => (state.limited[m]?.nextAvailableAt ?? 0) > now).length,
+    };
+  });
+
+  const credentials: CredentialStatus[] = Object.entries(state.credentials ?? {})
+    .filter(([, lim]) => lim.nextAvailableAt > now)
+    .map(([profile, lim]) => ({
+      profile,
+      reason: lim.reason,
+      nextAvailableAt: lim.nextAvailableAt,
+      remainingSeconds: lim.nextAvailableAt - now,
+      strikes: lim.strikes,
+    }));
+
+  const budgetStatus: BudgetStatus[] = [...new Set([...Object.keys(budgets), ...Object.keys(state.usage ?? {})])].map(
+    (key) => {
+      const used = currentUsage(state.usage?.[key], now);
+      const limits = budgets[key] ?? {};
+      const exceeded = BUDGET_METRICS.find((m) => limits[m] !== undefined && used[m] >= limits[m]!);
+      return { key, used, limits, ...(exceeded ? { exceeded, resetsAt: budgetResetAt(exceeded, now) } : {}) };
+    },
+  );
+
   return {
     timestamp: now,
-    statePath: resolvedPath,
+    statePath: store.location,
     models,
     activeModel,
     blockedCount,
     availableCount,
+    ...(overrides.length > 0 ? { overrides } : {}),
+    ...(credentials.length > 0 ? { credentials } : {}),
+    ...(budgetStatus.length > 0 ? { budgets: budgetStatus } : {}),
   };
 }
 
 /**
- * Remove the rate-limit entry for a single model. Returns true if an entry existed.
+ * Remove the rate-limit entry for a single model, or for a credential profile
+ * (`<provider>@<name>`). Returns true if an entry existed.
  */
 export function clearModel(
   model: string,
-  statePath?: string,
+  target?: string | StateStore,
 ): boolean {
-  const resolved = expandHome(statePath ?? DEFAULT_STATE_FILE);
-  const state = loadState(resolved);
-  if (!(model in state.limited)) return false;
-  delete state.limited[model];
-  saveState(resolved, state);
-  return true;
+  let cleared = false;
+  resolveStore(target).update((state) => {
+    const entries = parseProfileId(model) ? (state.credentials ?? {}) : state.limited;
+    cleared = model in entries;
+    delete entries[model];
+    return cleared;
+  });
+  return cleared;
 }
 
 /**
- * Remove all rate-limit entries. Returns the number of entries cleared.
+ * Remove all rate-limit entries, of models and credential profiles. Returns the
+ * number of entries cleared.
  */
-export function clearAllModels(statePath?: string): number {
-  const resolved = expandHome(statePath ?? DEFAULT_STATE_FILE);
-  const state = loadState(resolved);
-  const count = Object.keys(state.limited).length;
-  if (count === 0) return 0;
-  state.limited = {};
-  saveState(resolved, state);
+export function clearAllModels(target?: string | StateStore): number {
+  let count = 0;
+  resolveStore(target).update((state) => {
+    count = Object.keys(state.limited).length + Object.keys(state.credentials ?? {}).length;
+    state.limited = {};
+    delete state.credentials;
+    return count > 0;
+  });
   return count;
 }
 
+// -------------------------------------------------------------------------
+// Plugin configuration
+// -------------------------------------------------------------------------
+
+export const DEFAULT_OPENCLAW_CONFIG_FILE = "~/.openclaw/openclaw.json";
+
+/**
+ * The plugin's config block (`plugins.entries["openclaw-model-failover"].config`)
+ * of an OpenClaw config file, so the CLI works on the same store and reports the
+ * same orders and budgets as the plugin. Returns an empty object if the file is missing or unreadable.
+ */
+export function readPluginConfig(configPath: string = DEFAULT_OPENCLAW_CONFIG_FILE): Record<string, any> {
+  try {
+    const config = JSON.parse(fs.readFileSync(expandHome(configPath), "utf-8"));
+    const pluginCfg = config?.plugins?.entries?.["openclaw-model-failover"]?.config;
+    return pluginCfg && typeof pluginCfg === "object" ? pluginCfg : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Where the plugin configured by `pluginCfg` keeps its state (`stateStore`,
+ * `stateFile`, `metricsFile`, `stateDatabase`); `dbPath` overrides it with a
+ * SQLite database.
+ */
+export function pluginStoreOptions(pluginCfg: Record<string, any>, dbPath?: string): StateStoreOptions {
+  if (dbPath) return { kind: "sqlite", databasePath: dbPath };
+  return {
+    kind: STATE_STORE_KINDS.includes(pluginCfg.stateStore) ? pluginCfg.stateStore : "file",
+    statePath: pluginCfg.stateFile,
+    metricsPath: pluginCfg.metricsFile,
+    databasePath: pluginCfg.stateDatabase,
+  };
+}
+
 // -------------------------------------------------------------------------
 // Formatting helpers
 // -------------------------------------------------------------------------
@@ -153,6 +323,12 @@ export function formatDuration(seconds: number): string {
   return parts.join(" ") || "now";
 }
 
+const BUDGET_LABELS: Record<BudgetMetric, string> = {
+  requestsPerMinute: "requests/min",
+  tokensPerDay: "tokens/day",
+  dollarsPerMonth: "spend/month",
+};
+
 /**
  * Pretty-print a FailoverStatus object for terminal output.
  */
@@ -175,6 +351,8 @@ export function formatStatus(status: FailoverStatus): string {
         lines.push(`  - ${m.model}`);
         lines.push(`    Reason      : ${m.reason ?? "unknown"}`);
         lines.push(`    Available in: ${remaining} (${availAt})`);
+        if (m.strikes && m.strikes > 1) lines.push(`    Strikes     : ${m.strikes} (backoff)`);
+        if (m.scope && m.scope !== "model") lines.push(`    Scope       : ${m.scope}`);
       }
     }
   }
@@ -182,10 +360,47 @@ export function formatStatus(status: FailoverStatus): string {
   lines.push("");
   lines.push("Model order:");
   for (const m of status.models) {
-    const marker = m.available ? "OK" : "BLOCKED";
+    const marker = !m.available ? "BLOCKED" : m.overBudget ? "BUDGET" : m.circuit === "half-open" ? "HALF" : "OK";
     lines.push(`  [${marker.padEnd(7)}] ${m.model}`);
   }
 
+  if (status.credentials?.length) {
+    lines.push("");
+    lines.push("Blocked keys:");
+    for (const c of status.credentials) {
+      lines.push(`  - ${c.profile}`);
+      lines.push(`    Reason      : ${c.reason ?? "unknown"}`);
+      lines.push(`    Available in: ${formatDuration(c.remainingSeconds)} (${new Date(c.nextAvailableAt * 1000).toISOString()})`);
+      if (c.strikes && c.strikes > 1) lines.push(`    Strikes     : ${c.strikes} (backoff)`);
+    }
+  }
+
+  if (status.budgets?.length) {
+    lines.push("");
+    lines.push("Budgets:");
+    for (const b of status.budgets) {
+      const usage = BUDGET_METRICS.map((m) => {
+        const used = m === "dollarsPerMonth" ? `$${b.used[m].toFixed(2)}` : String(b.used[m]);
+        const limit = b.limits[m] === undefined ? "" : m === "dollarsPerMonth" ? `/$${b.limits[m]!.toFixed(2)}` : `/${b.limits[m]}`;
+        return `${BUDGET_LABELS[m]} ${used}${limit}`;
+      });
+      lines.push(`  ${b.key.padEnd(24)} ${usage.join("  ")}`);
+      if (b.exceeded) {
+        lines.push(`    Exceeded    : ${BUDGET_LABELS[b.exceeded]}, resets in ${formatDuration((b.resetsAt ?? 0) - status.timestamp)}`);
+      }
+    }
+  }
+
+  if (status.overrides?.length) {
+    lines.push("");
+    lines.push("Order overrides:");
+    for (const o of status.overrides) {
+      lines.push(`  ${o.key}`);
+      lines.push(`    Active model: ${o.activeModel ?? "(none)"} (${o.blockedCount} of ${flattenOrder(o.modelOrder).length} blocked)`);
+      lines.push(`    Order       : ${formatModelOrder(o.modelOrder)}`);
+    }
+  }
+
   return lines.join("\n");
 }
 
@@ -198,27 +413,79 @@ const isDirectRun =
   process.argv[1] &&
   (process.argv[1].endsWith("status.ts") || process.argv[1].endsWith("status.js"));
 
+/** Epoch seconds from an ISO time or a number of epoch seconds. */
+function parseTimeArg(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return Number(value);
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? undefined : Math.floor(ms / 1000);
+}
+
 if (isDirectRun) {
   const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const idx = args.indexOf(name);
+    return idx >= 0 ? args.splice(idx, 2)[1] : undefined;
+  };
+  const pluginCfg = readPluginConfig(option("--config"));
+  const dbPath = option("--db");
+  const journalPath = option("--journal") ?? pluginCfg.pinJournalFile ?? DEFAULT_PIN_JOURNAL_FILE;
+  const sessionsTemplate = option("--sessions") ?? pluginCfg.sessionsPathTemplate ?? DEFAULT_SESSIONS_PATH_TEMPLATE;
+  const onWarn = (message: string) => console.warn(`[model-failover] ${message}`);
+  const storeOpts = { ...pluginStoreOptions(pluginCfg, dbPath), onWarn };
+  if (storeOpts.kind === "memory") {
+    console.log("The plugin keeps its state in memory (stateStore: memory); there is nothing to inspect from here.");
+    process.exit(1);
+  }
+  let store: StateStore;
+  try {
+    store = createStateStore(storeOpts);
+  } catch (e: any) {
+    // Same fallback as the plugin when the SQLite store cannot be opened.
+    onWarn(`Cannot open ${storeOpts.kind} state store (${e?.message ?? String(e)}); using the state file.`);
+    store = createFileStateStore({ ...storeOpts, kind: "file" });
+  }
+  const statusOpts = {
+    store,
+    modelOrder: Array.isArray(pluginCfg.modelOrder) && pluginCfg.modelOrder.length > 0 ? pluginCfg.modelOrder : undefined,
+    modelOrderOverrides: pluginCfg.modelOrderOverrides,
+    budgets: buildBudgets(pluginCfg.budgets),
+  };
 
-  if (args[0] === "clear") {
+  if (args[0] === "sessions") {
+    if (args[1] === "rollback") {
+      const since = args[2] === "--since" ? parseTimeArg(args[3]) : undefined;
+      const session = args[2] !== "--since" ? args[2] : undefined;
+      if (since === undefined && !session) {
+        console.log("Usage: npx tsx status.ts sessions rollback <session-key> | --since <ISO time | epoch seconds>");
+        process.exit(1);
+      }
+      const results = rollbackSessions(journalPath, { session, since });
+      console.log(formatRollback(results));
+      if (results.some((r) => !r.ok)) process.exit(1);
+    } else {
+      const changes = loadPinChanges(journalPath);
+      const sessions = listPinnedSessions(knownSessionsPaths(sessionsTemplate, changes), changes);
+      console.log(args.includes("--json") ? JSON.stringify(sessions, null, 2) : formatPinnedSessions(sessions));
+    }
+  } else if (args[0] === "clear") {
     const target = args[1];
     if (target === "--all") {
-      const count = clearAllModels();
+      const count = clearAllModels(store);
       console.log(`Cleared ${count} rate-limit ${count === 1 ? "entry" : "entries"}.`);
     } else if (target) {
-      const ok = clearModel(target);
+      const ok = clearModel(target, store);
       console.log(
         ok
           ? `Cleared rate limit for ${target}.`
           : `No rate-limit entry found for ${target}.`,
       );
     } else {
-      console.log("Usage: npx tsx status.ts clear <model-id> | --all");
+      console.log("Usage: npx tsx status.ts clear <model-id> | <provider>@<profile> | --all");
       process.exit(1);
     }
   } else if (args[0] === "--json") {
-    const status = getFailoverStatus();
+    const status = getFailoverStatus(statusOpts);
     console.log(JSON.stringify(status, null, 2));
   } else if (args[0] === "--help" || args[0] === "-h") {
     console.log(
@@ -229,12 +496,20 @@ if (isDirectRun) {
         "  (default)             Pretty-print current failover status",
         "  --json                Output status as JSON",
         "  clear <model-id>     Clear rate limit for a specific model",
+        "  clear <provider>@<profile>  Clear rate limit for a credential profile",
         "  clear --all           Clear all rate-limit entries",
+        "  sessions [--json]     List pinned sessions with their original model",
+        "  sessions rollback <session-key>  Restore a session's model from before its first journaled change",
+        "  sessions rollback --since <time> Restore every session changed since an ISO time or epoch seconds",
+        "  --db <path>           Use this SQLite state store instead of the configured one",
+        "  --config <path>       OpenClaw config with the plugin's state store, model orders and budgets (default: ~/.openclaw/openclaw.json)",
+        "  --journal <path>      Pin journal to read (default: the plugin's pinJournalFile, else ~/.openclaw/workspace/memory/model-failover-pins.jsonl)",
+        "  --sessions <template> sessions.json path template (default: the plugin's sessionsPathTemplate, else ~/.openclaw/agents/{agentId}/sessions/sessions.json)",
         "  --help, -h            Show this help message",
       ].join("\n"),
     );
   } else {
-    const status = getFailoverStatus();
+    const status = getFailoverStatus(statusOpts);
     console.log(formatStatus(status));
   }
 }
@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import {
+  createStateStore,
+  createFileStateStore,
+  createMemoryStateStore,
+  createSqliteStateStore,
+  openSqliteDatabase,
+  sqliteAvailable,
+  type StateStore,
+} from "./store.js";
+import { loadState, saveState, nowSec } from "./index.js";
+import { STATE_VERSION } from "./schema.js";
+import { getFailoverStatus, clearModel, clearAllModels } from "./status.js";
+import { getMetricsSummary, resetMetrics, type MetricEvent } from "./metrics.js";
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fo-store-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function rateLimitEvent(model: string, ts = nowSec()): MetricEvent {
+  return { ts, type: "rate_limit", model, provider: model.split("/")[0], cooldownSec: 600 };
+}
+
+// ---------------------------------------------------------------------------
+// 1. Store contract (every backend)
+// ---------------------------------------------------------------------------
+const backends: Array<[string, () => StateStore, boolean]> = [
+  [
+    "file",
+    () => createFileStateStore({
+      statePath: path.join(tmpDir, "state.json"),
+      metricsPath: path.join(tmpDir, "metrics.jsonl"),
+    }),
+    true,
+  ],
+  ["memory", () => createMemoryStateStore(), true],
+  ["sqlite", () => createSqliteStateStore({ databasePath: path.join(tmpDir, "state.sqlite") }), sqliteAvailable()],
+];
+
+for (const [name, open, available] of backends) {
+  describe.skipIf(!available)(`${name} store`, () => {
+    let store: StateStore;
+
+    beforeEach(() => {
+      store = open();
+    });
+
+    afterEach(() => {
+      store.close();
+    });
+
+    it("starts empty at the current schema version", () => {
+      expect(store.kind).toBe(name);
+      expect(store.load()).toEqual({ version: STATE_VERSION, limited: {} });
+    });
+
+    it("persists updates and returns the resulting state", () => {
+      const result = store.update((state) => {
+        state.limited["p/m"] = { lastHitAt: 1, nextAvailableAt: 2, reason: "429", strikes: 2 };
+      });
+      expect(result.limited["p/m"]).toEqual({ lastHitAt: 1, nextAvailableAt: 2, reason: "429", strikes: 2 });
+      expect(store.load().limited["p/m"]).toEqual({ lastHitAt: 1, nextAvailableAt: 2, reason: "429", strikes: 2 });
+
+      store.update((state) => {
+        delete state.limited["p/m"];
+      });
+      expect(store.load().limited).toEqual({});
+    });
+
+    it("persists session failover records", () => {
+      store.update((state) => {
+        state.failovers = { s1: { from: "p/a", to: "q/b", at: 10 } };
+      });
+      expect(store.load().failovers).toEqual({ s1: { from: "p/a", to: "q/b", at: 10 } });
+      store.update((state) => {
+        delete state.failovers!.s1;
+      });
+      expect(store.load().failovers ?? {}).toEqual({});
+    });
+
+    it("persists credential profile entries", () => {
+      store.update((state) => {
+        state.credentials = { "p@k1": { lastHitAt: 10, nextAvailableAt: 20, scope: "account" } };
+      });
+      expect(store.load().credentials).toEqual({ "p@k1": { lastHitAt: 10, nextAvailableAt: 20, scope: "account" } });
+    });
+
+    it("persists usage counters", () => {
+      const counters = { minuteStart: 60, requests: 1, dayStart: 0, tokens: 10, monthStart: 0, dollars: 0.5 };
+      store.update((state) => {
+        state.usage = { openai: counters };
+      });
+      expect(store.load().usage).toEqual({ openai: counters });
+    });
+
+    it("skips the write when the callback returns false", () => {
+      store.update((state) => {
+        state.limited["p/m"] = { lastHitAt: 1, nextAvailableAt: 2 };
+        return false;
+      });
+      expect(store.load().limited).toEqual({});
+    });
+
+    it("does not share mutable state with callers", () => {
+      const snapshot = store.load();
+      snapshot.limited["p/m"] = { lastHitAt: 1, nextAvailableAt: 2 };
+      expect(store.load().limited).toEqual({});
+    });
+
+    it("appends, loads and resets events in order", () => {
+      expect(store.loadEvents()).toEqual([]);
+      store.appendEvent(rateLimitEvent("p/a", 1));
+      store.appendEvent(rateLimitEvent("p/b", 2));
+      expect(store.loadEvents().map((e) => e.model)).toEqual(["p/a", "p/b"]);
+      expect(store.resetEvents()).toBe(true);
+      expect(store.loadEvents()).toEqual([]);
+      expect(store.resetEvents()).toBe(false);
+    });
+  });
+}
+
+// ---------------------------------------------------------------------------
+// 2. Backend specifics
+// ---------------------------------------------------------------------------
+describe("createStateStore", () => {
+  it("defaults to the file backend", () => {
+    const statePath = path.join(tmpDir, "state.json");
+    const store = createStateStore({ statePath });
+    expect(store.kind).toBe("file");
+    expect(store.location).toBe(statePath);
+  });
+
+  it("creates a memory backend", () => {
+    expect(createStateStore({ kind: "memory" }).kind).toBe("memory");
+  });
+
+  it.skipIf(sqliteAvailable())("throws for sqlite when no driver is installed", () => {
+    expect(() => createStateStore({ kind: "sqlite", databasePath: path.join(tmpDir, "s.sqlite") })).toThrow(
+      /node:sqlite|better-sqlite3/,
+    );
+  });
+});
+
+describe("file store", () => {
+  it("reads and writes the same state file as loadState / saveState", () => {
+    const statePath = path.join(tmpDir, "state.json");
+    saveState(statePath, { limited: { "p/m": { lastHitAt: 1, nextAvailableAt: 2 } } });
+    const store = createFileStateStore({ statePath, metricsPath: path.join(tmpDir, "m.jsonl") });
+    expect(store.load().limited["p/m"]).toBeDefined();
+    store.update((state) => {
+      state.limited["p/n"] = { lastHitAt: 3, nextAvailableAt: 4 };
+    });
+    expect(Object.keys(loadState(statePath).limited)).toEqual(["p/m", "p/n"]);
+  });
+
+  it("gives up on a held lock after lockTimeoutMs", () => {
+    const statePath = path.join(tmpDir, "state.json");
+    fs.writeFileSync(`${statePath}.lock`, JSON.stringify({ pid: process.pid, host: os.hostname(), acquiredAt: Date.now() }));
+    const store = createFileStateStore({ statePath, metricsPath: path.join(tmpDir, "m.jsonl") });
+    expect(() => store.update(() => {}, { lockTimeoutMs: 50 })).toThrow("Timed out after 50ms");
+  });
+});
+
+describe("memory store", () => {
+  it("starts from an initial state", () => {
+    const store = createMemoryStateStore({ limited: { "p/m": { lastHitAt: 1, nextAvailableAt: 2 } } });
+    expect(store.load()).toEqual({ version: STATE_VERSION, limited: { "p/m": { lastHitAt: 1, nextAvailableAt: 2 } } });
+  });
+});
+
+describe.skipIf(!sqliteAvailable())("sqlite store", () => {
+  it("shares state between connections to the same database", () => {
+    const databasePath = path.join(tmpDir, "state.sqlite");
+    const a = createSqliteStateStore({ databasePath });
+    const b = createSqliteStateStore({ databasePath });
+    a.update((state) => {
+      state.limited["p/m"] = { lastHitAt: 1, nextAvailableAt: 2 };
+    });
+    expect(b.load().limited["p/m"]).toEqual({ lastHitAt: 1, nextAvailableAt: 2 });
+    a.close();
+    b.close();
+  });
+
+  it("keeps the version of a database from a newer plugin and does not write to it", () => {
+    const databasePath = path.join(tmpDir, "state.sqlite");
+    const raw = openSqliteDatabase(databasePath);
+    raw.exec(`PRAGMA user_version = ${STATE_VERSION + 1}`);
+    raw.close();
+
+    const store = createSqliteStateStore({ databasePath });
+    expect(() => store.update(() => {})).toThrow(/newer than this plugin/);
+    store.close();
+    const check = openSqliteDatabase(databasePath);
+    expect(check.prepare("PRAGMA user_version").get().user_version).toBe(STATE_VERSION + 1);
+    check.close();
+  });
+
+  it("rolls back when the update callback throws", () => {
+    const store = createSqliteStateStore({ databasePath: path.join(tmpDir, "state.sqlite") });
+    expect(() =>
+      store.update((state) => {
+        state.limited["p/m"] = { lastHitAt: 1, nextAvailableAt: 2 };
+        throw new Error("boom");
+      }),
+    ).toThrow("boom");
+    expect(store.load().limited).toEqual({});
+    store.close();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. status.ts and metrics.ts through a store
+// ---------------------------------------------------------------------------
+describe("status and metrics via a store", () => {
+  it("reports and clears limits held in the store", () => {
+    const now = nowSec();
+    const store = createMemoryStateStore({
+      limited: {
+        "p/a": { lastHitAt: now, nextAvailableAt: now + 600 },
+        "p/b": { lastHitAt: now, nextAvailableAt: now + 600 },
+      },
+    });
+
+    const status = getFailoverStatus({ store, modelOrder: ["p/a", "p/b", "p/c"] });
+    expect(status.statePath).toBe("memory");
+    expect(status.blockedCount).toBe(2);
+    expect(status.activeModel).toBe("p/c");
+
+    expect(clearModel("p/a", store)).toBe(true);
+    expect(clearAllModels(store)).toBe(1);
+    expect(store.load().limited).toEqual({});
+  });
+
+  it("summarizes and resets events held in the store", () => {
+    const store = createMemoryStateStore();
+    store.appendEvent(rateLimitEvent("p/a"));
+    store.appendEvent(rateLimitEvent("p/a"));
+
+    expect(getMetricsSummary({ store }).totalRateLimits).toBe(2);
+    expect(resetMetrics(store)).toBe(true);
+    expect(getMetricsSummary({ store }).totalEvents).toBe(0);
+  });
+});
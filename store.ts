@@ -0,0 +1,307 @@
+/**
+ * Pluggable storage for rate-limit state and metrics events.
+ *
+ * Backends:
+ *   file    JSON state file plus JSONL metrics log (default; see loadState / recordEvent)
+ *   sqlite  one SQLite database for both (node:sqlite on Node 22.5+, or better-sqlite3)
+ *   memory  process-local, for tests and throwaway gateways
+ *
+ * All backends are synchronous, like the rest of the plugin, and `update` is
+ * an atomic read-modify-write across processes (file lock or SQLite transaction).
+ *
+ * Programmatic usage:
+ *   import { createStateStore } from "./store.js";
+ *   const store = createStateStore({ kind: "sqlite", databasePath: "~/failover.sqlite" });
+ *   store.update((state) => { delete state.limited["openai/gpt-4o"]; });
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { createRequire } from "node:module";
+
+import { expandHome, loadState, updateState, DEFAULT_STATE_FILE, type LimitEntry, type LimitState } from "./index.js";
+import { recordEvent, loadEvents, resetMetrics, DEFAULT_METRICS_FILE, type MetricEvent } from "./metrics.js";
+import { DEFAULT_LOCK_TIMEOUT_MS } from "./lock.js";
+import { assertWritable, validateLimitEntry, STATE_VERSION } from "./schema.js";
+import { validateSessionFailover, type SessionFailover } from "./failback.js";
+import { validateUsageCounters, type UsageCounters } from "./budget.js";
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+export type StateStoreKind = "file" | "sqlite" | "memory";
+
+export const STATE_STORE_KINDS: readonly StateStoreKind[] = ["file", "sqlite", "memory"];
+
+export interface StateStore {
+  readonly kind: StateStoreKind;
+  /** Where the data lives, for status output. */
+  readonly location: string;
+  /** Current state snapshot. */
+  load(): LimitState;
+  /** Atomic read-modify-write. `mutate` may return false to skip the write. Returns the resulting state. */
+  update(mutate: (state: LimitState) => boolean | void, opts?: UpdateOptions): LimitState;
+  appendEvent(event: MetricEvent): void;
+  loadEvents(): MetricEvent[];
+  /** Delete all events. Returns true if there were any. */
+  resetEvents(): boolean;
+  close(): void;
+}
+
+export interface StateStoreOptions {
+  kind?: StateStoreKind;
+  /** file: state JSON path (default DEFAULT_STATE_FILE). */
+  statePath?: string;
+  /** file: metrics JSONL path (default DEFAULT_METRICS_FILE). */
+  metricsPath?: string;
+  /** sqlite: database path (default DEFAULT_STATE_DATABASE). */
+  databasePath?: string;
+  /** Receives warnings about dropped or quarantined state. */
+  onWarn?: (message: string) => void;
+}
+
+export interface UpdateOptions {
+  /** Throw when another process holds the file lock or the database write lock this long (default DEFAULT_LOCK_TIMEOUT_MS). */
+  lockTimeoutMs?: number;
+}
+
+export const DEFAULT_STATE_DATABASE = "~/.openclaw/workspace/memory/model-failover.sqlite";
+
+// -------------------------------------------------------------------------
+// File
+// -------------------------------------------------------------------------
+
+export function createFileStateStore(opts?: StateStoreOptions): StateStore {
+  const statePath = expandHome(opts?.statePath ?? DEFAULT_STATE_FILE);
+  const metricsPath = expandHome(opts?.metricsPath ?? DEFAULT_METRICS_FILE);
+  return {
+    kind: "file",
+    location: statePath,
+    load: () => loadState(statePath, opts?.onWarn),
+    update: (mutate, updateOpts) => updateState(statePath, mutate, { onWarn: opts?.onWarn, timeoutMs: updateOpts?.lockTimeoutMs }),
+    appendEvent: (event) => recordEvent(metricsPath, event),
+    loadEvents: () => loadEvents(metricsPath),
+    resetEvents: () => resetMetrics(metricsPath),
+    close: () => {},
+  };
+}
+
+// -------------------------------------------------------------------------
+// Memory
+// -------------------------------------------------------------------------
+
+export function createMemoryStateStore(initial?: LimitState): StateStore {
+  let state: LimitState = structuredClone({ ...initial, version: STATE_VERSION, limited: initial?.limited ?? {} });
+  let events: MetricEvent[] = [];
+  return {
+    kind: "memory",
+    location: "memory",
+    load: () => structuredClone(state),
+    update: (mutate) => {
+      const draft = structuredClone(state);
+      if (mutate(draft) !== false) state = structuredClone(draft);
+      return draft;
+    },
+    appendEvent: (event) => {
+      events.push(structuredClone(event));
+    },
+    loadEvents: () => structuredClone(events),
+    resetEvents: () => {
+      const had = events.length > 0;
+      events = [];
+      return had;
+    },
+    close: () => {},
+  };
+}
+
+// -------------------------------------------------------------------------
+// SQLite
+// -------------------------------------------------------------------------
+
+/** The subset of the node:sqlite / better-sqlite3 API the store uses. */
+export interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): {
+    run(...params: unknown[]): { changes: number | bigint };
+    get(...params: unknown[]): any;
+    all(...params: unknown[]): any[];
+  };
+  close(): void;
+}
+
+const requireOptional = createRequire(import.meta.url);
+
+/**
+ * Open a database with node:sqlite, falling back to better-sqlite3. Throws
+ * when neither is available.
+ */
+export function openSqliteDatabase(databasePath: string): SqliteDatabase {
+  try {
+    const { DatabaseSync } = requireOptional("node:sqlite");
+    return new DatabaseSync(databasePath);
+  } catch {}
+  try {
+    const Database = requireOptional("better-sqlite3");
+    return new Database(databasePath);
+  } catch {}
+  throw new Error("SQLite state store needs Node 22.5+ (node:sqlite) or the better-sqlite3 package");
+}
+
+export function sqliteAvailable(): boolean {
+  try {
+    openSqliteDatabase(":memory:").close();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function createSqliteStateStore(opts?: StateStoreOptions): StateStore {
+  const databasePath = expandHome(opts?.databasePath ?? DEFAULT_STATE_DATABASE);
+  if (databasePath !== ":memory:") fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+  const db = openSqliteDatabase(databasePath);
+
+  db.exec(`PRAGMA busy_timeout = ${DEFAULT_LOCK_TIMEOUT_MS}`);
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS limits (model TEXT PRIMARY KEY, entry TEXT NOT NULL);
+    CREATE TABLE IF NOT EXISTS events (id INTEGER PRIMARY KEY AUTOINCREMENT, ts INTEGER NOT NULL, event TEXT NOT NULL);
+    CREATE TABLE IF NOT EXISTS failovers (session TEXT PRIMARY KEY, record TEXT NOT NULL);
+    CREATE TABLE IF NOT EXISTS credentials (profile TEXT PRIMARY KEY, entry TEXT NOT NULL);
+    CREATE TABLE IF NOT EXISTS usage (key TEXT PRIMARY KEY, counters TEXT NOT NULL);
+  `);
+  // A database from a newer plugin keeps its version and is only read (see assertWritable).
+  const storedVersion = () => Number(db.prepare("PRAGMA user_version").get()?.user_version ?? 0);
+  if (storedVersion() < STATE_VERSION) db.exec(`PRAGMA user_version = ${STATE_VERSION}`);
+
+  const selectLimits = db.prepare("SELECT model, entry FROM limits");
+  const deleteLimits = db.prepare("DELETE FROM limits");
+  const insertLimit = db.prepare("INSERT INTO limits (model, entry) VALUES (?, ?)");
+  const selectFailovers = db.prepare("SELECT session, record FROM failovers");
+  const deleteFailovers = db.prepare("DELETE FROM failovers");
+  const insertFailover = db.prepare("INSERT INTO failovers (session, record) VALUES (?, ?)");
+  const selectCredentials = db.prepare("SELECT profile, entry FROM credentials");
+  const deleteCredentials = db.prepare("DELETE FROM credentials");
+  const insertCredential = db.prepare("INSERT INTO credentials (profile, entry) VALUES (?, ?)");
+  const selectUsage = db.prepare("SELECT key, counters FROM usage");
+  const deleteUsage = db.prepare("DELETE FROM usage");
+  const insertUsage = db.prepare("INSERT INTO usage (key, counters) VALUES (?, ?)");
+  const insertEvent = db.prepare("INSERT INTO events (ts, event) VALUES (?, ?)");
+  const selectEvents = db.prepare("SELECT event FROM events ORDER BY id");
+  const deleteEvents = db.prepare("DELETE FROM events");
+
+  function parseRow(json: string): unknown {
+    try {
+      return JSON.parse(json);
+    } catch {
+      return undefined;
+    }
+  }
+
+  function read(): LimitState {
+    const state: LimitState = { version: STATE_VERSION, limited: {} };
+    for (const row of selectLimits.all()) {
+      const entry = parseRow(row.entry);
+      const problem = validateLimitEntry(entry);
+      if (problem) {
+        opts?.onWarn?.(`Dropped invalid state entry ${row.model}: ${problem} (${databasePath})`);
+        continue;
+      }
+      state.limited[row.model] = entry as LimitEntry;
+    }
+    for (const row of selectCredentials.all()) {
+      const entry = parseRow(row.entry);
+      const problem = validateLimitEntry(entry);
+      if (problem) {
+        opts?.onWarn?.(`Dropped invalid state entry credentials.${row.profile}: ${problem} (${databasePath})`);
+        continue;
+      }
+      (state.credentials ??= {})[row.profile] = entry as LimitEntry;
+    }
+    for (const row of selectFailovers.all()) {
+      const record = parseRow(row.record);
+      const problem = validateSessionFailover(record);
+      if (problem) {
+        opts?.onWarn?.(`Dropped invalid state entry failovers.${row.session}: ${problem} (${databasePath})`);
+        continue;
+      }
+      (state.failovers ??= {})[row.session] = record as SessionFailover;
+    }
+    for (const row of selectUsage.all()) {
+      const counters = parseRow(row.counters);
+      const problem = validateUsageCounters(counters);
+      if (problem) {
+        opts?.onWarn?.(`Dropped invalid state entry usage.${row.key}: ${problem} (${databasePath})`);
+        continue;
+      }
+      (state.usage ??= {})[row.key] = counters as UsageCounters;
+    }
+    return state;
+  }
+
+  return {
+    kind: "sqlite",
+    location: databasePath,
+    load: read,
+    update: (mutate, updateOpts) => {
+      const busyMs = updateOpts?.lockTimeoutMs;
+      if (busyMs !== undefined) db.exec(`PRAGMA busy_timeout = ${Math.max(0, Math.floor(busyMs))}`);
+      // IMMEDIATE takes the write lock up front, so concurrent updates serialize.
+      try {
+        db.exec("BEGIN IMMEDIATE");
+      } finally {
+        if (busyMs !== undefined) db.exec(`PRAGMA busy_timeout = ${DEFAULT_LOCK_TIMEOUT_MS}`);
+      }
+      try {
+        assertWritable(storedVersion(), databasePath);
+        const state = read();
+        if (mutate(state) !== false) {
+          deleteLimits.run();
+          for (const [model, entry] of Object.entries(state.limited)) {
+            insertLimit.run(model, JSON.stringify(entry));
+          }
+          deleteCredentials.run();
+          for (const [profile, entry] of Object.entries(state.credentials ?? {})) {
+            insertCredential.run(profile, JSON.stringify(entry));
+          }
+          deleteFailovers.run();
+          for (const [session, record] of Object.entries(state.failovers ?? {})) {
+            insertFailover.run(session, JSON.stringify(record));
+          }
+          deleteUsage.run();
+          for (const [key, counters] of Object.entries(state.usage ?? {})) {
+            insertUsage.run(key, JSON.stringify(counters));
+          }
+        }
+        db.exec("COMMIT");
+        return state;
+      } catch (e) {
+        db.exec("ROLLBACK");
+        throw e;
+      }
+    },
+    appendEvent: (event) => {
+      insertEvent.run(event.ts, JSON.stringify(event));
+    },
+    loadEvents: () => selectEvents.all().map((row) => JSON.parse(row.event) as MetricEvent),
+    resetEvents: () => Number(deleteEvents.run().changes) > 0,
+    close: () => db.close(),
+  };
+}
+
+// -------------------------------------------------------------------------
+// Factory
+// -------------------------------------------------------------------------
+
+export function createStateStore(opts?: StateStoreOptions): StateStore {
+  switch (opts?.kind ?? "file") {
+    case "sqlite":
+      return createSqliteStateStore(opts);
+    case "memory":
+      return createMemoryStateStore();
+    default:
+      return createFileStateStore(opts);
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeTiers,
+  flattenOrder,
+  formatModelOrder,
+  validateModelOrder,
+  createTierBalancer,
+} from "./tiers.js";
+
+// ---------------------------------------------------------------------------
+// 1. Order helpers
+// ---------------------------------------------------------------------------
+describe("normalizeTiers", () => {
+  it("turns plain ids into tiers of one and keeps arrays as tiers", () => {
+    expect(normalizeTiers(["a/1", ["b/1", "b/2"], "c/1"])).toEqual([["a/1"], ["b/1", "b/2"], ["c/1"]]);
+  });
+
+  it("drops blank ids and empty tiers", () => {
+    expect(normalizeTiers(["", [], ["a/1", ""]])).toEqual([["a/1"]]);
+  });
+
+  it("flattens and formats tiered orders", () => {
+    expect(flattenOrder(["a/1", ["b/1", "b/2"]])).toEqual(["a/1", "b/1", "b/2"]);
+    expect(formatModelOrder(["a/1", ["b/1", "b/2"], "c/1"])).toBe("a/1 -> [b/1 | b/2] -> c/1");
+  });
+});
+
+describe("validateModelOrder", () => {
+  it("accepts flat and tiered orders", () => {
+    expect(validateModelOrder(["a/1", ["b/1", "b/2"]])).toBeUndefined();
+  });
+
+  it("rejects empty orders, empty tiers and non-strings", () => {
+    expect(validateModelOrder([])).toMatch(/non-empty/);
+    expect(validateModelOrder("a/1")).toMatch(/non-empty/);
+    expect(validateModelOrder(["a/1", []])).toMatch(/entries/);
+    expect(validateModelOrder(["a/1", [1]])).toMatch(/entries/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Balancing
+// ---------------------------------------------------------------------------
+describe("createTierBalancer", () => {
+  const tier = ["a/1", "a/2", "a/3"];
+
+  it("rotates through the available models of a tier", () => {
+    const balancer = createTierBalancer();
+    const picks = Array.from({ length: 6 }, () => balancer.pick(tier, tier));
+    expect(picks).toEqual(["a/1", "a/2", "a/3", "a/1", "a/2", "a/3"]);
+  });
+
+  it("keeps rotating when some models are unavailable", () => {
+    const balancer = createTierBalancer();
+    const picks = Array.from({ length: 4 }, () => balancer.pick(["a/1", "a/3"], tier));
+    expect(picks).toEqual(["a/1", "a/3", "a/1", "a/3"]);
+  });
+
+  it("keeps separate positions per tier", () => {
+    const balancer = createTierBalancer();
+    balancer.pick(tier, tier);
+    expect(balancer.pick(["b/1", "b/2"], ["b/1", "b/2"])).toBe("b/1");
+    expect(balancer.pick(tier, tier)).toBe("a/2");
+  });
+
+  it("picks proportionally to weights", () => {
+    let r = 0;
+    const balancer = createTierBalancer({ mode: "weighted", weights: { "a/1": 3, "a/2": 1, "a/3": 0 }, random: () => r });
+    const counts: Record<string, number> = {};
+    for (let i = 0; i < 100; i++) {
+      r = i / 100;
+      const m = balancer.pick(tier, tier);
+      counts[m] = (counts[m] ?? 0) + 1;
+    }
+    expect(counts).toEqual({ "a/1": 75, "a/2": 25 });
+  });
+
+  it("returns the only candidate without consulting weights", () => {
+    const balancer = createTierBalancer({ mode: "weighted", weights: { "a/1": 0 } });
+    expect(balancer.pick(["a/1"], tier)).toBe("a/1");
+  });
+});
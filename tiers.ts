@@ -0,0 +1,115 @@
+/**
+ * Tiered model order with in-tier load balancing.
+ *
+ * A model order may group equivalent models into tiers:
+ *
+ *   ["openai-codex/gpt-5.3-codex", ["anthropic/claude-sonnet-4-6", "openai-codex/gpt-5.2"], "perplexity/sonar-pro"]
+ *
+ * A plain string is a tier of one. Selection walks the tiers in order and,
+ * within the first tier that has an available model, spreads turns across
+ * all of its available models instead of always taking the first:
+ *
+ *   round-robin  rotate through the available models (default)
+ *   weighted     pick at random, proportional to `modelWeights` (default weight 1)
+ *
+ * Programmatic usage:
+ *   import { normalizeTiers, createTierBalancer } from "./tiers.js";
+ */
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+/** One entry of a model order: a model id, or a tier of equivalent model ids. */
+export type ModelOrderEntry = string | string[];
+
+export type TierBalancing = "round-robin" | "weighted";
+
+export const TIER_BALANCING_MODES: readonly TierBalancing[] = ["round-robin", "weighted"];
+
+export interface TierBalancerOptions {
+  mode?: TierBalancing;
+  /** weighted: relative share per model; missing models weigh 1, 0 only takes turns when alone. */
+  weights?: Record<string, number>;
+  random?: () => number;
+}
+
+export interface TierBalancer {
+  /** Choose one of the available models of a tier. */
+  pick(available: string[], tier: string[]): string;
+}
+
+// -------------------------------------------------------------------------
+// Order helpers
+// -------------------------------------------------------------------------
+
+/** Tiers of a model order; blank ids and empty tiers are dropped. */
+export function normalizeTiers(order: ModelOrderEntry[]): string[][] {
+  const tiers: string[][] = [];
+  for (const entry of order) {
+    const tier = (Array.isArray(entry) ? entry : [entry]).filter((m) => typeof m === "string" && m.length > 0);
+    if (tier.length > 0) tiers.push(tier);
+  }
+  return tiers;
+}
+
+/** All models of a (possibly tiered) order, in order. */
+export function flattenOrder(order: ModelOrderEntry[]): string[] {
+  return normalizeTiers(order).flat();
+}
+
+/** Human-readable order, e.g. "a -> [b | c] -> d". */
+export function formatModelOrder(order: ModelOrderEntry[]): string {
+  return normalizeTiers(order)
+    .map((tier) => (tier.length === 1 ? tier[0] : `[${tier.join(" | ")}]`))
+    .join(" -> ");
+}
+
+/** Check a config model order. Returns an error message, or undefined if it is usable. */
+export function validateModelOrder(order: any): string | undefined {
+  if (!Array.isArray(order) || order.length === 0) return "model order must be a non-empty array";
+  for (const entry of order) {
+    const ids = Array.isArray(entry) ? entry : [entry];
+    if (ids.length === 0 || ids.some((m: unknown) => typeof m !== "string" || !m)) {
+      return "model order entries must be model ids or non-empty arrays of model ids";
+    }
+  }
+  return undefined;
+}
+
+// -------------------------------------------------------------------------
+// Balancing
+// -------------------------------------------------------------------------
+
+export function createTierBalancer(opts?: TierBalancerOptions): TierBalancer {
+  const mode = opts?.mode ?? "round-robin";
+  const weights = opts?.weights ?? {};
+  const random = opts?.random ?? Math.random;
+  // Next position per tier, keyed by the tier's full membership so it survives models going in and out.
+  const cursors = new Map<string, number>();
+
+  function weightOf(model: string): number {
+    const w = weights[model];
+    return typeof w === "number" && Number.isFinite(w) && w >= 0 ? w : 1;
+  }
+
+  return {
+    pick(available, tier) {
+      if (available.length <= 1) return available[0];
+      if (mode === "weighted") {
+        const total = available.reduce((sum, m) => sum + weightOf(m), 0);
+        if (total <= 0) return available[0];
+        let r = random() * total;
+        for (const m of available) {
+          r -= weightOf(m);
+          if (r < 0) return m;
+        }
+        return available[available.length - 1];
+      }
+      const key = tier.join("\n");
+      const cursor = cursors.get(key) ?? 0;
+      cursors.set(key, cursor + 1);
+      return available[cursor % available.length];
+    },
+  };
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseDuration,
+  parseHttpDate,
+  parseWaitHint,
+  resolveZone,
+  nextZonedTime,
+  zonedTimeToEpochMs,
+  MIN_WAIT_HINT_CONFIDENCE,
+} from "./waittime.js";
+
+const NOW = Date.parse("2026-03-01T10:00:00Z");
+
+// ---------------------------------------------------------------------------
+// 1. parseDuration
+// ---------------------------------------------------------------------------
+describe("parseDuration", () => {
+  it("parses single-unit durations", () => {
+    expect(parseDuration("37s")).toBe(37);
+    expect(parseDuration("5m")).toBe(300);
+    expect(parseDuration("2h")).toBe(7200);
+    expect(parseDuration("1d")).toBe(86400);
+  });
+
+  it("parses compound and fractional durations", () => {
+    expect(parseDuration("4m30s")).toBe(270);
+    expect(parseDuration("1m2.5s")).toBe(63);
+    expect(parseDuration("6m0s")).toBe(360);
+    expect(parseDuration("2 hours 15 minutes")).toBe(8100);
+    expect(parseDuration("1h, 5m and 10s")).toBe(3910);
+  });
+
+  it("rounds milliseconds up to whole seconds", () => {
+    expect(parseDuration("120ms")).toBe(1);
+  });
+
+  it("accepts plain numbers as seconds", () => {
+    expect(parseDuration("20")).toBe(20);
+    expect(parseDuration("1.5")).toBe(2);
+  });
+
+  it("rejects values that are not durations", () => {
+    expect(parseDuration("soon")).toBeUndefined();
+    expect(parseDuration("5 apples")).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Timezones
+// ---------------------------------------------------------------------------
+describe("timezones", () => {
+  it("resolves abbreviations, offsets and IANA names", () => {
+    expect(resolveZone("UTC")).toBe(0);
+    expect(resolveZone("PDT")).toBe(-420);
+    expect(resolveZone("PT")).toBe("America/Los_Angeles");
+    expect(resolveZone("+05:30")).toBe(330);
+    expect(resolveZone("Europe/Berlin")).toBe("Europe/Berlin");
+    expect(resolveZone("today")).toBeUndefined();
+    expect(resolveZone("Nowhere/Land")).toBeUndefined();
+  });
+
+  it("converts wall-clock time in a zone to epoch ms across DST", () => {
+    // Mar 8 2026 is the US spring-forward day; midnight that day is still PST.
+    expect(zonedTimeToEpochMs("America/Los_Angeles", 2026, 3, 8)).toBe(Date.parse("2026-03-08T08:00:00Z"));
+    expect(zonedTimeToEpochMs("America/Los_Angeles", 2026, 3, 9)).toBe(Date.parse("2026-03-09T07:00:00Z"));
+  });
+
+  it("finds the next occurrence of a clock time", () => {
+    expect(nextZonedTime(0, 12, 0, 0, NOW)).toBe(Date.parse("2026-03-01T12:00:00Z"));
+    // 09:00 UTC already passed -> tomorrow
+    expect(nextZonedTime(0, 9, 0, 0, NOW)).toBe(Date.parse("2026-03-02T09:00:00Z"));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. parseHttpDate
+// ---------------------------------------------------------------------------
+describe("parseHttpDate", () => {
+  it("parses RFC 7231 dates", () => {
+    expect(parseHttpDate("Sun, 01 Mar 2026 12:00:00 GMT")).toBe(Date.parse("2026-03-01T12:00:00Z"));
+  });
+
+  it("returns undefined for other formats", () => {
+    expect(parseHttpDate("2026-03-01")).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 4. parseWaitHint
+// ---------------------------------------------------------------------------
+describe("parseWaitHint", () => {
+  it("parses relative durations", () => {
+    expect(parseWaitHint("Try again in 4m30s", NOW)).toEqual({ seconds: 270, confidence: 0.9, source: "duration" });
+    expect(parseWaitHint("Retry after 60 seconds", NOW)?.seconds).toBe(60);
+    expect(parseWaitHint("Please wait 2 hours 15 minutes", NOW)?.seconds).toBe(8100);
+  });
+
+  it("parses clock times with a timezone", () => {
+    const hint = parseWaitHint("Daily limit reached, resets after 12:00 UTC", NOW);
+    expect(hint).toEqual({ seconds: 7200, confidence: 0.8, source: "clock-time" });
+  });
+
+  it("parses 12-hour clock times in an IANA zone", () => {
+    // 10:00 UTC = 02:00 PST; 5:30pm PST = 01:30 UTC next day
+    const hint = parseWaitHint("available at 5:30pm America/Los_Angeles", NOW);
+    expect(hint?.seconds).toBe(15.5 * 3600);
+  });
+
+  it("assumes UTC with reduced confidence when the zone is missing", () => {
+    const hint = parseWaitHint("try after 11:00", NOW);
+    expect(hint?.seconds).toBe(3600);
+    expect(hint?.confidence).toBe(MIN_WAIT_HINT_CONFIDENCE);
+  });
+
+  it("parses HTTP-dates and ISO timestamps", () => {
+    expect(parseWaitHint("Retry-After: Sun, 01 Mar 2026 10:05:00 GMT", NOW)?.seconds).toBe(300);
+    expect(parseWaitHint("quota resets at 2026-03-01T11:00:00Z", NOW)?.seconds).toBe(3600);
+    expect(parseWaitHint("quota resets at 2026-03-01 12:00:00+01:00", NOW)?.seconds).toBe(3600);
+  });
+
+  it("parses stringified structured fields with full confidence", () => {
+    expect(parseWaitHint('{"retryDelay": "37s"}', NOW)).toEqual({ seconds: 37, confidence: 1, source: "retry-delay" });
+    expect(parseWaitHint("x-ratelimit-reset-requests: 1m2.5s", NOW)?.seconds).toBe(63);
+  });
+
+  it("treats a unitless retry value as a low-confidence guess", () => {
+    const hint = parseWaitHint("retry after 30", NOW);
+    expect(hint?.seconds).toBe(30);
+    expect(hint!.confidence).toBeLessThan(MIN_WAIT_HINT_CONFIDENCE);
+  });
+
+  it("prefers the most confident hint", () => {
+    const hint = parseWaitHint('retry in 5m ("retryDelay": "42s")', NOW);
+    expect(hint?.seconds).toBe(42);
+  });
+
+  it("ignores timestamps in the past and unrelated text", () => {
+    expect(parseWaitHint("reset at 2020-01-01T00:00:00Z", NOW)).toBeUndefined();
+    expect(parseWaitHint("Unknown error occurred", NOW)).toBeUndefined();
+    expect(parseWaitHint(undefined, NOW)).toBeUndefined();
+  });
+});
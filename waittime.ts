@@ -0,0 +1,296 @@
+/**
+ * Wait-time parsing for provider retry hints.
+ *
+ * Understands:
+ *   - compound durations        "try again in 4m30s", "retry after 2 hours 15 minutes", "1m2.5s", "120ms"
+ *   - absolute clock times      "after 12:00 UTC", "at 5:30pm PT", "until 00:00 America/Los_Angeles"
+ *   - RFC 7231 HTTP-dates       "Sun, 01 Mar 2026 12:00:00 GMT"
+ *   - ISO 8601 timestamps       "resets at 2026-03-01T12:00:00Z"
+ *   - stringified fields        "retryDelay": "37s", x-ratelimit-reset-requests: 1m2.5s, Retry-After: 20
+ *
+ * Every hint carries a confidence so callers can prefer exact hints over
+ * provider heuristics and fall back to vague hints only when nothing better exists.
+ *
+ * Programmatic usage:
+ *   import { parseWaitHint, parseDuration } from "./waittime.js";
+ */
+
+// -------------------------------------------------------------------------
+// Types
+// -------------------------------------------------------------------------
+
+export interface WaitHint {
+  /** Seconds from `now` until the provider expects requests to succeed again. */
+  seconds: number;
+  /** 0..1, where 1 means the value came from a structured field or header. */
+  confidence: number;
+  /** Which kind of hint produced the value (e.g. "retry-after", "duration", "clock-time"). */
+  source: string;
+}
+
+export const WAIT_HINT_CONFIDENCE = {
+  structured: 1,
+  duration: 0.9,
+  absolute: 0.8,
+  clockWithoutZone: 0.5,
+  bareNumber: 0.3,
+} as const;
+
+/** Hints at or above this confidence win over provider reset heuristics. */
+export const MIN_WAIT_HINT_CONFIDENCE = 0.5;
+
+// -------------------------------------------------------------------------
+// Durations
+// -------------------------------------------------------------------------
+
+const UNIT = "(?:ms|msecs?|milliseconds?|s|secs?|seconds?|m|mins?|minutes?|h|hrs?|hours?|d|days?)";
+const PIECE = `\\d+(?:\\.\\d+)?\\s*${UNIT}(?![a-z])`;
+const DURATION = `${PIECE}(?:\\s*(?:,|and)?\\s*${PIECE})*`;
+
+function unitSeconds(unit: string): number {
+  if (unit.startsWith("ms") || unit.startsWith("milli")) return 0.001;
+  if (unit.startsWith("s")) return 1;
+  if (unit.startsWith("m")) return 60;
+  if (unit.startsWith("h")) return 3600;
+  return 86400;
+}
+
+function sumPieces(text: string): number {
+  let total = 0;
+  const re = new RegExp(`(\\d+(?:\\.\\d+)?)\\s*(${UNIT})(?![a-z])`, "gi");
+  for (const m of text.matchAll(re)) {
+    total += parseFloat(m[1]) * unitSeconds(m[2].toLowerCase());
+  }
+  return total;
+}
+
+/**
+ * Parse a value that is entirely a duration ("37s", "1m2.5s", "6m0s", "120ms",
+ * "2 hours 15 minutes") or a plain number of seconds ("20", "1.5").
+ * Fractions are rounded up to whole seconds.
+ */
+export function parseDuration(value: string): number | undefined {
+  const v = value.trim().toLowerCase();
+  if (/^\d+(?:\.\d+)?$/.test(v)) return Math.ceil(parseFloat(v));
+  if (!new RegExp(`^${DURATION}$`, "i").test(v)) return undefined;
+  return Math.ceil(sumPieces(v));
+}
+
+// -------------------------------------------------------------------------
+// Timezones
+// -------------------------------------------------------------------------
+
+/** A timezone is either an IANA zone name or a fixed UTC offset in minutes. */
+export type Zone = string | number;
+
+const ZONE_ABBREVIATIONS: Record<string, Zone> = {
+  utc: 0,
+  gmt: 0,
+  z: 0,
+  pt: "America/Los_Angeles",
+  pst: -480,
+  pdt: -420,
+  mt: "America/Denver",
+  ct: "America/Chicago",
+  et: "America/New_York",
+  est: -300,
+  edt: -240,
+  cet: 60,
+  cest: 120,
+};
+
+/** Resolve "UTC", "PT", "+02:00" or an IANA name. Returns undefined for unknown tokens. */
+export function resolveZone(token: string | undefined): Zone | undefined {
+  if (!token) return undefined;
+  const t = token.trim();
+  const abbr = ZONE_ABBREVIATIONS[t.toLowerCase()];
+  if (abbr !== undefined) return abbr;
+  const off = t.match(/^([+-])(\d{2}):?(\d{2})$/);
+  if (off) return (off[1] === "-" ? -1 : 1) * (parseInt(off[2], 10) * 60 + parseInt(off[3], 10));
+  if (!t.includes("/")) return undefined;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: t });
+    return t;
+  } catch {
+    return undefined;
+  }
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/** Wall-clock date and time of instant `ms` in `zone`. */
+export function zonedParts(ms: number, zone: Zone): ZonedParts {
+  if (typeof zone === "number") {
+    const d = new Date(ms + zone * 60_000);
+    return {
+      year: d.getUTCFullYear(),
+      month: d.getUTCMonth() + 1,
+      day: d.getUTCDate(),
+      hour: d.getUTCHours(),
+      minute: d.getUTCMinutes(),
+      second: d.getUTCSeconds(),
+    };
+  }
+  const fmt = new Intl.DateTimeFormat("en-US", {
+    timeZone: zone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  });
+  const parts = fmt.formatToParts(new Date(ms));
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value ?? "0", 10);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    // hour12:false may report midnight as "24" depending on the engine.
+    hour: get("hour") % 24,
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/** UTC offset of `zone` at instant `ms`, in minutes. */
+export function zoneOffsetMinutes(zone: Zone, ms: number): number {
+  if (typeof zone === "number") return zone;
+  const p = zonedParts(ms, zone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(ms / 1000) * 1000) / 60_000);
+}
+
+/**
+ * Epoch milliseconds for a wall-clock time in `zone`. Date fields may overflow
+ * (day 32 rolls into the next month). Correct across DST changes: the offset
+ * is re-checked at the candidate instant.
+ */
+export function zonedTimeToEpochMs(
+  zone: Zone,
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0,
+): number {
+  const naive = Date.UTC(year, month - 1, day, hour, minute, second);
+  const guess = naive - zoneOffsetMinutes(zone, naive) * 60_000;
+  return naive - zoneOffsetMinutes(zone, guess) * 60_000;
+}
+
+/**
+ * Epoch milliseconds of the next occurrence (strictly after `now`) of the
+ * wall-clock time `hour:minute:second` in `zone`.
+ */
+export function nextZonedTime(zone: Zone, hour: number, minute = 0, second = 0, now = Date.now()): number {
+  const today = zonedParts(now, zone);
+  let candidate = zonedTimeToEpochMs(zone, today.year, today.month, today.day, hour, minute, second);
+  if (candidate <= now) {
+    candidate = zonedTimeToEpochMs(zone, today.year, today.month, today.day + 1, hour, minute, second);
+  }
+  return candidate;
+}
+
+// -------------------------------------------------------------------------
+// Absolute times
+// -------------------------------------------------------------------------
+
+const HTTP_DATE = /\b(?:mon|tue|wed|thu|fri|sat|sun),\s+\d{1,2}\s+[a-z]{3}\s+\d{4}\s+\d{2}:\d{2}:\d{2}\s+gmt\b/i;
+const ISO_TIMESTAMP = /\b(\d{4}-\d{2}-\d{2})[t ](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)(z|[+-]\d{2}:?\d{2})/i;
+const CLOCK_TIME =
+  /\b(?:after|at|until|by)\s+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s*(am|pm))?(?:\s+([a-z]+\/[a-z_]+(?:\/[a-z_]+)?|[a-z]{1,4}|[+-]\d{2}:?\d{2})\b)?/i;
+
+/** Parse an RFC 7231 HTTP-date into epoch milliseconds. */
+export function parseHttpDate(value: string): number | undefined {
+  const m = value.match(HTTP_DATE);
+  if (!m) return undefined;
+  const ms = Date.parse(m[0]);
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+function secondsUntil(ms: number, now: number): number {
+  return Math.ceil((ms - now) / 1000);
+}
+
+// -------------------------------------------------------------------------
+// Free-text parsing
+// -------------------------------------------------------------------------
+
+/**
+ * Find the most trustworthy wait hint in an error message. Returns undefined
+ * when the text carries no usable timing (or only times in the past).
+ */
+export function parseWaitHint(text: string | undefined, now = Date.now()): WaitHint | undefined {
+  if (!text) return undefined;
+  const candidates: WaitHint[] = [];
+  const add = (seconds: number | undefined, confidence: number, source: string) => {
+    if (seconds !== undefined && Number.isFinite(seconds) && seconds > 0) {
+      candidates.push({ seconds: Math.ceil(seconds), confidence, source });
+    }
+  };
+
+  // Stringified structured fields.
+  const field = text.match(
+    new RegExp(`["']?(retry-?delay|retry-after|x-ratelimit-reset(?:-[a-z]+)?)["']?\\s*[:=]\\s*["']?([^"',}\\n]+)`, "i"),
+  );
+  if (field) {
+    const value = field[2].trim();
+    const httpDate = parseHttpDate(value);
+    add(
+      httpDate !== undefined ? secondsUntil(httpDate, now) : parseDuration(value),
+      WAIT_HINT_CONFIDENCE.structured,
+      field[1].toLowerCase().replace("retrydelay", "retry-delay"),
+    );
+  }
+
+  // Relative durations: "in 4m30s", "after 60 seconds", "wait 2 hours".
+  const rel = text.match(new RegExp(`\\b(?:in|after|wait|within)\\s+(${DURATION})`, "i"));
+  if (rel) add(sumPieces(rel[1]), WAIT_HINT_CONFIDENCE.duration, "duration");
+
+  const httpDate = parseHttpDate(text);
+  if (httpDate !== undefined) add(secondsUntil(httpDate, now), WAIT_HINT_CONFIDENCE.absolute, "http-date");
+
+  const iso = text.match(ISO_TIMESTAMP);
+  if (iso) {
+    const ms = Date.parse(`${iso[1]}T${iso[2]}${iso[3].toUpperCase()}`);
+    if (!Number.isNaN(ms)) add(secondsUntil(ms, now), WAIT_HINT_CONFIDENCE.absolute, "timestamp");
+  }
+
+  const clock = text.match(CLOCK_TIME);
+  if (clock) {
+    let hour = parseInt(clock[1], 10);
+    const minute = parseInt(clock[2], 10);
+    const second = clock[3] ? parseInt(clock[3], 10) : 0;
+    const meridiem = clock[4]?.toLowerCase();
+    if (meridiem === "pm" && hour < 12) hour += 12;
+    if (meridiem === "am" && hour === 12) hour = 0;
+    if (hour < 24 && minute < 60 && second < 60) {
+      const zone = resolveZone(clock[5]);
+      add(
+        secondsUntil(nextZonedTime(zone ?? 0, hour, minute, second, now), now),
+        zone !== undefined ? WAIT_HINT_CONFIDENCE.absolute : WAIT_HINT_CONFIDENCE.clockWithoutZone,
+        "clock-time",
+      );
+    }
+  }
+
+  // "retry after 30" without a unit: most APIs mean seconds, but it is a guess.
+  const bare = text.match(/\bretry(?:ing)?\s+(?:after|in)\s+(\d+)(?![\d:.]|\s*[a-z])/i);
+  if (bare) add(parseInt(bare[1], 10), WAIT_HINT_CONFIDENCE.bareNumber, "bare-number");
+
+  let best: WaitHint | undefined;
+  for (const c of candidates) {
+    if (!best || c.confidence > best.confidence) best = c;
+  }
+  return best;
+}